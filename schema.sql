@@ -150,4 +150,297 @@ CREATE TABLE knowledge_note_links (
     task_id INTEGER REFERENCES tasks(id) ON DELETE CASCADE,
     commit_id INTEGER REFERENCES commits(id) ON DELETE CASCADE
     -- Note: We can use constraints to ensure at least one link is not null
-);
\ No newline at end of file
+);
+
+-- Content-addressed cache of embeddings, shared across files, projects and re-ingests.
+-- The key is the embedding model plus the sha256 of the normalized input text.
+CREATE TABLE IF NOT EXISTS embedding_cache (
+    model TEXT NOT NULL,
+    input_hash TEXT NOT NULL,
+    embedding VECTOR(1536) NOT NULL,
+    hit_count INTEGER NOT NULL DEFAULT 0,
+    created_at TIMESTAMPTZ DEFAULT NOW(),
+    last_used_at TIMESTAMPTZ DEFAULT NOW(),
+    PRIMARY KEY (model, input_hash)
+);
+
+CREATE INDEX IF NOT EXISTS idx_embedding_cache_last_used_at ON embedding_cache (last_used_at);
+
+-- Lookup totals per model. Pruning deletes cache rows, so hits and misses are counted here instead.
+CREATE TABLE IF NOT EXISTS embedding_cache_lookups (
+    model TEXT PRIMARY KEY,
+    hits BIGINT NOT NULL DEFAULT 0,
+    misses BIGINT NOT NULL DEFAULT 0
+);
+-- Seeded once from the cache: every stored entry was a miss, and its hit_count the hits since.
+INSERT INTO embedding_cache_lookups (model, hits, misses)
+SELECT model, COALESCE(SUM(hit_count), 0), COUNT(*) FROM embedding_cache GROUP BY model
+ON CONFLICT (model) DO NOTHING;
+
+-- Chunk-level incremental re-indexing: chunks are matched across edits by content hash.
+ALTER TABLE code_chunks ADD COLUMN IF NOT EXISTS content_hash TEXT;
+UPDATE code_chunks SET content_hash = encode(sha256(convert_to(content, 'UTF8')), 'hex') WHERE content_hash IS NULL;
+CREATE INDEX IF NOT EXISTS idx_code_chunks_content_hash ON code_chunks (file_id, content_hash);
+
+
+-- Persistent record of every ingestion run, so progress survives restarts and any client can watch it.
+CREATE TABLE IF NOT EXISTS ingestion_runs (
+    id SERIAL PRIMARY KEY,
+    project_id INTEGER NOT NULL REFERENCES projects(id) ON DELETE CASCADE,
+    status TEXT NOT NULL DEFAULT 'queued' CHECK (status IN ('queued', 'running', 'completed', 'failed', 'cancelled')),
+    stage TEXT, -- 'fetching', 'files' or 'git_history' while running
+    files_total INTEGER NOT NULL DEFAULT 0,
+    files_processed INTEGER NOT NULL DEFAULT 0,
+    files_failed INTEGER NOT NULL DEFAULT 0,
+    commits_total INTEGER NOT NULL DEFAULT 0,
+    commits_processed INTEGER NOT NULL DEFAULT 0,
+    commits_failed INTEGER NOT NULL DEFAULT 0,
+    last_file_path TEXT, -- Resume cursor: the last file this run completed
+    last_commit_hash TEXT,
+    errors JSONB NOT NULL DEFAULT '[]',
+    error_message TEXT, -- The fatal error, if the run failed
+    resume_count INTEGER NOT NULL DEFAULT 0,
+    created_at TIMESTAMPTZ DEFAULT NOW(),
+    started_at TIMESTAMPTZ,
+    finished_at TIMESTAMPTZ,
+    updated_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_ingestion_runs_project_id ON ingestion_runs (project_id, created_at DESC);
+CREATE INDEX IF NOT EXISTS idx_ingestion_runs_status ON ingestion_runs (status);
+
+-- At most one queued run per project: duplicate sync requests are merged into it.
+CREATE UNIQUE INDEX IF NOT EXISTS idx_ingestion_runs_one_queued_per_project ON ingestion_runs (project_id) WHERE status = 'queued';
+
+
+-- Per-project secret for verifying git push webhooks (HMAC key for GitHub/Gitea, token for GitLab).
+ALTER TABLE projects ADD COLUMN IF NOT EXISTS webhook_secret TEXT;
+
+
+-- Periodic re-sync: a cron expression per project, evaluated by the server's built-in scheduler.
+ALTER TABLE projects ADD COLUMN IF NOT EXISTS sync_schedule TEXT; -- e.g. '0 * * * *'; NULL disables periodic sync
+ALTER TABLE projects ADD COLUMN IF NOT EXISTS last_scheduled_sync_at TIMESTAMPTZ;
+ALTER TABLE projects ADD COLUMN IF NOT EXISTS next_scheduled_sync_at TIMESTAMPTZ;
+ALTER TABLE projects ADD COLUMN IF NOT EXISTS last_scheduled_sync_result TEXT;
+CREATE INDEX IF NOT EXISTS idx_projects_next_scheduled_sync_at ON projects (next_scheduled_sync_at) WHERE sync_schedule IS NOT NULL;
+
+-- Where a project's code comes from: a git remote, a directory on the server, or an uploaded archive.
+ALTER TABLE projects ADD COLUMN IF NOT EXISTS source_type TEXT NOT NULL DEFAULT 'git'
+  CHECK (source_type IN ('git', 'local', 'archive'));
+
+-- Per-project credentials for private repositories. The secret (token or private key) is encrypted
+-- with CREDENTIALS_MASTER_KEY; known_hosts is the pinned host key list used for SSH.
+CREATE TABLE IF NOT EXISTS project_credentials (
+    project_id INTEGER PRIMARY KEY REFERENCES projects(id) ON DELETE CASCADE,
+    kind TEXT NOT NULL CHECK (kind IN ('https_token', 'ssh_key')),
+    username TEXT,
+    known_hosts TEXT,
+    encrypted_secret TEXT NOT NULL,
+    created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+    updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+-- Per-project index settings. A repository can back several projects with different root directories
+-- (monorepo sub-projects), so the source alone is no longer unique.
+ALTER TABLE projects ADD COLUMN IF NOT EXISTS index_root TEXT; -- relative to the repository root; NULL = whole repository
+ALTER TABLE projects ADD COLUMN IF NOT EXISTS include_globs TEXT[] NOT NULL DEFAULT '{}';
+ALTER TABLE projects ADD COLUMN IF NOT EXISTS exclude_globs TEXT[] NOT NULL DEFAULT '{}';
+ALTER TABLE projects ADD COLUMN IF NOT EXISTS max_file_size_bytes INTEGER; -- NULL = MAX_INDEX_FILE_SIZE_BYTES
+ALTER TABLE projects DROP CONSTRAINT IF EXISTS projects_source_key;
+CREATE UNIQUE INDEX IF NOT EXISTS idx_projects_source_index_root ON projects (source, COALESCE(index_root, ''));
+
+-- Files that ingestion deliberately left out (binary, minified, oversized...), with the reason.
+CREATE TABLE IF NOT EXISTS skipped_files (
+    project_id INTEGER NOT NULL REFERENCES projects(id) ON DELETE CASCADE,
+    path TEXT NOT NULL,
+    reason TEXT NOT NULL CHECK (reason IN ('too_large', 'binary', 'invalid_encoding', 'minified', 'data_dump')),
+    detail TEXT,
+    size_bytes BIGINT NOT NULL DEFAULT 0,
+    skipped_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+    PRIMARY KEY (project_id, path)
+);
+
+-- Commit-to-file links record paths, so they survive deletes and renames. file_id points at the
+-- indexed file while it exists; old_path links a rename to the file's previous name.
+ALTER TABLE commit_files ALTER COLUMN file_id DROP NOT NULL;
+ALTER TABLE commit_files DROP CONSTRAINT IF EXISTS commit_files_file_id_fkey;
+ALTER TABLE commit_files ADD CONSTRAINT commit_files_file_id_fkey FOREIGN KEY (file_id) REFERENCES indexed_files(id) ON DELETE SET NULL;
+ALTER TABLE commit_files ADD COLUMN IF NOT EXISTS path TEXT;
+ALTER TABLE commit_files ADD COLUMN IF NOT EXISTS old_path TEXT;
+ALTER TABLE commit_files ADD COLUMN IF NOT EXISTS additions INTEGER; -- NULL for binary files
+ALTER TABLE commit_files ADD COLUMN IF NOT EXISTS deletions INTEGER;
+UPDATE commit_files cf SET path = f.path FROM indexed_files f WHERE cf.file_id = f.id AND cf.path IS NULL;
+UPDATE commit_files SET change_type = LEFT(change_type, 1) WHERE LENGTH(change_type) > 1; -- 'R100' -> 'R'
+ALTER TABLE commit_files DROP CONSTRAINT IF EXISTS commit_files_commit_id_file_id_key;
+CREATE UNIQUE INDEX IF NOT EXISTS idx_commit_files_commit_path ON commit_files (commit_id, path);
+CREATE INDEX IF NOT EXISTS idx_commit_files_path ON commit_files (path);
+
+-- Branch and tag aware indexing. The default branch is indexed as ref 'HEAD'; projects.tracked_refs
+-- lists extra branches/tags (patterns like 'release/*' allowed), each indexed separately.
+ALTER TABLE projects ADD COLUMN IF NOT EXISTS tracked_refs TEXT[] NOT NULL DEFAULT '{}';
+ALTER TABLE indexed_files ADD COLUMN IF NOT EXISTS ref TEXT NOT NULL DEFAULT 'HEAD';
+ALTER TABLE indexed_files DROP CONSTRAINT IF EXISTS indexed_files_project_id_path_key;
+CREATE UNIQUE INDEX IF NOT EXISTS idx_indexed_files_project_ref_path ON indexed_files (project_id, ref, path);
+CREATE INDEX IF NOT EXISTS idx_indexed_files_content_hash ON indexed_files (project_id, content_hash);
+ALTER TABLE skipped_files ADD COLUMN IF NOT EXISTS ref TEXT NOT NULL DEFAULT 'HEAD';
+ALTER TABLE skipped_files DROP CONSTRAINT IF EXISTS skipped_files_pkey;
+ALTER TABLE skipped_files ADD PRIMARY KEY (project_id, ref, path);
+ALTER TABLE conversations ADD COLUMN IF NOT EXISTS ref TEXT NOT NULL DEFAULT 'HEAD';
+
+-- Which tracked refs contain each commit.
+CREATE TABLE IF NOT EXISTS commit_refs (
+    commit_id INTEGER NOT NULL REFERENCES commits(id) ON DELETE CASCADE,
+    ref TEXT NOT NULL,
+    PRIMARY KEY (commit_id, ref)
+);
+CREATE INDEX IF NOT EXISTS idx_commit_refs_ref ON commit_refs (ref);
+-- Commits stored before refs were tracked all came from the default branch.
+INSERT INTO commit_refs (commit_id, ref)
+SELECT c.id, 'HEAD' FROM commits c
+WHERE NOT EXISTS (SELECT 1 FROM commit_refs r WHERE r.commit_id = c.id)
+ON CONFLICT DO NOTHING;
+-- Off for commits stored while only on another tracked ref; their task links, closing verbs
+-- and retrospective tasks are applied once they reach the default branch.
+ALTER TABLE commits ADD COLUMN IF NOT EXISTS tasks_applied BOOLEAN NOT NULL DEFAULT TRUE;
+
+-- Historical snapshots. With projects.keep_history on, every version of the default branch's
+-- chunks is kept with the commit range it was valid for; content is stored once per hash.
+ALTER TABLE projects ADD COLUMN IF NOT EXISTS keep_history BOOLEAN NOT NULL DEFAULT FALSE;
+ALTER TABLE projects ADD COLUMN IF NOT EXISTS history_since TIMESTAMPTZ;
+ALTER TABLE indexed_files ADD COLUMN IF NOT EXISTS history_hash TEXT;
+ALTER TABLE conversations ADD COLUMN IF NOT EXISTS as_of TIMESTAMPTZ;
+
+CREATE TABLE IF NOT EXISTS chunk_contents (
+    id SERIAL PRIMARY KEY,
+    project_id INTEGER NOT NULL REFERENCES projects(id) ON DELETE CASCADE,
+    content_hash TEXT NOT NULL,
+    content TEXT NOT NULL,
+    embedding VECTOR(1536) NOT NULL,
+    UNIQUE (project_id, content_hash)
+);
+CREATE INDEX IF NOT EXISTS idx_chunk_contents_embedding ON chunk_contents USING HNSW (embedding vector_l2_ops);
+
+CREATE TABLE IF NOT EXISTS chunk_versions (
+    id SERIAL PRIMARY KEY,
+    project_id INTEGER NOT NULL REFERENCES projects(id) ON DELETE CASCADE,
+    path TEXT NOT NULL,
+    content_id INTEGER NOT NULL REFERENCES chunk_contents(id) ON DELETE CASCADE,
+    chunk_name TEXT,
+    chunk_type TEXT,
+    start_line INTEGER,
+    end_line INTEGER,
+    valid_from_commit TEXT NOT NULL,
+    valid_from_at TIMESTAMPTZ NOT NULL,
+    valid_to_commit TEXT,
+    valid_to_at TIMESTAMPTZ
+);
+CREATE INDEX IF NOT EXISTS idx_chunk_versions_open ON chunk_versions (project_id, path) WHERE valid_to_at IS NULL;
+CREATE INDEX IF NOT EXISTS idx_chunk_versions_range ON chunk_versions (project_id, valid_from_at, valid_to_at);
+-- The default branch's head each time chunk history was recorded. Versions are dated to the
+-- last commit touching a file, so between two of these points a file's intermediate versions
+-- are missing and the code cannot be reconstructed.
+CREATE TABLE IF NOT EXISTS history_snapshots (
+    project_id INTEGER NOT NULL REFERENCES projects(id) ON DELETE CASCADE,
+    commit_hash TEXT NOT NULL,
+    commit_date TIMESTAMPTZ NOT NULL,
+    PRIMARY KEY (project_id, commit_hash)
+);
+-- History recorded before snapshots existed starts at the head of its first sync.
+INSERT INTO history_snapshots (project_id, commit_hash, commit_date)
+SELECT p.id, c.commit_hash, c.commit_date FROM projects p
+JOIN LATERAL (
+    SELECT commit_hash, commit_date FROM commits
+    WHERE project_id = p.id AND commit_date <= p.history_since
+    ORDER BY commit_date DESC LIMIT 1
+) c ON TRUE
+WHERE p.history_since IS NOT NULL
+ON CONFLICT DO NOTHING;
+
+-- Code ownership from git blame: each author's share of a chunk's lines on the default branch.
+ALTER TABLE indexed_files ADD COLUMN IF NOT EXISTS blame_hash TEXT;
+CREATE TABLE IF NOT EXISTS chunk_authors (
+    chunk_id INTEGER NOT NULL REFERENCES code_chunks(id) ON DELETE CASCADE,
+    author_name TEXT NOT NULL,
+    author_email TEXT NOT NULL,
+    line_count INTEGER NOT NULL,
+    share REAL NOT NULL,
+    last_touched_at TIMESTAMPTZ NOT NULL,
+    PRIMARY KEY (chunk_id, author_email)
+);
+CREATE INDEX IF NOT EXISTS idx_chunk_authors_email ON chunk_authors (author_email);
+
+-- Symbol and import graph extracted from the AST of each indexed file.
+ALTER TABLE indexed_files ADD COLUMN IF NOT EXISTS symbols_hash TEXT;
+CREATE TABLE IF NOT EXISTS code_symbols (
+    id SERIAL PRIMARY KEY,
+    file_id INTEGER NOT NULL REFERENCES indexed_files(id) ON DELETE CASCADE,
+    name TEXT NOT NULL,
+    kind TEXT NOT NULL,
+    start_line INTEGER NOT NULL,
+    end_line INTEGER NOT NULL,
+    exported BOOLEAN NOT NULL DEFAULT FALSE
+);
+CREATE INDEX IF NOT EXISTS idx_code_symbols_name ON code_symbols (name);
+CREATE INDEX IF NOT EXISTS idx_code_symbols_file_id ON code_symbols (file_id);
+
+-- candidate_paths lists the repository files an import may resolve to; empty for external packages.
+CREATE TABLE IF NOT EXISTS file_imports (
+    id SERIAL PRIMARY KEY,
+    file_id INTEGER NOT NULL REFERENCES indexed_files(id) ON DELETE CASCADE,
+    specifier TEXT NOT NULL,
+    names TEXT[] NOT NULL DEFAULT '{}',
+    candidate_paths TEXT[] NOT NULL DEFAULT '{}',
+    line INTEGER NOT NULL
+);
+CREATE INDEX IF NOT EXISTS idx_file_imports_file_id ON file_imports (file_id);
+CREATE INDEX IF NOT EXISTS idx_file_imports_candidates ON file_imports USING GIN (candidate_paths);
+CREATE INDEX IF NOT EXISTS idx_file_imports_specifier ON file_imports (specifier);
+
+CREATE TABLE IF NOT EXISTS symbol_references (
+    file_id INTEGER NOT NULL REFERENCES indexed_files(id) ON DELETE CASCADE,
+    name TEXT NOT NULL,
+    line INTEGER NOT NULL,
+    PRIMARY KEY (file_id, name, line)
+);
+CREATE INDEX IF NOT EXISTS idx_symbol_references_name ON symbol_references (name);
+
+-- Chunk hierarchy: a method's chunk points at its class's chunk.
+ALTER TABLE code_chunks ADD COLUMN IF NOT EXISTS parent_id INTEGER REFERENCES code_chunks(id) ON DELETE SET NULL;
+CREATE INDEX IF NOT EXISTS idx_code_chunks_parent_id ON code_chunks (parent_id);
+
+-- Line ranges of document chunks; long sections are split into several chunks.
+ALTER TABLE document_chunks ADD COLUMN IF NOT EXISTS start_line INTEGER;
+ALTER TABLE document_chunks ADD COLUMN IF NOT EXISTS end_line INTEGER;
+
+-- Tasks referenced by commits ("fixes #12", "refs #7", trailers, branch names).
+-- relation: 'closes', 'reopens' or 'references'; source: 'message', 'trailer', 'branch', or 'generated'
+-- for a retrospective task generated from the commit.
+CREATE TABLE IF NOT EXISTS task_commits (
+    task_id INTEGER NOT NULL REFERENCES tasks(id) ON DELETE CASCADE,
+    commit_id INTEGER NOT NULL REFERENCES commits(id) ON DELETE CASCADE,
+    relation TEXT NOT NULL,
+    source TEXT NOT NULL,
+    PRIMARY KEY (task_id, commit_id)
+);
+CREATE INDEX IF NOT EXISTS idx_task_commits_commit_id ON task_commits (commit_id);
+
+-- Tasks generated from commits, which may be merged with near-duplicates.
+ALTER TABLE tasks ADD COLUMN IF NOT EXISTS is_retrospective BOOLEAN NOT NULL DEFAULT FALSE;
+-- Tasks generated before task_commits existed were created done, dated to their commit, and
+-- never linked to it; link them now so they are recognized below.
+INSERT INTO task_commits (task_id, commit_id, relation, source)
+SELECT DISTINCT ON (t.id) t.id, c.id, 'closes', 'generated'
+FROM tasks t
+JOIN commits c ON c.project_id = t.project_id AND c.commit_date = t.created_at
+WHERE t.status = 'done' AND NOT t.is_retrospective
+  AND NOT EXISTS (SELECT 1 FROM task_commits tc WHERE tc.task_id = t.id)
+ORDER BY t.id, c.id
+ON CONFLICT DO NOTHING;
+UPDATE tasks SET is_retrospective = TRUE WHERE id IN (SELECT task_id FROM task_commits WHERE source = 'generated');
+CREATE INDEX IF NOT EXISTS idx_tasks_retrospective ON tasks (project_id) WHERE is_retrospective;
+
+-- A short description of each commit written from its diff; embedded in place of the message.
+-- digested_at is set once the commit has a digest or turned out too trivial for one; commits
+-- whose digest failed keep it NULL and are retried on the next sync.
+ALTER TABLE commits ADD COLUMN IF NOT EXISTS digest TEXT;
+ALTER TABLE commits ADD COLUMN IF NOT EXISTS digested_at TIMESTAMPTZ;
@@ -0,0 +1,34 @@
+// --- FILE: api/admin/admin.controller.ts ---
+import { Request, Response, NextFunction } from 'express';
+import * as embeddingCache from '../../services/embeddingCache';
+import { getSchedulerStats } from '../../services/queue.service';
+
+export async function getEmbeddingCacheStats(req: Request, res: Response, next: NextFunction) {
+    try {
+        const stats = await embeddingCache.getCacheStats();
+        res.json(stats);
+    } catch (error) {
+        next(error);
+    }
+}
+
+export async function pruneEmbeddingCache(req: Request, res: Response, next: NextFunction) {
+    try {
+        const { olderThanDays, otherModels } = req.body || {};
+        if (olderThanDays === undefined && !otherModels) {
+            return res.status(400).json({ error: 'Provide "olderThanDays" and/or "otherModels: true".' });
+        }
+        if (olderThanDays !== undefined && (!Number.isInteger(olderThanDays) || olderThanDays < 0)) {
+            return res.status(400).json({ error: '"olderThanDays" must be a non-negative integer.' });
+        }
+
+        const deleted = await embeddingCache.pruneCache({ olderThanDays, otherModels: !!otherModels });
+        res.json({ message: `Pruned ${deleted} cache entries.`, deleted });
+    } catch (error) {
+        next(error);
+    }
+}
+
+export function getIngestionSchedulerStats(req: Request, res: Response) {
+    res.json(getSchedulerStats());
+}
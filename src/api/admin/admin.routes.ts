@@ -0,0 +1,14 @@
+// --- FILE: api/admin/admin.routes.ts ---
+import { Router } from 'express';
+import * as adminController from './admin.controller';
+
+const router = Router();
+
+// --- Embedding Cache Routes ---
+router.get('/embedding-cache', adminController.getEmbeddingCacheStats);
+router.post('/embedding-cache/prune', adminController.pruneEmbeddingCache);
+
+// --- Ingestion Scheduler Routes ---
+router.get('/ingestion-scheduler', adminController.getIngestionSchedulerStats);
+
+export default router;
@@ -2,9 +2,12 @@
 import { Request, Response, NextFunction } from 'express';
 import * as conversationService from './conversation.service';
 import * as qaService from '../projects/qa.service'; 
+import { parseRefParam, UnknownRefError } from '../projects/project.service';
+import { InvalidAsOfError, HistoryNotKeptError } from '../projects/history.service';
 
 // streamResponse function (unchanged)
-async function streamResponse(req: Request, res: Response, conversationId: number, projectId: number) {
+// MODIFIED: Answers use the ref (and point in time) the conversation was started on
+async function streamResponse(req: Request, res: Response, conversationId: number, projectId: number, scope: { ref: string, as_of: Date | null }) {
     // ... (previous code)
     // Setup SSE headers
     res.setHeader('Content-Type', 'text/event-stream');
@@ -39,14 +42,15 @@ async function streamResponse(req: Request, res: Response, conversationId: numbe
         const { stream, sources } = await qaService.getAnswerStream(
             projectId,
             question,
-            history // <-- Pass the history here
+            history, // <-- Pass the history here
+            scope.ref,
+            scope.as_of
         );
         
         res.write(`event: sources\ndata: ${JSON.stringify(sources)}\n\n`);
 
-        for await (const chunk of stream) {
+        for await (const content of stream) {
             if (res.writableEnded) break;
-            const content = chunk.choices[0]?.delta?.content || '';
             if (content) {
                 fullResponse += content;
                 res.write(`event: token\ndata: ${JSON.stringify({ token: content })}\n\n`);
@@ -75,18 +79,31 @@ export async function createConversation(req: Request, res: Response, next: Next
     // ... (previous code)
     try {
         const projectId = parseInt(req.params.projectId, 10);
-        const { first_message } = req.body;
+        const { first_message, ref, at } = req.body;
 
         if (!first_message) {
             return res.status(400).json({ error: 'A "first_message" is required.' });
         }
 
-        const conversation = await conversationService.createConversation(projectId, first_message);
+        if (at !== undefined && (typeof at !== 'string' || !at.trim())) {
+            return res.status(400).json({ error: '"at" must be a commit hash or a date.' });
+        }
+
+        const conversation = await conversationService.createConversation(projectId, first_message, parseRefParam(ref), at?.trim() || null);
         
         // MODIFIED: Pass req and projectId to the stream handler
-        await streamResponse(req, res, conversation.id, projectId);
+        await streamResponse(req, res, conversation.id, projectId, conversation);
 
     } catch (error) {
+        if (error instanceof UnknownRefError) {
+            return res.status(404).json({ error: error.message });
+        }
+        if (error instanceof InvalidAsOfError) {
+            return res.status(400).json({ error: error.message });
+        }
+        if (error instanceof HistoryNotKeptError) {
+            return res.status(409).json({ error: error.message });
+        }
         if (!res.headersSent) {
           next(error);
         } else {
@@ -110,10 +127,15 @@ export async function addMessageToConversation(req: Request, res: Response, next
             return res.status(400).json({ error: 'A "message" is required.' });
         }
         
+        const scope = await conversationService.getConversationScope(conversationId);
+        if (scope === null) {
+            return res.status(404).json({ error: `Conversation with ID ${conversationId} not found.` });
+        }
+
         await conversationService.addUserMessage(conversationId, message);
         
         // MODIFIED: Pass req and projectId to the stream handler
-        await streamResponse(req, res, conversationId, projectId);
+        await streamResponse(req, res, conversationId, projectId, scope);
 
     } catch (error) {
          if (!res.headersSent) {
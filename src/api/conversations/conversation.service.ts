@@ -1,26 +1,33 @@
 // --- FILE: api/conversations/conversation.service.ts ---
 import pool from '../../services/db';
-import * as openAI from '../../services/openai';
+import * as llm from '../../services/llm';
 import pgvector from 'pgvector/pg';
 import { Source } from '../projects/qa.service'; // Import the Source type
+import { DEFAULT_REF } from '../../services/git';
+import { assertRefIndexed } from '../projects/project.service';
+import { resolveAsOf } from '../projects/history.service';
 
 /**
  * Creates a new conversation and its first user message in the database.
  * @param projectId The ID of the project.
  * @param firstMessage The content of the user's first message.
+ * @param ref The branch or tag the conversation asks about; answers use that ref's code and commits.
+ * @param at Optional commit hash or date; answers then use the code as it was at that point.
  * @returns The newly created conversation object.
  */
-export async function createConversation(projectId: number, firstMessage: string) {
+export async function createConversation(projectId: number, firstMessage: string, ref: string = DEFAULT_REF, at: string | null = null) {
     const client = await pool.connect();
     try {
+        await assertRefIndexed(client, projectId, ref);
+        const asOf = at ? await resolveAsOf(client, projectId, at, ref) : null;
         await client.query('BEGIN');
 
         // Generate a title from the first message
         const title = firstMessage.length > 80 ? firstMessage.substring(0, 77) + '...' : firstMessage;
 
         const convResult = await client.query(
-            'INSERT INTO conversations (project_id, title) VALUES ($1, $2) RETURNING *',
-            [projectId, title]
+            'INSERT INTO conversations (project_id, title, ref, as_of) VALUES ($1, $2, $3, $4) RETURNING *',
+            [projectId, title, ref, asOf]
         );
         const conversation = convResult.rows[0];
 
@@ -40,6 +47,21 @@ export async function createConversation(projectId: number, firstMessage: string
     }
 }
 
+/**
+ * Returns the ref (and point in time, if any) a conversation was started on,
+ * or null if the conversation does not exist.
+ * @param conversationId The ID of the conversation.
+ */
+export async function getConversationScope(conversationId: number): Promise<{ ref: string, as_of: Date | null } | null> {
+    const client = await pool.connect();
+    try {
+        const { rows } = await client.query('SELECT ref, as_of FROM conversations WHERE id = $1', [conversationId]);
+        return rows.length > 0 ? rows[0] : null;
+    } finally {
+        client.release();
+    }
+}
+
 /**
  * Adds a new user message to an existing conversation.
  * @param conversationId The ID of the conversation.
@@ -85,7 +107,7 @@ export async function listConversations(projectId: number) {
     const client = await pool.connect();
     try {
         const { rows } = await client.query(
-            'SELECT id, title, updated_at FROM conversations WHERE project_id = $1 ORDER BY updated_at DESC',
+            'SELECT id, title, ref, as_of, updated_at FROM conversations WHERE project_id = $1 ORDER BY updated_at DESC',
             [projectId]
         );
         return rows;
@@ -120,6 +142,8 @@ export async function captureKnowledgeFromConversation(projectId: number, conver
             return null;
         }
 
+        // Code sources are the files of the ref the conversation was about.
+        const ref = (await getConversationScope(conversationId))?.ref || DEFAULT_REF;
         const transcript = messages.map(m => `${m.role.toUpperCase()}:\n${m.content}`).join('\n\n---\n\n');
 
         const systemPrompt = `You are an AI assistant that distills key decisions and summaries from engineering conversations. Analyze the following transcript and extract the single most important decision, technical summary, or architectural choice. The summary MUST be a concise, one-sentence statement. If no clear decision was made or the conversation is trivial, respond with the exact string "NULL".
@@ -131,7 +155,7 @@ Example outputs:
         
         const userPrompt = `CONVERSATION TRANSCRIPT:\n\n${transcript}`;
 
-        const summary = await openAI.getChatCompletion([
+        const summary = await llm.getChatCompletion([
             { role: 'system', content: systemPrompt },
             { role: 'user', content: userPrompt }
         ]);
@@ -143,7 +167,7 @@ Example outputs:
         
         await client.query('BEGIN');
         
-        const embedding = await openAI.getEmbedding(summary);
+        const embedding = await llm.getEmbedding(summary);
 
         const noteResult = await client.query(
             'INSERT INTO knowledge_notes (project_id, conversation_id, note_summary, embedding) VALUES ($1, $2, $3, $4) RETURNING id',
@@ -160,7 +184,7 @@ Example outputs:
 
         for (const source of uniqueSources) {
             if (source.type === 'code') {
-                const { rows } = await client.query('SELECT id FROM indexed_files WHERE path = $1 AND project_id = $2', [source.id, projectId]);
+                const { rows } = await client.query('SELECT id FROM indexed_files WHERE path = $1 AND project_id = $2 AND ref = $3', [source.id, projectId, ref]);
                 if (rows.length > 0) {
                     await client.query('INSERT INTO knowledge_note_links (knowledge_note_id, file_id) VALUES ($1, $2)', [knowledgeNoteId, rows[0].id]);
                 }
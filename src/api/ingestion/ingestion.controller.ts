@@ -0,0 +1,127 @@
+// --- FILE: api/ingestion/ingestion.controller.ts ---
+import { Request, Response, NextFunction } from 'express';
+import * as ingestionService from './ingestion.service';
+import * as projectService from '../projects/project.service';
+
+// MODIFIED: With `dryRun: true` (body or query) nothing is ingested; the response is a cost estimate.
+export async function startRun(req: Request, res: Response, next: NextFunction) {
+    try {
+        const projectId = parseInt(req.params.projectId, 10);
+        if (req.body?.dryRun === true || req.query.dryRun === 'true') {
+            const estimate = await ingestionService.estimateIngestionRun(projectId);
+            if (!estimate) {
+                return res.status(404).json({ error: `Project with ID ${projectId} not found.` });
+            }
+            return res.json({ dryRun: true, estimate });
+        }
+        if (!await projectService.getProjectById(projectId)) {
+            return res.status(404).json({ error: `Project with ID ${projectId} not found.` });
+        }
+        const { run, merged } = await ingestionService.startIngestionRun(projectId);
+        res.status(202).json({
+            message: merged ? 'A sync for this project is already queued; the request was merged into it.' : 'Ingestion run queued.',
+            merged,
+            run,
+        });
+    } catch (error) {
+        next(error);
+    }
+}
+
+export async function listRuns(req: Request, res: Response, next: NextFunction) {
+    try {
+        const projectId = parseInt(req.params.projectId, 10);
+        const limit = req.query.limit === undefined ? undefined : parseInt(String(req.query.limit), 10);
+        if (limit !== undefined && (!Number.isInteger(limit) || limit < 1 || limit > 100)) {
+            return res.status(400).json({ error: '"limit" must be an integer between 1 and 100.' });
+        }
+        const runs = await ingestionService.listIngestionRuns(projectId, limit);
+        res.json(runs);
+    } catch (error) {
+        next(error);
+    }
+}
+
+export async function getRun(req: Request, res: Response, next: NextFunction) {
+    try {
+        const projectId = parseInt(req.params.projectId, 10);
+        const runId = parseInt(req.params.runId, 10);
+        const run = await ingestionService.getIngestionRun(projectId, runId);
+        res.json(run);
+    } catch (error) {
+        if (error instanceof ingestionService.IngestionRunNotFoundError) {
+            return res.status(404).json({ error: error.message });
+        }
+        next(error);
+    }
+}
+
+export async function cancelRun(req: Request, res: Response, next: NextFunction) {
+    try {
+        const projectId = parseInt(req.params.projectId, 10);
+        const runId = parseInt(req.params.runId, 10);
+        const run = await ingestionService.cancelIngestionRun(projectId, runId);
+        res.status(202).json({ message: 'Cancellation requested.', run });
+    } catch (error) {
+        if (error instanceof ingestionService.IngestionRunNotFoundError) {
+            return res.status(404).json({ error: error.message });
+        }
+        next(error);
+    }
+}
+
+/**
+ * Streams a run's logs and status over SSE until it ends.
+ * Events: unnamed `data: {"log": ...}` lines, `status` (the run row) and `end` (the final run row).
+ */
+export async function streamRunEvents(req: Request, res: Response, projectId: number, runId: number) {
+    res.setHeader('Content-Type', 'text/event-stream');
+    res.setHeader('Cache-Control', 'no-cache');
+    res.setHeader('Connection', 'keep-alive');
+    res.flushHeaders();
+
+    const write = (chunk: string) => {
+        if (!res.writableEnded) {
+            res.write(chunk);
+        }
+    };
+
+    let unsubscribe = () => {};
+    req.on('close', () => {
+        console.log(`Client disconnected from ingestion run ${runId} stream.`);
+        unsubscribe();
+        res.end();
+    });
+
+    try {
+        unsubscribe = await ingestionService.subscribeToIngestionRun(projectId, runId, {
+            onLog: message => write(`data: ${JSON.stringify({ log: message })}\n\n`),
+            onStatus: run => write(`event: status\ndata: ${JSON.stringify(run)}\n\n`),
+            onEnd: run => {
+                if (run?.status === 'failed') {
+                    write(`event: error\ndata: ${JSON.stringify({ message: run.error_message })}\n\n`);
+                }
+                write(`event: end\ndata: ${JSON.stringify({ message: `Ingestion ${run?.status}`, run })}\n\n`);
+                unsubscribe();
+                if (!res.writableEnded) {
+                    res.end();
+                }
+            },
+        });
+        if (res.writableEnded) {
+            unsubscribe();
+        }
+    } catch (error) {
+        const errorMessage = error instanceof Error ? error.message : String(error);
+        write(`event: error\ndata: ${JSON.stringify({ message: errorMessage })}\n\n`);
+        if (!res.writableEnded) {
+            res.end();
+        }
+    }
+}
+
+export async function streamRun(req: Request, res: Response, next: NextFunction) {
+    const projectId = parseInt(req.params.projectId, 10);
+    const runId = parseInt(req.params.runId, 10);
+    await streamRunEvents(req, res, projectId, runId);
+}
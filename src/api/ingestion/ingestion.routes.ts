@@ -0,0 +1,15 @@
+// --- FILE: api/ingestion/ingestion.routes.ts ---
+import { Router } from 'express';
+import * as ingestionController from './ingestion.controller';
+
+// mergeParams is crucial for nested routes to access parent params like :projectId
+const router = Router({ mergeParams: true });
+
+router.post('/', ingestionController.startRun);
+router.get('/', ingestionController.listRuns);
+router.get('/:runId', ingestionController.getRun);
+router.post('/:runId/cancel', ingestionController.cancelRun);
+// SSE: any number of clients may attach to the same run.
+router.get('/:runId/stream', ingestionController.streamRun);
+
+export default router;
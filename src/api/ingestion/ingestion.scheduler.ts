@@ -0,0 +1,198 @@
+// --- FILE: api/ingestion/ingestion.scheduler.ts ---
+import { CronExpressionParser } from 'cron-parser';
+import simpleGit from 'simple-git';
+import { promises as fs } from 'fs';
+import path from 'path';
+import pool from '../../services/db';
+import { getWorkspacePathFromUrl, getRemoteHead, createCredentialScrubber } from '../../services/git';
+import { loadProjectCredentials } from '../projects/credential.service';
+import { startIngestionRun } from './ingestion.service';
+
+// How often the scheduler checks for due projects. Cron schedules have minute resolution.
+const TICK_INTERVAL_MS = parseInt(process.env.SYNC_SCHEDULER_TICK_MS || '60000', 10);
+const SCHEDULE_TIMEZONE = process.env.SYNC_SCHEDULE_TZ || 'UTC';
+
+export class InvalidScheduleError extends Error {
+    constructor(message: string) {
+        super(message);
+        this.name = 'InvalidScheduleError';
+    }
+}
+
+let timer: NodeJS.Timeout | null = null;
+let ticking = false;
+
+/**
+ * Computes the next time a cron expression fires after `from`.
+ * @throws {InvalidScheduleError} if the expression cannot be parsed.
+ */
+export function getNextRunTime(schedule: string, from: Date = new Date()): Date {
+    try {
+        return CronExpressionParser.parse(schedule, { currentDate: from, tz: SCHEDULE_TIMEZONE }).next().toDate();
+    } catch (error) {
+        throw new InvalidScheduleError(`Invalid cron schedule "${schedule}": ${error instanceof Error ? error.message : String(error)}`);
+    }
+}
+
+/**
+ * Decides whether a project's source has changed since it was last ingested successfully.
+ * Returns a reason to skip, or null if the project should be synced. Local directories are
+ * always synced; unchanged files are cheap to re-check.
+ */
+async function getSkipReason(project: any): Promise<string | null> {
+    const projectId: number = project.id;
+    const source: string = project.source;
+    const client = await pool.connect();
+    let lastRunStatus: string | null;
+    try {
+        const { rows } = await client.query(
+            'SELECT status FROM ingestion_runs WHERE project_id = $1 ORDER BY created_at DESC LIMIT 1',
+            [projectId]
+        );
+        lastRunStatus = rows[0]?.status || null;
+    } finally {
+        client.release();
+    }
+    if (lastRunStatus !== 'completed' || project.source_type === 'local') {
+        return null;
+    }
+    if (project.source_type === 'archive') {
+        return 'uploaded archives do not change';
+    }
+    if (project.tracked_refs?.length > 0) {
+        return null; // Tracked branches and tags can move while the default branch stays put.
+    }
+
+    const workspacePath = getWorkspacePathFromUrl(source);
+    try {
+        await fs.access(path.join(workspacePath, '.git'));
+    } catch (error) {
+        return null; // Never cloned here; sync it.
+    }
+
+    const credentials = await loadProjectCredentials(projectId);
+    const [remoteHead, localHead] = await Promise.all([
+        getRemoteHead(source, credentials).catch(error => {
+            throw new Error(createCredentialScrubber(credentials)(error instanceof Error ? error.message : String(error)));
+        }),
+        simpleGit(workspacePath).revparse(['HEAD']),
+    ]);
+    return remoteHead && remoteHead === localHead.trim() ? `remote unchanged (HEAD ${remoteHead.substring(0, 7)})` : null;
+}
+
+/**
+ * Claims a due project by moving its next run time forward. The conditional update makes
+ * sure a project is claimed once, even if ticks overlap.
+ */
+async function claimDueProject(project: any): Promise<boolean> {
+    const nextRun = getNextRunTime(project.sync_schedule);
+    const client = await pool.connect();
+    try {
+        const result = await client.query(
+            `UPDATE projects SET last_scheduled_sync_at = NOW(), next_scheduled_sync_at = $1
+             WHERE id = $2 AND next_scheduled_sync_at IS NOT DISTINCT FROM $3`,
+            [nextRun, project.id, project.next_scheduled_sync_at]
+        );
+        return !!result.rowCount;
+    } finally {
+        client.release();
+    }
+}
+
+async function recordResult(projectId: number, result: string) {
+    const client = await pool.connect();
+    try {
+        await client.query('UPDATE projects SET last_scheduled_sync_result = $1 WHERE id = $2', [result, projectId]);
+    } finally {
+        client.release();
+    }
+}
+
+async function syncDueProject(project: any) {
+    try {
+        if (!(await claimDueProject(project))) {
+            return;
+        }
+        const skipReason = await getSkipReason(project);
+        if (skipReason) {
+            console.log(`[scheduler] Skipping project ${project.id}: ${skipReason}.`);
+            await recordResult(project.id, `skipped: ${skipReason}`);
+            return;
+        }
+        const { run, merged } = await startIngestionRun(project.id);
+        console.log(`[scheduler] Queued ingestion run ${run.id} for project ${project.id}${merged ? ' (merged)' : ''}.`);
+        await recordResult(project.id, `queued run ${run.id}`);
+    } catch (error) {
+        const errorMessage = error instanceof Error ? error.message : String(error);
+        console.error(`[scheduler] Scheduled sync of project ${project.id} failed:`, error);
+        await recordResult(project.id, `failed: ${errorMessage}`).catch(() => {});
+    }
+}
+
+async function tick() {
+    if (ticking) {
+        return;
+    }
+    ticking = true;
+    try {
+        const client = await pool.connect();
+        let dueProjects: any[];
+        try {
+            const { rows } = await client.query(
+                `SELECT id, source, source_type, tracked_refs, sync_schedule, next_scheduled_sync_at FROM projects
+                 WHERE sync_schedule IS NOT NULL AND (next_scheduled_sync_at IS NULL OR next_scheduled_sync_at <= NOW())`
+            );
+            dueProjects = rows;
+        } finally {
+            client.release();
+        }
+        for (const project of dueProjects) {
+            await syncDueProject(project);
+        }
+    } catch (error) {
+        console.error('[scheduler] Tick failed:', error);
+    } finally {
+        ticking = false;
+    }
+}
+
+/**
+ * Starts the periodic re-sync scheduler. Due projects go through the regular ingestion queue.
+ */
+export function startSyncScheduler() {
+    if (timer) {
+        return;
+    }
+    timer = setInterval(tick, TICK_INTERVAL_MS);
+    console.log(`[scheduler] Periodic sync scheduler started (tick every ${TICK_INTERVAL_MS / 1000}s, timezone ${SCHEDULE_TIMEZONE}).`);
+    tick();
+}
+
+export function stopSyncScheduler() {
+    if (timer) {
+        clearInterval(timer);
+        timer = null;
+    }
+}
+
+/**
+ * Sets or clears a project's sync schedule.
+ * @param schedule A cron expression, or null to disable periodic sync.
+ * @returns The project's schedule fields, or null if the project doesn't exist.
+ * @throws {InvalidScheduleError} if the expression cannot be parsed.
+ */
+export async function setSyncSchedule(projectId: number, schedule: string | null) {
+    const nextRun = schedule ? getNextRunTime(schedule) : null;
+    const client = await pool.connect();
+    try {
+        const { rows } = await client.query(
+            `UPDATE projects SET sync_schedule = $1, next_scheduled_sync_at = $2
+             WHERE id = $3
+             RETURNING sync_schedule, last_scheduled_sync_at, next_scheduled_sync_at, last_scheduled_sync_result`,
+            [schedule, nextRun, projectId]
+        );
+        return rows[0] || null;
+    } finally {
+        client.release();
+    }
+}
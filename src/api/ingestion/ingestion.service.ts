@@ -0,0 +1,501 @@
+// --- FILE: api/ingestion/ingestion.service.ts ---
+import { EventEmitter } from 'events';
+import pool from '../../services/db';
+import { isWorkspaceBusy, scheduleIngestion } from '../../services/queue.service';
+import { getWorkspaceKey, prepareProjectWorkspace } from '../../services/projectSources';
+import { createCredentialScrubber, findExistingClone } from '../../services/git';
+import { loadProjectCredentials } from '../projects/credential.service';
+import { getProjectById } from '../projects/project.service';
+import {
+    runIngestion,
+    IngestionProgress,
+    IngestionStage,
+    IngestionCancelledError,
+} from '../../scripts/ingest';
+import { estimateIngestion, IngestionEstimate } from '../../scripts/estimate';
+
+export type RunStatus = 'queued' | 'running' | 'completed' | 'failed' | 'cancelled';
+
+export class IngestionRunNotFoundError extends Error {
+    constructor(runId: number) {
+        super(`Ingestion run ${runId} not found.`);
+        this.name = 'IngestionRunNotFoundError';
+    }
+}
+
+// Lines kept in memory so that clients attaching mid-run can catch up.
+const MAX_BUFFERED_LOGS = 500;
+// Per-item errors stored on the run row; the counters keep the true totals.
+const MAX_STORED_ERRORS = 100;
+// Progress is written to the database at most this often.
+const PROGRESS_FLUSH_INTERVAL_MS = 1000;
+// Attempts to queue a run when the queued one keeps starting under us.
+const MAX_START_ATTEMPTS = 5;
+
+interface RunError {
+    stage: IngestionStage;
+    item: string;
+    message: string;
+    at: string;
+}
+
+/**
+ * The in-process side of an active run: the live event stream and the buffered log.
+ * Events: 'log' (message), 'status' (run row), 'end' (run row).
+ */
+interface LiveRun {
+    emitter: EventEmitter;
+    logs: string[];
+    cancelRequested: boolean;
+}
+
+const liveRuns = new Map<number, LiveRun>();
+
+/**
+ * Turns the progress callbacks of `runIngestion` into persisted counters on the run row.
+ */
+class RunTracker implements IngestionProgress {
+    resumeAfterFile: string | null;
+    private stage: IngestionStage | null = null;
+    private counters = {
+        files_total: 0, files_processed: 0, files_failed: 0,
+        commits_total: 0, commits_processed: 0, commits_failed: 0,
+    };
+    private lastFilePath: string | null;
+    private lastCommitHash: string | null = null;
+    private errors: RunError[];
+    private lastFlushAt = 0;
+    private pendingFlush: Promise<void> = Promise.resolve();
+    // Masks credentials out of stored error messages; set once the project's credentials are known.
+    scrub: (message: string) => string = message => message;
+
+    constructor(private runId: number, private live: LiveRun, resumeAfterFile: string | null, errors: RunError[]) {
+        this.resumeAfterFile = resumeAfterFile;
+        this.lastFilePath = resumeAfterFile;
+        this.errors = errors;
+    }
+
+    isCancelled() {
+        return this.live.cancelRequested;
+    }
+
+    stageStarted(stage: IngestionStage) {
+        this.stage = stage;
+        this.scheduleFlush(true);
+    }
+
+    itemsFound(stage: IngestionStage, total: number) {
+        if (stage === 'files') this.counters.files_total = total;
+        if (stage === 'git_history') this.counters.commits_total = total;
+        this.scheduleFlush(true);
+    }
+
+    itemDone(stage: IngestionStage, item: string) {
+        if (stage === 'files') {
+            this.counters.files_processed++;
+            this.lastFilePath = item;
+        } else if (stage === 'git_history') {
+            this.counters.commits_processed++;
+            this.lastCommitHash = item;
+        }
+        this.scheduleFlush(false);
+    }
+
+    itemFailed(stage: IngestionStage, item: string, message: string) {
+        if (stage === 'files') {
+            this.counters.files_failed++;
+            // A failed file is not retried on resume; the next sync picks it up again.
+            this.lastFilePath = item;
+        } else if (stage === 'git_history') {
+            this.counters.commits_failed++;
+        }
+        if (this.errors.length < MAX_STORED_ERRORS) {
+            this.errors.push({ stage, item, message: this.scrub(message), at: new Date().toISOString() });
+        }
+        this.scheduleFlush(false);
+    }
+
+    /**
+     * Writes the current progress to the database and waits for it to land.
+     */
+    async flush() {
+        this.scheduleFlush(true);
+        await this.pendingFlush;
+    }
+
+    private scheduleFlush(force: boolean) {
+        const now = Date.now();
+        if (!force && now - this.lastFlushAt < PROGRESS_FLUSH_INTERVAL_MS) {
+            return;
+        }
+        this.lastFlushAt = now;
+        // Flushes are chained so they land in order.
+        this.pendingFlush = this.pendingFlush
+            .then(() => this.writeProgress())
+            .catch(error => console.error(`Failed to persist progress for ingestion run ${this.runId}:`, error));
+    }
+
+    private async writeProgress() {
+        const c = this.counters;
+        const client = await pool.connect();
+        try {
+            const { rows } = await client.query(
+                `UPDATE ingestion_runs SET
+                    stage = $1, files_total = $2, files_processed = $3, files_failed = $4,
+                    commits_total = $5, commits_processed = $6, commits_failed = $7,
+                    last_file_path = $8, last_commit_hash = $9, errors = $10, updated_at = NOW()
+                 WHERE id = $11 RETURNING *`,
+                [this.stage, c.files_total, c.files_processed, c.files_failed,
+                 c.commits_total, c.commits_processed, c.commits_failed,
+                 this.lastFilePath, this.lastCommitHash, JSON.stringify(this.errors), this.runId]
+            );
+            if (rows.length > 0) {
+                this.live.emitter.emit('status', rows[0]);
+            }
+        } finally {
+            client.release();
+        }
+    }
+}
+
+function getOrCreateLiveRun(runId: number): LiveRun {
+    let live = liveRuns.get(runId);
+    if (!live) {
+        const emitter = new EventEmitter();
+        // Any number of clients may attach to one run.
+        emitter.setMaxListeners(0);
+        live = { emitter, logs: [], cancelRequested: false };
+        liveRuns.set(runId, live);
+    }
+    return live;
+}
+
+async function updateRunStatus(runId: number, status: RunStatus, errorMessage: string | null = null) {
+    const isFinal = status === 'completed' || status === 'failed' || status === 'cancelled';
+    const client = await pool.connect();
+    try {
+        const { rows } = await client.query(
+            `UPDATE ingestion_runs SET
+                status = $1,
+                error_message = COALESCE($2, error_message),
+                started_at = CASE WHEN $1 = 'running' THEN COALESCE(started_at, NOW()) ELSE started_at END,
+                finished_at = CASE WHEN $3 THEN NOW() ELSE finished_at END,
+                stage = CASE WHEN $3 THEN NULL ELSE stage END,
+                updated_at = NOW()
+             WHERE id = $4 RETURNING *`,
+            [status, errorMessage, isFinal, runId]
+        );
+        return rows[0];
+    } finally {
+        client.release();
+    }
+}
+
+/**
+ * Moves a queued run to 'running'.
+ * @returns The run row, or null if the run is no longer queued (it was cancelled while waiting).
+ */
+async function claimQueuedRun(runId: number) {
+    const client = await pool.connect();
+    try {
+        const { rows } = await client.query(
+            `UPDATE ingestion_runs SET status = 'running', started_at = COALESCE(started_at, NOW()), updated_at = NOW()
+             WHERE id = $1 AND status = 'queued' RETURNING *`,
+            [runId]
+        );
+        return rows[0] || null;
+    } finally {
+        client.release();
+    }
+}
+
+/**
+ * The job executed by the ingestion queue for one run.
+ */
+async function executeRun(run: any) {
+    const runId: number = run.id;
+    const live = getOrCreateLiveRun(runId);
+    const tracker = new RunTracker(runId, live, run.last_file_path, run.errors || []);
+
+    let scrub = (message: string) => message;
+    const logger = (rawMessage: string) => {
+        const message = scrub(rawMessage);
+        live.logs.push(message);
+        if (live.logs.length > MAX_BUFFERED_LOGS) {
+            live.logs.shift();
+        }
+        live.emitter.emit('log', message);
+    };
+
+    let finalRow: any;
+    try {
+        const startedRow = await claimQueuedRun(runId);
+        if (!startedRow) {
+            // Cancelled while queued; cancelIngestionRun already finished the row.
+            logger(`[Run ${runId}] Ingestion cancelled.`);
+            live.emitter.emit('end', await getIngestionRun(run.project_id, runId));
+            return;
+        }
+        live.emitter.emit('status', startedRow);
+        if (live.cancelRequested) {
+            throw new IngestionCancelledError();
+        }
+        const project = await getProjectById(run.project_id);
+        if (!project) {
+            throw new Error(`Project with ID ${run.project_id} not found.`);
+        }
+
+        logger('Your sync request is now being processed...');
+
+        const credentials = project.source_type === 'git' ? await loadProjectCredentials(project.id) : null;
+        scrub = createCredentialScrubber(credentials);
+        tracker.scrub = scrub;
+
+        tracker.stageStarted('fetching');
+        const projectPath = await prepareProjectWorkspace(project, logger, credentials);
+        logger(`[Project ${project.id}] Ingestion running...`);
+        await runIngestion(project.id, projectPath, logger, tracker);
+
+        await tracker.flush();
+        logger(`✅ [Project ${project.id}] Ingestion complete.`);
+        finalRow = await updateRunStatus(runId, 'completed');
+    } catch (error) {
+        await tracker.flush();
+        if (error instanceof IngestionCancelledError) {
+            logger(`[Run ${runId}] Ingestion cancelled.`);
+            finalRow = await updateRunStatus(runId, 'cancelled');
+        } else {
+            const errorMessage = scrub(error instanceof Error ? error.message : String(error));
+            logger(`❌ [Run ${runId}] Ingestion failed: ${errorMessage}`);
+            console.error(`❌ [Run ${runId}] Ingestion failed: ${errorMessage}`);
+            finalRow = await updateRunStatus(runId, 'failed', errorMessage);
+        }
+    } finally {
+        liveRuns.delete(runId);
+    }
+    live.emitter.emit('end', finalRow);
+}
+
+async function enqueueRun(run: any) {
+    getOrCreateLiveRun(run.id);
+    // Sub-projects of one repository take turns on its workspace; a run whose project is gone
+    // still gets scheduled, and executeRun fails it.
+    const project = await getProjectById(run.project_id);
+    const workspace = project ? getWorkspaceKey(project) : `project:${run.project_id}`;
+    scheduleIngestion(workspace, () => executeRun(run)).catch(error => {
+        console.error(`Ingestion run ${run.id} crashed:`, error);
+    });
+}
+
+/**
+ * Creates a run for the project and queues it for execution.
+ * If the project already has a run waiting in the queue, the request is merged into it,
+ * since that run will pick up everything this one would have.
+ * @returns The queued run row, and whether it was an existing run.
+ */
+export async function startIngestionRun(projectId: number): Promise<{ run: any; merged: boolean }> {
+    for (let attempt = 0; attempt < MAX_START_ATTEMPTS; attempt++) {
+        const client = await pool.connect();
+        try {
+            // The partial unique index on queued runs makes this race-free.
+            const { rows } = await client.query(
+                `INSERT INTO ingestion_runs (project_id) VALUES ($1)
+                 ON CONFLICT (project_id) WHERE status = 'queued' DO NOTHING
+                 RETURNING *`,
+                [projectId]
+            );
+            if (rows.length > 0) {
+                await enqueueRun(rows[0]);
+                return { run: rows[0], merged: false };
+            }
+
+            const { rows: queuedRuns } = await client.query(
+                `SELECT * FROM ingestion_runs WHERE project_id = $1 AND status = 'queued'`,
+                [projectId]
+            );
+            if (queuedRuns.length > 0) {
+                return { run: queuedRuns[0], merged: true };
+            }
+        } finally {
+            client.release();
+        }
+        // The queued run started between the two statements; try again.
+    }
+    throw new Error(`Could not queue an ingestion run for project ${projectId}: the queued run kept changing.`);
+}
+
+/**
+ * Dry run: updates the project's workspace and estimates what a sync would process and cost,
+ * without calling any model or writing to the index. It runs outside the workspace's queue, so it
+ * answers right away even while an ingestion runs. A pull would change the tree under that
+ * ingestion, so a busy workspace is estimated as last fetched (or, if it was never cloned,
+ * the dry run waits its turn).
+ * @returns The estimate, or null if the project doesn't exist.
+ */
+export async function estimateIngestionRun(projectId: number): Promise<IngestionEstimate | null> {
+    const project = await getProjectById(projectId);
+    if (!project) {
+        return null;
+    }
+    const credentials = project.source_type === 'git' ? await loadProjectCredentials(project.id) : null;
+    const scrub = createCredentialScrubber(credentials);
+    const logger = (message: string) => console.log(`[Estimate ${projectId}] ${scrub(message)}`);
+
+    try {
+        const workspace = getWorkspaceKey(project);
+        if (project.source_type === 'git' && isWorkspaceBusy(workspace)) {
+            const checkout = await findExistingClone(project.source);
+            if (checkout) {
+                logger('An ingestion is using the workspace; estimating against the last fetched revision.');
+                return await estimateIngestion(projectId, checkout, logger);
+            }
+            return await scheduleIngestion(workspace, async () => {
+                const projectPath = await prepareProjectWorkspace(project, logger, credentials);
+                return estimateIngestion(projectId, projectPath, logger);
+            });
+        }
+        const projectPath = await prepareProjectWorkspace(project, logger, credentials);
+        return await estimateIngestion(projectId, projectPath, logger);
+    } catch (error) {
+        throw new Error(scrub(error instanceof Error ? error.message : String(error)));
+    }
+}
+
+export async function listIngestionRuns(projectId: number, limit = 20) {
+    const client = await pool.connect();
+    try {
+        const { rows } = await client.query(
+            `SELECT id, project_id, status, stage, files_total, files_processed, files_failed,
+                    commits_total, commits_processed, commits_failed, error_message, resume_count,
+                    created_at, started_at, finished_at, updated_at
+             FROM ingestion_runs WHERE project_id = $1 ORDER BY created_at DESC LIMIT $2`,
+            [projectId, limit]
+        );
+        return rows;
+    } finally {
+        client.release();
+    }
+}
+
+export async function getIngestionRun(projectId: number, runId: number) {
+    const client = await pool.connect();
+    try {
+        const { rows } = await client.query(
+            'SELECT * FROM ingestion_runs WHERE id = $1 AND project_id = $2',
+            [runId, projectId]
+        );
+        if (rows.length === 0) {
+            throw new IngestionRunNotFoundError(runId);
+        }
+        return rows[0];
+    } finally {
+        client.release();
+    }
+}
+
+/**
+ * Requests cancellation of a run. A queued run is cancelled at once, so later sync requests
+ * queue a new run instead of merging into it; a running one stops at the next file or commit boundary.
+ * @returns The run row, which stays 'running' until the job has actually stopped.
+ */
+export async function cancelIngestionRun(projectId: number, runId: number) {
+    const run = await getIngestionRun(projectId, runId);
+    if (run.status !== 'queued' && run.status !== 'running') {
+        return run;
+    }
+
+    const live = liveRuns.get(runId);
+    if (live) {
+        live.cancelRequested = true;
+        if (run.status === 'queued') {
+            const cancelled = await cancelQueuedRun(runId);
+            // Null if the job claimed the run in the meantime; it then stops at the next boundary.
+            return cancelled || getIngestionRun(projectId, runId);
+        }
+        return run;
+    }
+    // No job in this process owns the run (e.g. it was orphaned), so finish it directly.
+    return updateRunStatus(runId, 'cancelled');
+}
+
+async function cancelQueuedRun(runId: number) {
+    const client = await pool.connect();
+    try {
+        const { rows } = await client.query(
+            `UPDATE ingestion_runs SET status = 'cancelled', finished_at = NOW(), updated_at = NOW()
+             WHERE id = $1 AND status = 'queued' RETURNING *`,
+            [runId]
+        );
+        return rows[0] || null;
+    } finally {
+        client.release();
+    }
+}
+
+export interface RunSubscriber {
+    onLog(message: string): void;
+    onStatus(run: any): void;
+    onEnd(run: any): void;
+}
+
+/**
+ * Attaches a subscriber to a run. Buffered log lines are replayed first.
+ * If the run is not active in this process, the subscriber receives its final state at once.
+ * @returns A function that detaches the subscriber.
+ */
+export async function subscribeToIngestionRun(projectId: number, runId: number, subscriber: RunSubscriber): Promise<() => void> {
+    const run = await getIngestionRun(projectId, runId);
+    const live = liveRuns.get(runId);
+
+    subscriber.onStatus(run);
+    if (!live) {
+        subscriber.onEnd(run);
+        return () => {};
+    }
+
+    live.logs.forEach(message => subscriber.onLog(message));
+    const onLog = (message: string) => subscriber.onLog(message);
+    const onStatus = (row: any) => subscriber.onStatus(row);
+    const onEnd = (row: any) => subscriber.onEnd(row);
+    live.emitter.on('log', onLog);
+    live.emitter.on('status', onStatus);
+    live.emitter.on('end', onEnd);
+
+    return () => {
+        live.emitter.off('log', onLog);
+        live.emitter.off('status', onStatus);
+        live.emitter.off('end', onEnd);
+    };
+}
+
+/**
+ * Re-queues runs that were queued or running when the server last stopped.
+ * They resume after the last file they completed; commits already stored are skipped anyway.
+ */
+export async function resumeInterruptedRuns() {
+    const client = await pool.connect();
+    try {
+        // An interrupted run covers a queued run of the same project, so merge the queued one into it.
+        await client.query(
+            `UPDATE ingestion_runs queued SET status = 'cancelled', finished_at = NOW(), updated_at = NOW(),
+                error_message = 'Merged into an interrupted run of the same project.'
+             WHERE queued.status = 'queued' AND EXISTS (
+                SELECT 1 FROM ingestion_runs interrupted
+                WHERE interrupted.project_id = queued.project_id AND interrupted.status = 'running'
+             )`
+        );
+        const { rows } = await client.query(
+            `UPDATE ingestion_runs SET status = 'queued', resume_count = resume_count + 1, updated_at = NOW()
+             WHERE status IN ('queued', 'running')
+             RETURNING *`
+        );
+        rows.sort((a, b) => a.id - b.id);
+        for (const run of rows) {
+            console.log(`Resuming interrupted ingestion run ${run.id} for project ${run.project_id}...`);
+            await enqueueRun(run);
+        }
+        return rows.length;
+    } finally {
+        client.release();
+    }
+}
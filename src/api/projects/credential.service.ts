@@ -0,0 +1,122 @@
+// --- FILE: api/projects/credential.service.ts ---
+import pool from '../../services/db';
+import { GitCredentials } from '../../services/git';
+import { encryptSecret, decryptSecret } from '../../services/encryption';
+
+const DEFAULT_TOKEN_USERNAME = 'x-access-token';
+
+export class InvalidCredentialsError extends Error {
+    constructor(message: string) {
+        super(message);
+        this.name = 'InvalidCredentialsError';
+    }
+}
+
+// What the API returns about stored credentials: never the secret itself.
+const CREDENTIAL_SUMMARY_COLUMNS = 'kind, username, known_hosts, created_at, updated_at';
+
+/**
+ * Validates a credential payload from the API and turns it into GitCredentials.
+ * @throws {InvalidCredentialsError} if required fields are missing or malformed.
+ */
+export function parseCredentialInput(body: any): GitCredentials {
+    if (body?.type === 'https_token') {
+        if (typeof body.token !== 'string' || !body.token.trim()) {
+            throw new InvalidCredentialsError('An https_token credential requires a "token".');
+        }
+        const username = typeof body.username === 'string' && body.username.trim() ? body.username.trim() : DEFAULT_TOKEN_USERNAME;
+        return { kind: 'https_token', username, token: body.token.trim() };
+    }
+    if (body?.type === 'ssh_key') {
+        if (typeof body.privateKey !== 'string' || !/-----BEGIN [A-Z ]*PRIVATE KEY-----/.test(body.privateKey)) {
+            throw new InvalidCredentialsError('An ssh_key credential requires a PEM/OpenSSH "privateKey".');
+        }
+        // Host keys must be pinned: "<host> <key-type> <base64 key>" per line, as in ~/.ssh/known_hosts.
+        const knownHostLines = typeof body.knownHosts === 'string'
+            ? body.knownHosts.split('\n').map((line: string) => line.trim()).filter((line: string) => line && !line.startsWith('#'))
+            : [];
+        if (knownHostLines.length === 0 || knownHostLines.some((line: string) => line.split(/\s+/).length < 3)) {
+            throw new InvalidCredentialsError('An ssh_key credential requires "knownHosts" entries pinning the server host key.');
+        }
+        return { kind: 'ssh_key', privateKey: body.privateKey, knownHosts: knownHostLines.join('\n') };
+    }
+    throw new InvalidCredentialsError('type must be "https_token" or "ssh_key".');
+}
+
+/**
+ * Stores (or replaces) a project's credentials, encrypting the secret part.
+ * @returns A summary without the secret, or null if the project doesn't exist.
+ */
+export async function setProjectCredentials(projectId: number, credentials: GitCredentials) {
+    const secret = credentials.kind === 'https_token' ? credentials.token : credentials.privateKey;
+    const encrypted = encryptSecret(secret);
+    const username = credentials.kind === 'https_token' ? credentials.username : null;
+    const knownHosts = credentials.kind === 'ssh_key' ? credentials.knownHosts : null;
+
+    const client = await pool.connect();
+    try {
+        const project = await client.query('SELECT id FROM projects WHERE id = $1', [projectId]);
+        if (project.rows.length === 0) {
+            return null;
+        }
+        const { rows } = await client.query(
+            `INSERT INTO project_credentials (project_id, kind, username, known_hosts, encrypted_secret)
+             VALUES ($1, $2, $3, $4, $5)
+             ON CONFLICT (project_id) DO UPDATE SET
+                kind = EXCLUDED.kind, username = EXCLUDED.username, known_hosts = EXCLUDED.known_hosts,
+                encrypted_secret = EXCLUDED.encrypted_secret, updated_at = NOW()
+             RETURNING ${CREDENTIAL_SUMMARY_COLUMNS}`,
+            [projectId, credentials.kind, username, knownHosts, encrypted]
+        );
+        return rows[0];
+    } finally {
+        client.release();
+    }
+}
+
+export async function getProjectCredentialSummary(projectId: number) {
+    const client = await pool.connect();
+    try {
+        const { rows } = await client.query(
+            `SELECT ${CREDENTIAL_SUMMARY_COLUMNS} FROM project_credentials WHERE project_id = $1`,
+            [projectId]
+        );
+        return rows[0] || null;
+    } finally {
+        client.release();
+    }
+}
+
+export async function removeProjectCredentials(projectId: number): Promise<void> {
+    const client = await pool.connect();
+    try {
+        await client.query('DELETE FROM project_credentials WHERE project_id = $1', [projectId]);
+    } finally {
+        client.release();
+    }
+}
+
+/**
+ * Loads and decrypts a project's credentials for a git operation.
+ * @returns The credentials, or null if the project has none.
+ */
+export async function loadProjectCredentials(projectId: number): Promise<GitCredentials | null> {
+    const client = await pool.connect();
+    let row: any;
+    try {
+        const { rows } = await client.query(
+            'SELECT kind, username, known_hosts, encrypted_secret FROM project_credentials WHERE project_id = $1',
+            [projectId]
+        );
+        row = rows[0];
+    } finally {
+        client.release();
+    }
+    if (!row) {
+        return null;
+    }
+    const secret = decryptSecret(row.encrypted_secret);
+    return row.kind === 'https_token'
+        ? { kind: 'https_token', username: row.username, token: secret }
+        : { kind: 'ssh_key', privateKey: secret, knownHosts: row.known_hosts };
+}
@@ -0,0 +1,66 @@
+// --- FILE: api/projects/expert.service.ts ---
+import { ClientBase } from 'pg';
+import pool from '../../services/db';
+import pgvector from 'pgvector/pg';
+import { getCachedEmbedding } from '../../services/embeddingCache';
+import { DEFAULT_REF } from '../../services/git';
+import { Expert, OwnershipMatch, rankExperts } from '../../core/ownership';
+
+// How many of the best-matching chunks are considered when ranking experts.
+const EXPERT_CHUNK_LIMIT = 20;
+
+interface MatchedChunk {
+    id: number;
+    path: string;
+    relevance: number;
+}
+
+/**
+ * Ranks the authors of the given chunks (see rankExperts).
+ */
+export async function rankChunkOwners(client: ClientBase, chunks: MatchedChunk[], limit: number): Promise<Expert[]> {
+    if (chunks.length === 0) {
+        return [];
+    }
+    const { rows } = await client.query(
+        'SELECT chunk_id, author_name, author_email, line_count, share, last_touched_at FROM chunk_authors WHERE chunk_id = ANY($1::int[])',
+        [chunks.map(c => c.id)]
+    );
+    const matches: OwnershipMatch[] = rows.map(row => {
+        const chunk = chunks.find(c => c.id === row.chunk_id)!;
+        return {
+            path: chunk.path,
+            relevance: chunk.relevance,
+            authorName: row.author_name,
+            authorEmail: row.author_email,
+            lineCount: row.line_count,
+            share: row.share,
+            lastTouchedAt: new Date(row.last_touched_at),
+        };
+    });
+    return rankExperts(matches, limit);
+}
+
+/**
+ * Finds the people who know the code matching a query best: the authors of the closest
+ * chunks on the default branch, ranked by ownership weighted by recency.
+ */
+export async function findExperts(projectId: number, query: string, limit: number = 5) {
+    const queryEmbedding = await getCachedEmbedding(query);
+    const client = await pool.connect();
+    try {
+        const { rows: chunks } = await client.query(
+            `SELECT c.id, f.path, GREATEST(0, 1 - (c.embedding <=> $2)) AS relevance
+             FROM code_chunks c
+             JOIN indexed_files f ON f.id = c.file_id
+             WHERE f.project_id = $1 AND f.ref = $3
+             ORDER BY c.embedding <=> $2
+             LIMIT $4`,
+            [projectId, pgvector.toSql(queryEmbedding), DEFAULT_REF, EXPERT_CHUNK_LIMIT]
+        );
+        const experts = await rankChunkOwners(client, chunks, limit);
+        return { query, experts };
+    } finally {
+        client.release();
+    }
+}
@@ -0,0 +1,100 @@
+// --- FILE: api/projects/history.service.ts ---
+import { ClientBase } from 'pg';
+import { DEFAULT_REF } from '../../services/git';
+
+export class InvalidAsOfError extends Error {
+    constructor(message: string) {
+        super(message);
+        this.name = 'InvalidAsOfError';
+    }
+}
+
+export class HistoryNotKeptError extends Error {
+    constructor(message: string) {
+        super(message);
+        this.name = 'HistoryNotKeptError';
+    }
+}
+
+export interface ChunkMatch {
+    path: string;
+    chunk_name: string | null;
+    content: string;
+}
+
+/**
+ * Resolves an `at` parameter (a commit hash or prefix, or a date) to the point in time
+ * whose code should be used.
+ * @throws {InvalidAsOfError} if `at` is neither a known commit nor a date, or is combined with another ref.
+ * @throws {HistoryNotKeptError} if the project doesn't keep history, not that far back, or not
+ *   for that point: history is recorded at each ingestion, so the code between two ingestions is
+ *   only known where no commit landed between the earlier one and `at`.
+ */
+export async function resolveAsOf(client: ClientBase, projectId: number, at: string, ref: string = DEFAULT_REF): Promise<Date> {
+    if (ref !== DEFAULT_REF) {
+        throw new InvalidAsOfError('"at" only applies to the default branch and cannot be combined with "ref".');
+    }
+
+    let asOf: Date;
+    if (/^[0-9a-f]{4,40}$/i.test(at)) {
+        const { rows } = await client.query(
+            'SELECT commit_hash, commit_date FROM commits WHERE project_id = $1 AND commit_hash LIKE $2 LIMIT 2',
+            [projectId, `${at.toLowerCase()}%`]
+        );
+        if (rows.length === 0) {
+            throw new InvalidAsOfError(`Commit "${at}" is not part of this project's history.`);
+        }
+        if (rows.length > 1) {
+            throw new InvalidAsOfError(`Commit prefix "${at}" is ambiguous.`);
+        }
+        asOf = new Date(rows[0].commit_date);
+    } else {
+        asOf = new Date(at);
+        if (isNaN(asOf.getTime())) {
+            throw new InvalidAsOfError('"at" must be a commit hash or an ISO date.');
+        }
+    }
+
+    const { rows } = await client.query('SELECT keep_history, history_since FROM projects WHERE id = $1', [projectId]);
+    if (!rows[0]?.keep_history || !rows[0].history_since) {
+        throw new HistoryNotKeptError('This project does not keep code history. Enable keepHistory in its index settings and run an ingestion.');
+    }
+    if (asOf < new Date(rows[0].history_since)) {
+        throw new HistoryNotKeptError(`Code history for this project starts at ${new Date(rows[0].history_since).toISOString()}.`);
+    }
+
+    const { rows: [gap] } = await client.query(
+        `SELECT
+            (SELECT MAX(commit_date) FROM history_snapshots WHERE project_id = $1 AND commit_date <= $2) AS previous,
+            (SELECT MIN(commit_date) FROM history_snapshots WHERE project_id = $1 AND commit_date > $2) AS next,
+            (SELECT MAX(c.commit_date) FROM commits c
+             JOIN commit_refs r ON r.commit_id = c.id AND r.ref = $3
+             WHERE c.project_id = $1 AND c.commit_date <= $2) AS last_commit`,
+        [projectId, asOf, DEFAULT_REF]
+    );
+    if (gap.next && gap.last_commit && (!gap.previous || new Date(gap.last_commit) > new Date(gap.previous))) {
+        const previous = gap.previous ? new Date(gap.previous).toISOString() : new Date(rows[0].history_since).toISOString();
+        throw new HistoryNotKeptError(
+            `"${at}" falls between two ingestions (${previous} and ${new Date(gap.next).toISOString()}), and the code in between was not recorded. ` +
+            'Use a commit or date at one of those points or after the last ingestion.'
+        );
+    }
+    return asOf;
+}
+
+/**
+ * Finds the chunks closest to an embedding among the code as it was at `asOf`.
+ * @param embedding The query embedding, already in SQL form.
+ */
+export async function searchChunksAsOf(client: ClientBase, projectId: number, embedding: string, asOf: Date, limit: number): Promise<ChunkMatch[]> {
+    const { rows } = await client.query(
+        `SELECT v.path, v.chunk_name, cc.content
+         FROM chunk_versions v
+         JOIN chunk_contents cc ON cc.id = v.content_id
+         WHERE v.project_id = $1 AND v.valid_from_at <= $3 AND (v.valid_to_at IS NULL OR v.valid_to_at > $3)
+         ORDER BY cc.embedding <=> $2
+         LIMIT $4`,
+        [projectId, embedding, asOf, limit]
+    );
+    return rows;
+}
@@ -1,9 +1,25 @@
 // src/api/projects/project.controller.ts
 import { Request, Response, NextFunction } from 'express';
+import { promises as fs } from 'fs';
 import * as projectService from './project.service';
 import * as qaService from './qa.service';
-import ingestionQueue from '../../services/queue.service';
+import * as ingestionService from '../ingestion/ingestion.service';
+import { streamRunEvents } from '../ingestion/ingestion.controller';
+import * as webhookService from '../webhooks/webhook.service';
+import * as credentialService from './credential.service';
+import * as expertService from './expert.service';
+import * as symbolService from './symbol.service';
+import { setSyncSchedule, InvalidScheduleError } from '../ingestion/ingestion.scheduler';
 import { UnsupportedFileTypeError } from '../../core/documentExtractor';
+import { parseIndexSettings, indexSettingsFromRow, InvalidIndexSettingsError } from '../../core/indexSettings';
+import {
+    PROJECT_SOURCE_TYPES,
+    ProjectSourceType,
+    InvalidProjectSourceError,
+    inferSourceType,
+    resolveLocalSource,
+    extractArchiveSource,
+} from '../../services/projectSources';
 
 
 export async function listProjects(req: Request, res: Response, next: NextFunction) {
@@ -15,82 +31,69 @@ export async function listProjects(req: Request, res: Response, next: NextFuncti
     }
 }
 
+// MODIFIED: Accepts a git URL, a local path on the server, or an uploaded archive (multipart field "archive"),
+// plus optional index settings (rootDir, include, exclude, maxFileSizeBytes).
 export async function addProject(req: Request, res: Response, next: NextFunction) {
     try {
-        const { source } = req.body;
-        if (!source) {
-            return res.status(400).json({ error: 'A "source" Git URL is required.' });
+        const settings = parseIndexSettings(req.body);
+        let result;
+        if (req.file) {
+            const { source, name } = await extractArchiveSource(req.file.path, req.file.originalname);
+            result = await projectService.createProject(source, 'archive', name, settings);
+        } else {
+            const { source, type } = req.body || {};
+            if (!source) {
+                return res.status(400).json({ error: 'A "source" (Git URL or local path) or an "archive" upload is required.' });
+            }
+            const sourceType: ProjectSourceType = type || inferSourceType(source);
+            if (sourceType === 'archive' || !PROJECT_SOURCE_TYPES.includes(sourceType)) {
+                return res.status(400).json({ error: 'type must be "git" or "local"; upload archives as the "archive" file field.' });
+            }
+            const normalizedSource = sourceType === 'local' ? await resolveLocalSource(source) : source;
+            result = await projectService.createProject(normalizedSource, sourceType, undefined, settings);
         }
-        
-        const { project, created } = await projectService.createProject(source);
+
+        const { project, created } = result;
 
         if (!created) {
             return res.status(200).json({ message: 'Project already exists.', project });
         }
         
         // Respond immediately and start ingestion in the background
-        res.status(202).json({ message: 'Project created. Ingestion will start in the background.', project });
-        projectService.startProjectIngestionInBackground(project.id, project.source);
+        const { run } = await ingestionService.startIngestionRun(project.id);
+        res.status(202).json({ message: 'Project created. Ingestion will start in the background.', project, run });
 
     } catch (error) {
+        if (error instanceof InvalidProjectSourceError || error instanceof InvalidIndexSettingsError) {
+            return res.status(400).json({ error: error.message });
+        }
         next(error);
+    } finally {
+        // extractArchiveSource consumes the upload; if we bailed out before it, nothing else would.
+        if (req.file) {
+            await fs.rm(req.file.path, { force: true }).catch(() => undefined);
+        }
     }
 }
 
 // REMOVED old syncProject, which is replaced by streamIngestionLogs
 
-// NEW: Controller for streaming ingestion logs
+// NEW: Controller for streaming ingestion logs.
+// MODIFIED: Starts a persistent ingestion run and attaches this client to it.
 export async function streamIngestionLogs(req: Request, res: Response, next: NextFunction) {
-    const projectId = parseInt(req.params.projectId, 10);
-    
-    res.setHeader('Content-Type', 'text/event-stream');
-    res.setHeader('Cache-Control', 'no-cache');
-    res.setHeader('Connection', 'keep-alive');
-    res.flushHeaders();
-
-    const logger = (message: string) => {
-        if (!res.writableEnded) {
-            res.write(`data: ${JSON.stringify({ log: message })}\n\n`);
-        }
-    };
-
-    req.on('close', () => {
-        console.log(`Client disconnected from ingestion stream for project ${projectId}.`);
-        res.end();
-    });
-
-    // MODIFIED: Wrap the entire ingestion logic in the queue
-    ingestionQueue.add(async () => {
-        try {
-            const project = await projectService.getProjectById(projectId);
-            if (!project) {
-                logger(`Error: Project with ID ${projectId} not found.`);
-                return; // Return from the job, not the outer function
-            }
-            
-            logger('Your sync request is now being processed...');
-            await projectService.startProjectIngestion(projectId, project.source, logger);
-            
-            logger('Ingestion complete.');
-            res.write('event: end\ndata: {"message": "Ingestion complete"}\n\n');
-
-        } catch (error) {
-            const errorMessage = error instanceof Error ? error.message : String(error);
-            logger(`FATAL ERROR: ${errorMessage}`);
-            console.error("Error during ingestion stream:", error);
-            res.write(`event: error\ndata: {"message": "${errorMessage}"}\n\n`);
-        } finally {
-            if (!res.writableEnded) {
-                res.end();
-            }
-        }
-    }).catch((err:any) => {
-        // This catch is for errors adding the job to the queue itself, which is rare.
-        console.error("Failed to add ingestion job to queue:", err);
-        if (!res.writableEnded) {
-            res.status(500).send("Failed to queue the ingestion job.");
+    try {
+        const projectId = parseInt(req.params.projectId, 10);
+        const project = await projectService.getProjectById(projectId);
+        if (!project) {
+            return res.status(404).json({ error: `Project with ID ${projectId} not found.` });
         }
-    });
+
+        // A duplicate request attaches to the run that is already queued.
+        const { run } = await ingestionService.startIngestionRun(projectId);
+        await streamRunEvents(req, res, projectId, run.id);
+    } catch (error) {
+        next(error);
+    }
 }
 
 
@@ -146,12 +149,253 @@ export async function deleteDocument(req: Request, res: Response, next: NextFunc
 
 
 // NEW: Controller for project stats
+// MODIFIED: Accepts ?ref= to report on a tracked branch or tag
 export async function getProjectStats(req: Request, res: Response, next: NextFunction) {
     try {
         const projectId = parseInt(req.params.projectId, 10);
-        const stats = await projectService.getProjectStats(projectId);
+        const stats = await projectService.getProjectStats(projectId, projectService.parseRefParam(req.query.ref));
         res.json(stats);
     } catch (error) {
+        if (error instanceof projectService.UnknownRefError) {
+            return res.status(404).json({ error: error.message });
+        }
+        next(error);
+    }
+}
+
+// NEW: Controller to generate or rotate a project's webhook secret
+export async function rotateWebhookSecret(req: Request, res: Response, next: NextFunction) {
+    try {
+        const projectId = parseInt(req.params.projectId, 10);
+        const secret = await webhookService.rotateWebhookSecret(projectId);
+        if (!secret) {
+            return res.status(404).json({ error: `Project with ID ${projectId} not found.` });
+        }
+        res.status(201).json({
+            message: 'Webhook secret generated. Store it now; it will not be shown again.',
+            secret,
+            url: `${req.protocol}://${req.get('host')}/api/webhooks/git`,
+        });
+    } catch (error) {
+        next(error);
+    }
+}
+
+// NEW: Controller to disable webhooks for a project
+export async function removeWebhookSecret(req: Request, res: Response, next: NextFunction) {
+    try {
+        const projectId = parseInt(req.params.projectId, 10);
+        await webhookService.removeWebhookSecret(projectId);
+        res.status(204).send();
+    } catch (error) {
+        next(error);
+    }
+}
+// NEW: Controller to set (or clear, with a null schedule) a project's periodic re-sync schedule
+export async function updateSyncSchedule(req: Request, res: Response, next: NextFunction) {
+    try {
+        const projectId = parseInt(req.params.projectId, 10);
+        const { schedule } = req.body || {};
+        if (schedule !== null && (typeof schedule !== 'string' || !schedule.trim())) {
+            return res.status(400).json({ error: 'A "schedule" is required: a cron expression (e.g. "0 * * * *") or null.' });
+        }
+        const result = await setSyncSchedule(projectId, schedule ? schedule.trim() : null);
+        if (!result) {
+            return res.status(404).json({ error: `Project with ID ${projectId} not found.` });
+        }
+        res.json(result);
+    } catch (error) {
+        if (error instanceof InvalidScheduleError) {
+            return res.status(400).json({ error: error.message });
+        }
+        next(error);
+    }
+}
+
+// NEW: Controller to set or rotate the credentials used to clone a private repository
+export async function setCredentials(req: Request, res: Response, next: NextFunction) {
+    try {
+        const projectId = parseInt(req.params.projectId, 10);
+        const project = await projectService.getProjectById(projectId);
+        if (!project) {
+            return res.status(404).json({ error: `Project with ID ${projectId} not found.` });
+        }
+        if (project.source_type !== 'git') {
+            return res.status(400).json({ error: 'Credentials can only be set for git projects.' });
+        }
+        const credentials = credentialService.parseCredentialInput(req.body);
+        const summary = await credentialService.setProjectCredentials(projectId, credentials);
+        res.json(summary);
+    } catch (error) {
+        if (error instanceof credentialService.InvalidCredentialsError) {
+            return res.status(400).json({ error: error.message });
+        }
+        next(error);
+    }
+}
+
+// NEW: Controller to show which credentials a project uses (never the secret itself)
+export async function getCredentials(req: Request, res: Response, next: NextFunction) {
+    try {
+        const projectId = parseInt(req.params.projectId, 10);
+        const summary = await credentialService.getProjectCredentialSummary(projectId);
+        if (!summary) {
+            return res.status(404).json({ error: `Project with ID ${projectId} has no stored credentials.` });
+        }
+        res.json(summary);
+    } catch (error) {
+        next(error);
+    }
+}
+
+// NEW: Controller to remove a project's stored credentials
+export async function removeCredentials(req: Request, res: Response, next: NextFunction) {
+    try {
+        const projectId = parseInt(req.params.projectId, 10);
+        await credentialService.removeProjectCredentials(projectId);
+        res.status(204).send();
+    } catch (error) {
+        next(error);
+    }
+}
+
+// NEW: Controller to change which files a project indexes (root directory, globs, size limit)
+export async function updateIndexSettings(req: Request, res: Response, next: NextFunction) {
+    try {
+        const projectId = parseInt(req.params.projectId, 10);
+        const current = await projectService.getProjectById(projectId);
+        if (!current) {
+            return res.status(404).json({ error: `Project with ID ${projectId} not found.` });
+        }
+        // Fields left out keep their stored value, so an unrelated change can't turn off history.
+        const settings = parseIndexSettings(req.body, indexSettingsFromRow(current));
+        const project = await projectService.updateIndexSettings(projectId, settings);
+        if (!project) {
+            return res.status(404).json({ error: `Project with ID ${projectId} not found.` });
+        }
+        res.json(project);
+    } catch (error) {
+        if (error instanceof InvalidIndexSettingsError) {
+            return res.status(400).json({ error: error.message });
+        }
+        if (error instanceof projectService.IndexRootConflictError) {
+            return res.status(409).json({ error: error.message });
+        }
         next(error);
     }
-}
\ No newline at end of file
+}
+
+// NEW: Controller for a file's commit history, following renames
+export async function getFileHistory(req: Request, res: Response, next: NextFunction) {
+    try {
+        const projectId = parseInt(req.params.projectId, 10);
+        const filePath = req.query.path;
+        if (typeof filePath !== 'string' || !filePath) {
+            return res.status(400).json({ error: 'A "path" query parameter is required.' });
+        }
+        const history = await projectService.getFileHistory(projectId, filePath);
+        res.json(history);
+    } catch (error) {
+        next(error);
+    }
+}
+
+// NEW: Controller to find who knows the code matching a query (?q=...&limit=5)
+export async function getExperts(req: Request, res: Response, next: NextFunction) {
+    try {
+        const projectId = parseInt(req.params.projectId, 10);
+        const query = req.query.q;
+        if (typeof query !== 'string' || !query.trim()) {
+            return res.status(400).json({ error: 'A "q" query parameter is required.' });
+        }
+        const limit = req.query.limit === undefined ? 5 : parseInt(String(req.query.limit), 10);
+        if (!Number.isInteger(limit) || limit < 1 || limit > 50) {
+            return res.status(400).json({ error: '"limit" must be an integer between 1 and 50.' });
+        }
+        const result = await expertService.findExperts(projectId, query.trim(), limit);
+        res.json(result);
+    } catch (error) {
+        next(error);
+    }
+}
+
+// NEW: Controller for go-to-definition (?name=runIngestion&from=src/brain.ts&ref=)
+export async function getSymbolDefinitions(req: Request, res: Response, next: NextFunction) {
+    try {
+        const projectId = parseInt(req.params.projectId, 10);
+        const { name, from } = req.query;
+        if (typeof name !== 'string' || !name) {
+            return res.status(400).json({ error: 'A "name" query parameter is required.' });
+        }
+        const definitions = await symbolService.findDefinitions(
+            projectId,
+            name,
+            projectService.parseRefParam(req.query.ref),
+            typeof from === 'string' && from ? from : null
+        );
+        res.json(definitions);
+    } catch (error) {
+        if (error instanceof projectService.UnknownRefError) {
+            return res.status(404).json({ error: error.message });
+        }
+        next(error);
+    }
+}
+
+// NEW: Controller for find-references (?name=runIngestion&ref=)
+export async function getSymbolReferences(req: Request, res: Response, next: NextFunction) {
+    try {
+        const projectId = parseInt(req.params.projectId, 10);
+        const name = req.query.name;
+        if (typeof name !== 'string' || !name) {
+            return res.status(400).json({ error: 'A "name" query parameter is required.' });
+        }
+        const references = await symbolService.findReferences(projectId, name, projectService.parseRefParam(req.query.ref));
+        res.json(references);
+    } catch (error) {
+        if (error instanceof projectService.UnknownRefError) {
+            return res.status(404).json({ error: error.message });
+        }
+        next(error);
+    }
+}
+
+// NEW: Controller for "who imports this module" (?path=src/services/db.ts or ?module=express)
+export async function getFileImporters(req: Request, res: Response, next: NextFunction) {
+    try {
+        const projectId = parseInt(req.params.projectId, 10);
+        const { path: filePath, module } = req.query;
+        if ((typeof filePath !== 'string' || !filePath) && (typeof module !== 'string' || !module)) {
+            return res.status(400).json({ error: 'A "path" or "module" query parameter is required.' });
+        }
+        const importers = await symbolService.findImporters(
+            projectId,
+            typeof filePath === 'string' && filePath ? { path: filePath } : { module: module as string },
+            projectService.parseRefParam(req.query.ref)
+        );
+        res.json(importers);
+    } catch (error) {
+        if (error instanceof projectService.UnknownRefError) {
+            return res.status(404).json({ error: error.message });
+        }
+        next(error);
+    }
+}
+
+// NEW: Controller for a file's dependency fan-in/out (?path=src/services/db.ts&ref=)
+export async function getFileDependencies(req: Request, res: Response, next: NextFunction) {
+    try {
+        const projectId = parseInt(req.params.projectId, 10);
+        const filePath = req.query.path;
+        if (typeof filePath !== 'string' || !filePath) {
+            return res.status(400).json({ error: 'A "path" query parameter is required.' });
+        }
+        const dependencies = await symbolService.getFileDependencies(projectId, filePath, projectService.parseRefParam(req.query.ref));
+        res.json(dependencies);
+    } catch (error) {
+        if (error instanceof projectService.UnknownRefError || error instanceof symbolService.FileNotIndexedError) {
+            return res.status(404).json({ error: error.message });
+        }
+        next(error);
+    }
+}
@@ -3,13 +3,15 @@ import { Router } from 'express';
 import * as projectController from './project.controller';
 import taskRoutes from '../tasks/task.routes';
 import conversationRoutes from '../conversations/conversation.routes'; // <-- IMPORT NEW ROUTES
+import ingestionRoutes from '../ingestion/ingestion.routes';
 import multer from 'multer';
 
 const router = Router();
 const upload = multer({ dest: 'uploads/' });
 
 router.get('/', projectController.listProjects);
-router.post('/', projectController.addProject);
+// MODIFIED: Also accepts multipart uploads with an "archive" file (.zip/.tar.gz)
+router.post('/', upload.single('archive'), projectController.addProject);
 
 // MODIFIED: This is now a GET request to establish an SSE connection for logs
 router.get('/:projectId/sync-stream', projectController.streamIngestionLogs);
@@ -17,6 +19,33 @@ router.get('/:projectId/sync-stream', projectController.streamIngestionLogs);
 // NEW: Route to get project statistics
 router.get('/:projectId/stats', projectController.getProjectStats);
 
+// NEW: Route to get a file's commit history across renames (?path=src/app.ts)
+router.get('/:projectId/files/history', projectController.getFileHistory);
+
+// NEW: Routes over the symbol and import graph (all accept ?ref=)
+router.get('/:projectId/symbols/definitions', projectController.getSymbolDefinitions);
+router.get('/:projectId/symbols/references', projectController.getSymbolReferences);
+router.get('/:projectId/files/importers', projectController.getFileImporters);
+router.get('/:projectId/files/dependencies', projectController.getFileDependencies);
+
+// NEW: Route to rank the people who know the code matching a query (?q=...)
+router.get('/:projectId/experts', projectController.getExperts);
+
+// NEW: Routes to manage the secret used to verify git push webhooks
+router.post('/:projectId/webhook-secret', projectController.rotateWebhookSecret);
+router.delete('/:projectId/webhook-secret', projectController.removeWebhookSecret);
+
+// NEW: Routes to manage encrypted credentials for private repositories
+router.get('/:projectId/credentials', projectController.getCredentials);
+router.put('/:projectId/credentials', projectController.setCredentials);
+router.delete('/:projectId/credentials', projectController.removeCredentials);
+
+// NEW: Route to change a project's index settings (root directory, include/exclude globs, max file size)
+router.put('/:projectId/index-settings', projectController.updateIndexSettings);
+
+// NEW: Route to set or clear the cron schedule for periodic re-sync
+router.put('/:projectId/sync-schedule', projectController.updateSyncSchedule);
+
 // REMOVED: The old 'ask' route is gone.
 // router.post('/:projectId/ask', projectController.askQuestion);
 
@@ -34,4 +63,7 @@ router.use('/:projectId/tasks', taskRoutes);
 // NEW: Mount conversation routes nested under projects
 router.use('/:projectId/conversations', conversationRoutes);
 
+// Mount ingestion run routes (start, list, inspect, cancel, stream) nested under projects
+router.use('/:projectId/ingestion-runs', ingestionRoutes);
+
 export default router;
\ No newline at end of file
@@ -1,18 +1,59 @@
 // src/api/projects/project.service.ts
 import pool from '../../services/db';
-import { cloneOrPullRepo } from '../../services/git';
-import { runIngestion, IngestionLogger } from '../../scripts/ingest';
 import path from 'path';
 import { chunkText } from '../../core/textChunker';
-import { getEmbedding } from '../../services/openai';
+import { EmbeddingBatcher } from '../../services/embeddingBatcher';
 import fs from 'fs/promises';
 import pgvector from 'pgvector/pg';
 import { extractTextFromFile } from '../../core/documentExtractor';
+import { ProjectSourceType } from '../../services/projectSources';
+import { IndexSettings, parseIndexSettings } from '../../core/indexSettings';
+import { DEFAULT_REF } from '../../services/git';
+import { PoolClient } from 'pg';
+
+export class IndexRootConflictError extends Error {
+    constructor(rootDir: string | null) {
+        super(`Another project already indexes ${rootDir ? `"${rootDir}"` : 'the root'} of this source.`);
+        this.name = 'IndexRootConflictError';
+    }
+}
+
+export class UnknownRefError extends Error {
+    constructor(ref: string) {
+        super(`Ref "${ref}" is not indexed for this project. Add it to the project's tracked refs and run an ingestion.`);
+        this.name = 'UnknownRefError';
+    }
+}
+
+/**
+ * Reads an optional `ref` request parameter, defaulting to the default branch.
+ */
+export function parseRefParam(value: unknown): string {
+    return typeof value === 'string' && value.trim() ? value.trim() : DEFAULT_REF;
+}
+
+/**
+ * Checks that a branch or tag has been indexed for the project. The default branch ('HEAD')
+ * is always accepted.
+ */
+export async function assertRefIndexed(client: PoolClient, projectId: number, ref: string) {
+    if (ref === DEFAULT_REF) return;
+    const { rowCount } = await client.query('SELECT 1 FROM indexed_files WHERE project_id = $1 AND ref = $2 LIMIT 1', [projectId, ref]);
+    if (!rowCount) {
+        throw new UnknownRefError(ref);
+    }
+}
+
+// Columns that are safe to return to API clients (secrets are deliberately left out).
+const PUBLIC_PROJECT_COLUMNS =
+    'id, name, source, source_type, created_at, index_root, include_globs, exclude_globs, max_file_size_bytes, tracked_refs, ' +
+    'keep_history, history_since, ' +
+    'sync_schedule, last_scheduled_sync_at, next_scheduled_sync_at, last_scheduled_sync_result';
 
 export async function getAllProjects() {
     const client = await pool.connect();
     try {
-        const { rows } = await client.query('SELECT id, name, source FROM projects ORDER BY created_at DESC');
+        const { rows } = await client.query(`SELECT ${PUBLIC_PROJECT_COLUMNS} FROM projects ORDER BY created_at DESC`);
         return rows;
     } finally {
         client.release();
@@ -33,18 +74,31 @@ export async function getProjectById(projectId: number) {
 }
 
 
-export async function createProject(source: string) {
+/**
+ * Registers a project, or returns the existing one for the same source and root directory.
+ * A repository can back several projects, one per root directory (e.g. monorepo services).
+ */
+export async function createProject(
+    source: string,
+    sourceType: ProjectSourceType = 'git',
+    baseName: string = path.basename(source, path.extname(source)),
+    settings: IndexSettings = parseIndexSettings({})
+) {
     const client = await pool.connect();
     try {
-        const existing = await client.query('SELECT * FROM projects WHERE source = $1', [source]);
+        const existing = await client.query(
+            `SELECT ${PUBLIC_PROJECT_COLUMNS} FROM projects WHERE source = $1 AND COALESCE(index_root, '') = $2`,
+            [source, settings.rootDir || '']
+        );
         if (existing.rows.length > 0) {
             return { project: existing.rows[0], created: false };
         }
 
-        const projectName = path.basename(source, path.extname(source));
+        const projectName = settings.rootDir ? `${baseName}/${settings.rootDir}` : baseName;
         const { rows } = await client.query(
-            'INSERT INTO projects (name, source) VALUES ($1, $2) RETURNING *',
-            [projectName, source]
+            `INSERT INTO projects (name, source, source_type, index_root, include_globs, exclude_globs, max_file_size_bytes, tracked_refs, keep_history)
+             VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9) RETURNING ${PUBLIC_PROJECT_COLUMNS}`,
+            [projectName, source, sourceType, settings.rootDir, settings.include, settings.exclude, settings.maxFileSizeBytes, settings.trackedRefs, settings.keepHistory]
         );
         return { project: rows[0], created: true };
     } finally {
@@ -52,23 +106,30 @@ export async function createProject(source: string) {
     }
 }
 
-export async function startProjectIngestion(projectId: number, source: string, logger: IngestionLogger) {
+/**
+ * Replaces a project's index settings. The next sync prunes files that are no longer selected.
+ * @returns The updated project, or null if it doesn't exist.
+ * @throws {IndexRootConflictError} if another project already indexes the same root of this source.
+ */
+export async function updateIndexSettings(projectId: number, settings: IndexSettings) {
+    const client = await pool.connect();
     try {
-        const projectPath = await cloneOrPullRepo(source, logger);
-        logger(`[Project ${projectId}] Ingestion running...`);
-        await runIngestion(projectId, projectPath, logger);
-        logger(`✅ [Project ${projectId}] Ingestion complete.`);
-    } catch (error) {
-        const errorMessage = error instanceof Error ? error.message : String(error);
-        logger(`❌ [Project ${projectId}] Ingestion failed: ${errorMessage}`);
-        console.error(`❌ [Project ${projectId}] Ingestion failed:`, error);
+        const { rows } = await client.query(
+            `UPDATE projects SET index_root = $1, include_globs = $2, exclude_globs = $3, max_file_size_bytes = $4, tracked_refs = $5, keep_history = $6
+             WHERE id = $7 RETURNING ${PUBLIC_PROJECT_COLUMNS}`,
+            [settings.rootDir, settings.include, settings.exclude, settings.maxFileSizeBytes, settings.trackedRefs, settings.keepHistory, projectId]
+        );
+        return rows[0] || null;
+    } catch (error: any) {
+        if (error?.code === '23505') {
+            throw new IndexRootConflictError(settings.rootDir);
+        }
+        throw error;
+    } finally {
+        client.release();
     }
 }
 
-export function startProjectIngestionInBackground(projectId: number, source: string) {
-    startProjectIngestion(projectId, source, console.log);
-}
-
 export async function addProjectDocument(projectId: number, originalFilename: string, storedFilePath: string) {
     const client = await pool.connect();
     try {
@@ -82,39 +143,19 @@ export async function addProjectDocument(projectId: number, originalFilename: st
         );
         const documentId = docResult.rows[0].id;
 
-        const chunks = chunkText(content);
+        const chunks = chunkText(content).filter(chunk => chunk.content.trim().length >= 5);
 
         console.log(`[project.service] Number of chunks to be inserted: ${chunks.length}`);
-        let chunkCounter = 0;
-
-        for (const chunk of chunks) {
-            chunkCounter++;
-            console.log(`[project.service] >> Processing chunk ${chunkCounter}/${chunks.length}`);
 
-            // Let's inspect the chunk to make sure it's valid
-            if (!chunk || chunk.trim().length < 5) {
-                console.log(`[project.service] >> Chunk ${chunkCounter} is too short or empty. Skipping.`);
-                continue;
-            }
+        const batcher = new EmbeddingBatcher({ logger: message => console.log(`[project.service] ${message.trim()}`) });
+        const embeddings = await batcher.embed(chunks.map(chunk => chunk.content));
+        batcher.reportThroughput();
 
-            try {
-                console.log(`[project.service] >>   1. Generating embedding for chunk ${chunkCounter}...`);
-                const embedding = await getEmbedding(chunk);
-                console.log(`[project.service] >>   2. Embedding generated (length: ${embedding.length}). Inserting into DB...`);
-
-                await client.query(
-                    'INSERT INTO document_chunks (document_id, content, embedding) VALUES ($1, $2, $3)',
-                    [documentId, chunk, pgvector.toSql(embedding)]
-                );
-
-                console.log(`[project.service] >>   3. Successfully inserted chunk ${chunkCounter} into DB.`);
-
-            } catch (loopError) {
-                // THIS IS A NEW, CRITICAL CATCH BLOCK
-                console.error(`[project.service] >> !! ERROR inside chunk loop on chunk ${chunkCounter}:`, loopError);
-                // We re-throw the error to ensure the main transaction is rolled back.
-                throw loopError;
-            }
+        for (const [index, chunk] of chunks.entries()) {
+            await client.query(
+                'INSERT INTO document_chunks (document_id, content, start_line, end_line, embedding) VALUES ($1, $2, $3, $4, $5)',
+                [documentId, chunk.content, chunk.start_line, chunk.end_line, pgvector.toSql(embeddings[index])]
+            );
         }
 
         console.log(`[project.service] Finished processing all chunks. Committing transaction...`);
@@ -180,21 +221,25 @@ export async function deleteProjectDocument(projectId: number, documentId: numbe
     }
 }
 
-export async function getProjectStats(projectId: number) {
+export async function getProjectStats(projectId: number, ref: string = DEFAULT_REF) {
     const client = await pool.connect();
     try {
+        await assertRefIndexed(client, projectId, ref);
+        // Commits are narrowed to the ones the ref contains; the default branch has commit_refs rows too.
+        const commitFilter = 'AND id IN (SELECT commit_id FROM commit_refs WHERE ref = $2)';
         const [
             fileStatsRes,
             taskStatsRes,
             docStatsRes,
             commitHistoryRes,
-            contributorRes
+            contributorRes,
+            skippedFilesRes
         ] = await Promise.all([
             client.query(
                 `SELECT
-                    (SELECT COUNT(*) FROM indexed_files WHERE project_id = $1) as file_count,
-                    (SELECT COUNT(*) FROM code_chunks WHERE file_id IN (SELECT id FROM indexed_files WHERE project_id = $1)) as chunk_count`,
-                [projectId]
+                    (SELECT COUNT(*) FROM indexed_files WHERE project_id = $1 AND ref = $2) as file_count,
+                    (SELECT COUNT(*) FROM code_chunks WHERE file_id IN (SELECT id FROM indexed_files WHERE project_id = $1 AND ref = $2)) as chunk_count`,
+                [projectId, ref]
             ),
             client.query(
                 `SELECT status, COUNT(*) as count FROM tasks WHERE project_id = $1 GROUP BY status`,
@@ -205,24 +250,40 @@ export async function getProjectStats(projectId: number) {
                 [projectId]
             ),
             client.query(
-                `SELECT commit_hash, author_name, commit_date, message FROM commits WHERE project_id = $1 ORDER BY commit_date DESC LIMIT 50`,
-                [projectId]
+                `SELECT commit_hash, author_name, commit_date, message FROM commits WHERE project_id = $1 ${commitFilter} ORDER BY commit_date DESC LIMIT 50`,
+                [projectId, ref]
             ),
             client.query(
-                `SELECT COUNT(DISTINCT author_name) as contributor_count FROM commits WHERE project_id = $1`,
-                [projectId]
+                `SELECT COUNT(DISTINCT author_name) as contributor_count FROM commits WHERE project_id = $1 ${commitFilter}`,
+                [projectId, ref]
+            ),
+            client.query(
+                `SELECT path, reason, detail, size_bytes, skipped_at FROM skipped_files WHERE project_id = $1 AND ref = $2 ORDER BY path`,
+                [projectId, ref]
             )
         ]);
 
+        // NEW: Files the last syncs left out, grouped by reason
+        const skippedByReason = skippedFilesRes.rows.reduce((acc, row) => {
+            acc[row.reason] = (acc[row.reason] || 0) + 1;
+            return acc;
+        }, {} as Record<string, number>);
+
         const taskStats = taskStatsRes.rows.reduce((acc, row) => {
             acc[row.status] = parseInt(row.count, 10);
             return acc;
         }, { open: 0, in_progress: 0, done: 0 });
 
         return {
+            ref,
             files: {
                 count: parseInt(fileStatsRes.rows[0].file_count, 10),
                 chunks: parseInt(fileStatsRes.rows[0].chunk_count, 10),
+                skipped: {
+                    count: skippedFilesRes.rows.length,
+                    byReason: skippedByReason,
+                    files: skippedFilesRes.rows.map(row => ({ ...row, size_bytes: parseInt(row.size_bytes, 10) })),
+                },
             },
             tasks: taskStats,
             documents: {
@@ -237,4 +298,42 @@ export async function getProjectStats(projectId: number) {
     } finally {
         client.release();
     }
-}
\ No newline at end of file
+}
+/**
+ * Returns every commit that touched a file, following renames back to its earlier paths.
+ * Works for deleted files too, since commit links are kept by path.
+ * @param filePath The file's path (current or last known), relative to the repository root.
+ */
+export async function getFileHistory(projectId: number, filePath: string) {
+    const client = await pool.connect();
+    try {
+        // Each lineage step is an earlier name of the file and the date it was renamed away
+        // from; only commits up to that date belong to the file under that name.
+        const { rows } = await client.query(
+            `WITH RECURSIVE lineage(path, until_date) AS (
+                SELECT $2::text, NULL::timestamptz
+                UNION
+                SELECT cf.old_path, c.commit_date
+                FROM commit_files cf
+                JOIN commits c ON c.id = cf.commit_id
+                JOIN lineage l ON cf.path = l.path
+                WHERE c.project_id = $1 AND cf.change_type = 'R' AND cf.old_path IS NOT NULL
+                  AND (l.until_date IS NULL OR c.commit_date <= l.until_date)
+            )
+            SELECT DISTINCT ON (c.id)
+                c.commit_hash, c.author_name, c.commit_date, c.message,
+                cf.change_type, cf.path, cf.old_path, cf.additions, cf.deletions
+            FROM commit_files cf
+            JOIN commits c ON c.id = cf.commit_id
+            JOIN lineage l ON cf.path = l.path
+            WHERE c.project_id = $1 AND (l.until_date IS NULL OR c.commit_date <= l.until_date)
+            ORDER BY c.id, c.commit_date DESC`,
+            [projectId, filePath]
+        );
+        const commits = rows.sort((a, b) => new Date(b.commit_date).getTime() - new Date(a.commit_date).getTime());
+        const paths = [filePath, ...commits.filter(c => c.change_type === 'R' && c.old_path).map(c => c.old_path)];
+        return { path: filePath, paths: [...new Set(paths)], commits };
+    } finally {
+        client.release();
+    }
+}
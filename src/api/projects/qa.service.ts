@@ -1,9 +1,22 @@
 // src/api/projects/qa.service.ts
 import pool from '../../services/db';
-import * as openAI from '../../services/openai';
+import * as llm from '../../services/llm';
 import pgvector from 'pgvector/pg';
 import { PoolClient } from 'pg';
-import OpenAI from 'openai';
+import { DEFAULT_REF } from '../../services/git';
+import { assertRefIndexed } from './project.service';
+import { ChunkMatch, searchChunksAsOf } from './history.service';
+import { findDefinitionsForChunks, FollowedDefinition } from './symbol.service';
+
+// How many definitions of symbols used by the retrieved code are added to the context.
+const MAX_FOLLOWED_DEFINITIONS = 3;
+
+interface CurrentChunk extends ChunkMatch {
+    id: number;
+    file_id: number;
+    start_line: number;
+    end_line: number;
+}
 
 // NEW: Define a type for the sources we collect.
 export interface Source {
@@ -12,23 +25,50 @@ export interface Source {
     title: string;
 }
 
-// NEW: Define a type for message history, matching the one in openai.ts
+// NEW: Define a type for message history, matching the one in services/llm.ts
 export interface ChatMessage {
     role: 'user' | 'assistant';
     content: string;
 }
 
 
+/**
+ * Finds relevant chunks in a ref's current code: the closest files by summary first,
+ * then the closest chunks within them.
+ */
+async function findCurrentChunks(client: PoolClient, projectId: number, embedding: string, ref: string): Promise<CurrentChunk[]> {
+    const { rows: relevantFiles } = await client.query(
+        `SELECT id, path FROM indexed_files WHERE project_id = $1 AND ref = $3 ORDER BY summary_embedding <=> $2 LIMIT 5`,
+        [projectId, embedding, ref]
+    );
+    if (relevantFiles.length === 0) {
+        return [];
+    }
+    const { rows: chunks } = await client.query(
+        `SELECT id, file_id, content, chunk_name, start_line, end_line FROM code_chunks WHERE file_id = ANY($1::int[]) ORDER BY embedding <=> $2 LIMIT 10`,
+        [relevantFiles.map(f => f.id), embedding]
+    );
+    return chunks.map(c => ({
+        ...c,
+        path: relevantFiles.find(f => f.id === c.file_id)?.path,
+    }));
+}
+
 // MODIFIED: The function signature is completely new.
+// MODIFIED: Code and commits are searched on the given ref (the default branch unless a tracked branch or tag is named).
+// MODIFIED: With `asOf`, code and commits are taken as they were at that time (see history.service).
 export async function getAnswerStream(
     projectId: number, 
     latestQuestion: string, 
-    history: ChatMessage[]
-): Promise<{ stream: AsyncIterable<OpenAI.Chat.Completions.ChatCompletionChunk>, sources: Source[] }> {
+    history: ChatMessage[],
+    ref: string = DEFAULT_REF,
+    asOf: Date | null = null
+): Promise<{ stream: AsyncIterable<string>, sources: Source[] }> {
     let client: PoolClient | null = null;
     try {
         client = await pool.connect();
-        const questionEmbedding = await openAI.getEmbedding(latestQuestion);
+        await assertRefIndexed(client, projectId, ref);
+        const questionEmbedding = await llm.getEmbedding(latestQuestion);
         let contextString = '';
         const sources: Source[] = [];
 
@@ -69,11 +109,14 @@ export async function getAnswerStream(
         }
 
         const { rows: relevantCommits } = await client.query(
-            `SELECT commit_hash, message, author_name FROM commits WHERE project_id = $1 ORDER BY embedding <=> $2 LIMIT 3`,
-            [projectId, pgvector.toSql(questionEmbedding)]
+            `SELECT commit_hash, message, digest, author_name FROM commits
+             WHERE project_id = $1 AND id IN (SELECT commit_id FROM commit_refs WHERE ref = $3)
+               AND ($4::timestamptz IS NULL OR commit_date <= $4)
+             ORDER BY embedding <=> $2 LIMIT 3`,
+            [projectId, pgvector.toSql(questionEmbedding), ref, asOf]
         );
         if (relevantCommits.length > 0) {
-            contextString += "Relevant Commits:\n" + relevantCommits.map(c => `- Commit ${c.commit_hash.substring(0, 7)} by ${c.author_name}: ${c.message.split('\n')[0]}`).join('\n') + '\n\n';
+            contextString += "Relevant Commits:\n" + relevantCommits.map(c => `- Commit ${c.commit_hash.substring(0, 7)} by ${c.author_name}: ${c.message.split('\n')[0]}${c.digest ? `\n  ${c.digest}` : ''}`).join('\n') + '\n\n';
             relevantCommits.forEach(c => sources.push({
                 type: 'commit',
                 id: c.commit_hash.substring(0, 7),
@@ -110,35 +153,38 @@ export async function getAnswerStream(
             }
         }
 
-        const { rows: relevantFiles } = await client.query(
-            `SELECT id, path FROM indexed_files WHERE project_id = $1 ORDER BY summary_embedding <=> $2 LIMIT 5`,
-            [projectId, pgvector.toSql(questionEmbedding)]
-        );
-        
-        if (relevantFiles.length > 0) {
-            const relevantFileIds = relevantFiles.map(f => f.id);
-            const { rows: contextChunks } = await client.query(
-                `SELECT file_id, content, chunk_name FROM code_chunks WHERE file_id = ANY($1::int[]) ORDER BY embedding <=> $2 LIMIT 10`,
-                [relevantFileIds, pgvector.toSql(questionEmbedding)]
-            );
-            
-            if (contextChunks.length > 0) {
-                 const chunkContext = contextChunks.map(c => {
-                    const filePath = relevantFiles.find(f => f.id === c.file_id)?.path;
-                    return `--- FILE: ${filePath} (Chunk: ${c.chunk_name}) ---\n\n${c.content}`;
-                }).join('\n\n');
-                contextString += "Relevant Code Snippets:\n" + chunkContext;
-                
-                const uniqueFilePaths = new Set(contextChunks.map(c => {
-                    return relevantFiles.find(f => f.id === c.file_id)?.path;
-                }).filter((p): p is string => !!p));
-
-                uniqueFilePaths.forEach(filePath => sources.push({
-                    type: 'code',
-                    id: filePath,
-                    title: filePath
-                }));
-            }
+        // Past code has no file summaries, so its chunks are searched directly.
+        // NEW: For current code, the symbol graph is followed to the definitions the retrieved chunks call.
+        let contextChunks: ChunkMatch[];
+        let followedDefinitions: FollowedDefinition[] = [];
+        if (asOf) {
+            contextChunks = await searchChunksAsOf(client, projectId, pgvector.toSql(questionEmbedding), asOf, 10);
+        } else {
+            const currentChunks = await findCurrentChunks(client, projectId, pgvector.toSql(questionEmbedding), ref);
+            followedDefinitions = await findDefinitionsForChunks(client, projectId, ref, currentChunks, MAX_FOLLOWED_DEFINITIONS);
+            contextChunks = currentChunks;
+        }
+
+        if (contextChunks.length > 0) {
+            const chunkContext = contextChunks.map(c => `--- FILE: ${c.path} (Chunk: ${c.chunk_name}) ---\n\n${c.content}`).join('\n\n');
+            contextString += (asOf ? `Relevant Code Snippets (as of ${asOf.toISOString()}):\n` : "Relevant Code Snippets:\n") + chunkContext;
+
+            const uniqueFilePaths = new Set(contextChunks.map(c => c.path));
+            uniqueFilePaths.forEach(filePath => sources.push({
+                type: 'code',
+                id: filePath,
+                title: filePath
+            }));
+        }
+
+        if (followedDefinitions.length > 0) {
+            contextString += "\n\nDefinitions Used by the Code Above:\n" + followedDefinitions
+                .map(d => `--- FILE: ${d.path} (${d.kind} ${d.name}) ---\n\n${d.content}`).join('\n\n');
+            new Set<string>(followedDefinitions.map(d => d.path)).forEach(filePath => {
+                if (!sources.some(s => s.type === 'code' && s.id === filePath)) {
+                    sources.push({ type: 'code', id: filePath, title: filePath });
+                }
+            });
         }
         
         if (!contextString.trim() && history.length === 0) {
@@ -153,14 +199,14 @@ export async function getAnswerStream(
 
         const userMessageWithContext = `CONTEXT:\n${contextString}\n\nQUESTION:\n${latestQuestion}`;
 
-        // Construct the full message payload for the OpenAI API
-        const messages: openAI.ChatMessage[] = [
+        // Construct the full message payload for the LLM provider
+        const messages: llm.ChatMessage[] = [
             { role: 'system', content: systemPrompt },
             ...history,
             { role: 'user', content: userMessageWithContext }
         ];
 
-        const stream = await openAI.getChatCompletionStream(messages);
+        const stream = await llm.getChatCompletionStream(messages);
         
         return { stream, sources };
 
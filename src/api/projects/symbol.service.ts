@@ -0,0 +1,215 @@
+// --- FILE: api/projects/symbol.service.ts ---
+import { ClientBase } from 'pg';
+import pool from '../../services/db';
+import { DEFAULT_REF } from '../../services/git';
+import { assertRefIndexed } from './project.service';
+
+export class FileNotIndexedError extends Error {
+    constructor(filePath: string) {
+        super(`File "${filePath}" is not indexed for this project.`);
+        this.name = 'FileNotIndexedError';
+    }
+}
+
+// The file an import resolves to: its first candidate path that is indexed on the same ref.
+const RESOLVED_PATH_SQL = `(
+    SELECT target.path FROM unnest(i.candidate_paths) WITH ORDINALITY AS candidate(path, position)
+    JOIN indexed_files target ON target.project_id = f.project_id AND target.ref = f.ref AND target.path = candidate.path
+    ORDER BY candidate.position LIMIT 1
+)`;
+
+/**
+ * Go-to-definition: where a symbol is defined. With `fromPath`, definitions in that file and
+ * in the files it imports come first, since those are the ones the name most likely refers to.
+ */
+export async function findDefinitions(projectId: number, name: string, ref: string = DEFAULT_REF, fromPath: string | null = null) {
+    const client = await pool.connect();
+    try {
+        await assertRefIndexed(client, projectId, ref);
+        const { rows } = await client.query(
+            `WITH reachable AS (
+                SELECT $4::text AS path
+                UNION
+                SELECT ${RESOLVED_PATH_SQL} FROM file_imports i
+                JOIN indexed_files f ON f.id = i.file_id
+                WHERE f.project_id = $1 AND f.ref = $2 AND f.path = $4
+             )
+             SELECT s.name, s.kind, f.path, s.start_line, s.end_line, s.exported,
+                    f.path IN (SELECT path FROM reachable WHERE path IS NOT NULL) AS in_scope
+             FROM code_symbols s
+             JOIN indexed_files f ON f.id = s.file_id
+             WHERE f.project_id = $1 AND f.ref = $2 AND s.name = $3
+             ORDER BY in_scope DESC, s.exported DESC, f.path, s.start_line
+             LIMIT 50`,
+            [projectId, ref, name, fromPath]
+        );
+        return rows;
+    } finally {
+        client.release();
+    }
+}
+
+/**
+ * Find-references: the call sites of a name and the imports that bring it into scope.
+ * Matching is by name, so same-named symbols in different modules are not told apart.
+ */
+export async function findReferences(projectId: number, name: string, ref: string = DEFAULT_REF) {
+    const client = await pool.connect();
+    try {
+        await assertRefIndexed(client, projectId, ref);
+        const [calls, imports] = await Promise.all([
+            client.query(
+                `SELECT f.path, r.line FROM symbol_references r
+                 JOIN indexed_files f ON f.id = r.file_id
+                 WHERE f.project_id = $1 AND f.ref = $2 AND r.name = $3
+                 ORDER BY f.path, r.line LIMIT 500`,
+                [projectId, ref, name]
+            ),
+            client.query(
+                `SELECT f.path, i.specifier, i.line, ${RESOLVED_PATH_SQL} AS resolved_path FROM file_imports i
+                 JOIN indexed_files f ON f.id = i.file_id
+                 WHERE f.project_id = $1 AND f.ref = $2 AND $3 = ANY(i.names)
+                 ORDER BY f.path, i.line`,
+                [projectId, ref, name]
+            ),
+        ]);
+        return { name, calls: calls.rows, imports: imports.rows };
+    } finally {
+        client.release();
+    }
+}
+
+/**
+ * The files importing a module: a repository file (`filePath`) or an external package (`module`).
+ */
+export async function findImporters(projectId: number, target: { path?: string, module?: string }, ref: string = DEFAULT_REF) {
+    const client = await pool.connect();
+    try {
+        await assertRefIndexed(client, projectId, ref);
+        const { rows } = target.path
+            ? await client.query(
+                `SELECT f.path, i.specifier, i.names, i.line FROM file_imports i
+                 JOIN indexed_files f ON f.id = i.file_id
+                 WHERE f.project_id = $1 AND f.ref = $2 AND $3 = ANY(i.candidate_paths) AND ${RESOLVED_PATH_SQL} = $3
+                 ORDER BY f.path, i.line`,
+                [projectId, ref, target.path]
+            )
+            : await client.query(
+                `SELECT f.path, i.specifier, i.names, i.line FROM file_imports i
+                 JOIN indexed_files f ON f.id = i.file_id
+                 WHERE f.project_id = $1 AND f.ref = $2 AND i.specifier = $3
+                 ORDER BY f.path, i.line`,
+                [projectId, ref, target.module]
+            );
+        return rows;
+    } finally {
+        client.release();
+    }
+}
+
+/**
+ * A file's dependency fan-out (what it imports, resolved to repository files where possible)
+ * and fan-in (the files importing it).
+ * @throws {FileNotIndexedError} if the file is not indexed on the ref.
+ */
+export async function getFileDependencies(projectId: number, filePath: string, ref: string = DEFAULT_REF) {
+    const client = await pool.connect();
+    try {
+        await assertRefIndexed(client, projectId, ref);
+        const { rows: files } = await client.query(
+            'SELECT id FROM indexed_files WHERE project_id = $1 AND ref = $2 AND path = $3',
+            [projectId, ref, filePath]
+        );
+        if (files.length === 0) {
+            throw new FileNotIndexedError(filePath);
+        }
+        const { rows: imports } = await client.query(
+            `SELECT i.specifier, i.names, i.line, ${RESOLVED_PATH_SQL} AS resolved_path,
+                    cardinality(i.candidate_paths) = 0 AS external
+             FROM file_imports i
+             JOIN indexed_files f ON f.id = i.file_id
+             WHERE i.file_id = $1 ORDER BY i.line`,
+            [files[0].id]
+        );
+        const { rows: importedBy } = await client.query(
+            `SELECT DISTINCT f.path FROM file_imports i
+             JOIN indexed_files f ON f.id = i.file_id
+             WHERE f.project_id = $1 AND f.ref = $2 AND $3 = ANY(i.candidate_paths) AND ${RESOLVED_PATH_SQL} = $3
+             ORDER BY f.path`,
+            [projectId, ref, filePath]
+        );
+        const internal = imports.filter(i => i.resolved_path);
+        return {
+            path: filePath,
+            fanOut: {
+                count: new Set(imports.map(i => i.resolved_path || i.specifier)).size,
+                files: [...new Set(internal.map(i => i.resolved_path))],
+                external: [...new Set(imports.filter(i => i.external).map(i => i.specifier))],
+                imports,
+            },
+            fanIn: {
+                count: importedBy.length,
+                files: importedBy.map(row => row.path),
+            },
+        };
+    } finally {
+        client.release();
+    }
+}
+
+interface RetrievedChunk {
+    id: number;
+    file_id: number;
+    start_line: number;
+    end_line: number;
+}
+
+/**
+ * A definition reached from retrieved chunks, with the chunk that contains it.
+ */
+export interface FollowedDefinition {
+    name: string;
+    kind: string;
+    path: string;
+    chunk_id: number;
+    chunk_name: string | null;
+    content: string;
+}
+
+/**
+ * Follows the symbol graph out of retrieved chunks: finds the names they call and returns the
+ * chunks defining those names, looking only in the chunks' own files and the files they import.
+ */
+export async function findDefinitionsForChunks(client: ClientBase, projectId: number, ref: string, chunks: RetrievedChunk[], limit: number): Promise<FollowedDefinition[]> {
+    if (chunks.length === 0) {
+        return [];
+    }
+    const { rows } = await client.query<FollowedDefinition>(
+        `WITH retrieved AS (
+            SELECT * FROM unnest($3::int[], $4::int[], $5::int[], $6::int[]) AS c(chunk_id, file_id, start_line, end_line)
+         ),
+         called AS (
+            SELECT DISTINCT r.name FROM symbol_references r
+            JOIN retrieved c ON r.file_id = c.file_id AND r.line BETWEEN c.start_line AND c.end_line
+         ),
+         reachable AS (
+            SELECT id AS file_id FROM indexed_files WHERE id IN (SELECT file_id FROM retrieved)
+            UNION
+            SELECT imported.id FROM file_imports i
+            JOIN indexed_files f ON f.id = i.file_id
+            JOIN indexed_files imported ON imported.project_id = $1 AND imported.ref = $2 AND imported.path = ${RESOLVED_PATH_SQL}
+            WHERE i.file_id IN (SELECT file_id FROM retrieved)
+         )
+         SELECT DISTINCT ON (s.name) s.name, s.kind, f.path, ch.id AS chunk_id, ch.chunk_name, ch.content
+         FROM code_symbols s
+         JOIN called ON called.name = s.name
+         JOIN reachable ON reachable.file_id = s.file_id
+         JOIN indexed_files f ON f.id = s.file_id
+         JOIN code_chunks ch ON ch.file_id = s.file_id AND ch.start_line <= s.start_line AND ch.end_line >= s.end_line
+         WHERE NOT (ch.id = ANY($3::int[]))
+         ORDER BY s.name, (ch.end_line - ch.start_line)
+         LIMIT $7`,
+        [projectId, ref, chunks.map(c => c.id), chunks.map(c => c.file_id), chunks.map(c => c.start_line), chunks.map(c => c.end_line), limit]
+    );
+    return rows;
+}
@@ -3,6 +3,9 @@
 // src/api/tasks/task.controller.ts
 import { Request, Response, NextFunction } from 'express';
 import * as taskService from './task.service';
+import { parseRefParam, UnknownRefError } from '../projects/project.service';
+import { InvalidAsOfError, HistoryNotKeptError } from '../projects/history.service';
+import { DEFAULT_TASK_MERGE_SETTINGS } from '../../core/taskClusters';
 
 export async function listTasks(req: Request, res: Response, next: NextFunction) {
     try {
@@ -61,16 +64,63 @@ export async function deleteTask(req: Request, res: Response, next: NextFunction
     }
 }
 
+// NEW: Commits that reference the task
+export async function getTaskCommits(req: Request, res: Response, next: NextFunction) {
+    try {
+        const { projectId, taskNumber } = req.params;
+        const commits = await taskService.getTaskCommits(parseInt(projectId, 10), parseInt(taskNumber, 10));
+        res.json(commits);
+    } catch (error) {
+        next(error);
+    }
+}
+
+// NEW: Merge near-duplicate retrospective tasks. Optional body: { similarity, windowDays }.
+export async function reclusterTasks(req: Request, res: Response, next: NextFunction) {
+    try {
+        const projectId = parseInt(req.params.projectId, 10);
+        const { similarity, windowDays } = req.body || {};
+        const settings = { ...DEFAULT_TASK_MERGE_SETTINGS };
+        if (similarity !== undefined) {
+            if (typeof similarity !== 'number' || similarity <= 0 || similarity > 1) {
+                return res.status(400).json({ error: '"similarity" must be a number between 0 and 1.' });
+            }
+            settings.similarity = similarity;
+        }
+        if (windowDays !== undefined) {
+            if (!Number.isInteger(windowDays) || windowDays < 0) {
+                return res.status(400).json({ error: '"windowDays" must be a non-negative integer.' });
+            }
+            settings.windowDays = windowDays;
+        }
+        const result = await taskService.reclusterRetrospectiveTasks(projectId, settings);
+        res.json(result);
+    } catch (error) {
+        next(error);
+    }
+}
+
 // --- NEW: Controller for the context bundle ---
 export async function getTaskContextBundle(req: Request, res: Response, next: NextFunction) {
     try {
         const { projectId, taskNumber } = req.params;
         const bundle = await taskService.getContextBundleForTask(
             parseInt(projectId, 10),
-            parseInt(taskNumber, 10)
+            parseInt(taskNumber, 10),
+            parseRefParam(req.query.ref),
+            typeof req.query.at === 'string' && req.query.at.trim() ? req.query.at.trim() : null
         );
         res.json(bundle);
     } catch (error) {
+        if (error instanceof UnknownRefError) {
+            return res.status(404).json({ error: error.message });
+        }
+        if (error instanceof InvalidAsOfError) {
+            return res.status(400).json({ error: error.message });
+        }
+        if (error instanceof HistoryNotKeptError) {
+            return res.status(409).json({ error: error.message });
+        }
         next(error);
     }
 }
\ No newline at end of file
@@ -6,9 +6,14 @@ const router = Router({ mergeParams: true }); // mergeParams is crucial for nest
 
 router.get('/', taskController.listTasks);
 router.post('/', taskController.createTask); 
+// NEW: Merge near-duplicate retrospective tasks generated from commits
+router.post('/recluster', taskController.reclusterTasks);
 router.put('/:taskNumber', taskController.updateTask); 
 router.delete('/:taskNumber', taskController.deleteTask);
 
+// NEW: Commits linked to a task by "fixes #n", "refs #n", trailers or branch names
+router.get('/:taskNumber/commits', taskController.getTaskCommits);
+
 // --- NEW: Route to get the context bundle for a task ---
 router.get('/:taskNumber/context-bundle', taskController.getTaskContextBundle);
 
@@ -1,7 +1,14 @@
 // src/api/tasks/task.service.ts
+import { ClientBase } from 'pg';
 import pool from '../../services/db';
-import { getEmbedding } from '../../services/openai';
+import { getCachedEmbedding } from '../../services/embeddingCache';
 import pgvector from 'pgvector/pg';
+import { DEFAULT_REF } from '../../services/git';
+import { assertRefIndexed } from '../projects/project.service';
+import { resolveAsOf, searchChunksAsOf } from '../projects/history.service';
+import { rankChunkOwners } from '../projects/expert.service';
+import { Expert } from '../../core/ownership';
+import { clusterTasks, DEFAULT_TASK_MERGE_SETTINGS, mergedTaskLine, TaskMergeSettings } from '../../core/taskClusters';
 
 // --- NEW: Define the structure for our context bundle ---
 interface CodeSource {
@@ -15,6 +22,14 @@ interface CommitSource {
     author: string;
     date: string;
     message: string;
+    /** What the commit changed, written from its diff; null until digested. */
+    digest: string | null;
+}
+
+// A commit that refers to the task ("fixes #12", "refs #12", a branch named after it).
+interface LinkedCommitSource extends CommitSource {
+    relation: 'closes' | 'reopens' | 'references';
+    source: 'message' | 'trailer' | 'branch' | 'generated';
 }
 
 interface TaskSource {
@@ -32,8 +47,11 @@ export interface ContextBundle {
     task: any; // The original task details
     relatedCode: CodeSource[];
     relatedCommits: CommitSource[];
+    linkedCommits: LinkedCommitSource[]; // Commits that reference the task, oldest first
     relatedTasks: TaskSource[];
     relatedDocuments: DocumentSource[];
+    asOf: Date | null; // Set when code and commits are taken from a past point in time
+    owners: Expert[]; // Who wrote the related code, i.e. whom to ask about the task
 }
 
 
@@ -58,7 +76,7 @@ export async function createTask(projectId: number, title: string, description?:
     const client = await pool.connect();
     try {
         const contentToEmbed = `${title}${description ? `\n\n${description}` : ''}`;
-        const titleEmbedding = await getEmbedding(contentToEmbed);
+        const titleEmbedding = await getCachedEmbedding(contentToEmbed);
         const { rows } = await client.query(
             'INSERT INTO tasks (project_id, title, description, embedding) VALUES ($1, $2, $3, $4) RETURNING *',
             [projectId, title, description || null, pgvector.toSql(titleEmbedding)]
@@ -117,7 +135,7 @@ export async function updateTask(projectId: number, taskNumber: number, updates:
 
         if (updates.title || updates.description) {
             const contentToEmbed = `${newTitle}${newDescription ? `\n\n${newDescription}` : ''}`;
-            const newEmbedding = await getEmbedding(contentToEmbed);
+            const newEmbedding = await getCachedEmbedding(contentToEmbed);
             fieldsToUpdate.push(`embedding = $${paramIndex++}`);
             values.push(pgvector.toSql(newEmbedding));
         }
@@ -156,10 +174,115 @@ export async function deleteTask(projectId: number, taskNumber: number): Promise
     }
 }
 
+async function findLinkedCommits(client: ClientBase, taskId: number): Promise<LinkedCommitSource[]> {
+    const { rows } = await client.query(
+        `SELECT c.commit_hash, c.author_name, c.commit_date, c.message, c.digest, tc.relation, tc.source
+         FROM task_commits tc
+         JOIN commits c ON c.id = tc.commit_id
+         WHERE tc.task_id = $1
+         ORDER BY c.commit_date ASC`,
+        [taskId]
+    );
+    return rows.map(c => ({
+        hash: c.commit_hash.substring(0, 7),
+        author: c.author_name,
+        date: c.commit_date,
+        message: c.message.split('\n')[0],
+        digest: c.digest,
+        relation: c.relation,
+        source: c.source,
+    }));
+}
+
+/**
+ * The commits linked to a task, oldest first, with how each refers to it.
+ */
+export async function getTaskCommits(projectId: number, taskNumber: number): Promise<LinkedCommitSource[]> {
+    const client = await pool.connect();
+    try {
+        const { rows } = await client.query('SELECT id FROM tasks WHERE project_id = $1 AND task_number = $2', [projectId, taskNumber]);
+        if (rows.length === 0) {
+            throw new Error('Task not found');
+        }
+        return await findLinkedCommits(client, rows[0].id);
+    } finally {
+        client.release();
+    }
+}
+
+export interface ReclusterResult {
+    /** Tasks that absorbed others, with the task numbers merged into them. */
+    merged: { taskNumber: number; title: string; mergedTaskNumbers: number[] }[];
+    /** Retrospective tasks left after merging. */
+    remaining: number;
+}
+
+/**
+ * Re-clusters a project's retrospective (generated, done) tasks. Each cluster of near-duplicates
+ * is merged into its earliest task, which takes over the others' commits and knowledge-note links.
+ */
+export async function reclusterRetrospectiveTasks(projectId: number, settings: TaskMergeSettings = DEFAULT_TASK_MERGE_SETTINGS): Promise<ReclusterResult> {
+    const client = await pool.connect();
+    try {
+        const { rows } = await client.query(
+            `SELECT t.id, t.task_number, t.title, t.embedding, t.created_at,
+                    (SELECT c.commit_hash FROM task_commits tc JOIN commits c ON c.id = tc.commit_id
+                     WHERE tc.task_id = t.id ORDER BY c.commit_date LIMIT 1) AS commit_hash
+             FROM tasks t
+             WHERE t.project_id = $1 AND t.is_retrospective AND t.status = 'done' AND t.embedding IS NOT NULL`,
+            [projectId]
+        );
+        const clusters = clusterTasks(rows.map(row => ({ ...row, date: new Date(row.created_at) })), settings)
+            .filter(cluster => cluster.duplicates.length > 0);
+
+        await client.query('BEGIN');
+        try {
+            for (const { keeper, duplicates } of clusters) {
+                const duplicateIds = duplicates.map(task => task.id);
+                await client.query(
+                    `INSERT INTO task_commits (task_id, commit_id, relation, source)
+                     SELECT $1, commit_id, relation, source FROM task_commits WHERE task_id = ANY($2::int[])
+                     ON CONFLICT (task_id, commit_id) DO NOTHING`,
+                    [keeper.id, duplicateIds]
+                );
+                await client.query('UPDATE knowledge_note_links SET task_id = $1 WHERE task_id = ANY($2::int[])', [keeper.id, duplicateIds]);
+                await client.query(
+                    `UPDATE tasks SET description = COALESCE(description, '') || $2,
+                            updated_at = GREATEST(updated_at, (SELECT MAX(updated_at) FROM tasks WHERE id = ANY($3::int[])))
+                     WHERE id = $1`,
+                    [keeper.id, duplicates.map(task => mergedTaskLine(task.title, task.commit_hash)).join(''), duplicateIds]
+                );
+                await client.query('DELETE FROM tasks WHERE id = ANY($1::int[])', [duplicateIds]);
+            }
+            await client.query('COMMIT');
+        } catch (error) {
+            await client.query('ROLLBACK');
+            throw error;
+        }
+
+        const mergedCount = clusters.reduce((sum, cluster) => sum + cluster.duplicates.length, 0);
+        return {
+            merged: clusters.map(({ keeper, duplicates }) => ({
+                taskNumber: keeper.task_number,
+                title: keeper.title,
+                mergedTaskNumbers: duplicates.map(task => task.task_number),
+            })),
+            remaining: rows.length - mergedCount,
+        };
+    } finally {
+        client.release();
+    }
+}
+
 // --- NEW: Function to assemble the context bundle ---
-export async function getContextBundleForTask(projectId: number, taskNumber: number): Promise<ContextBundle> {
+// MODIFIED: Code and commits can come from a tracked branch or tag instead of the default branch,
+// or from the code as it was at a past commit or date (`at`).
+export async function getContextBundleForTask(projectId: number, taskNumber: number, ref: string = DEFAULT_REF, at: string | null = null): Promise<ContextBundle> {
     const client = await pool.connect();
     try {
+        await assertRefIndexed(client, projectId, ref);
+        const asOf = at ? await resolveAsOf(client, projectId, at, ref) : null;
+
         // 1. Fetch the target task and its embedding
         const taskRes = await client.query('SELECT *, embedding::text FROM tasks WHERE project_id = $1 AND task_number = $2', [projectId, taskNumber]);
         if (taskRes.rows.length === 0) {
@@ -177,18 +300,22 @@ export async function getContextBundleForTask(projectId: number, taskNumber: num
         );
         const relatedTasks: TaskSource[] = relatedTasksRes.rows;
 
-        // 3. Find related commits
+        // 3. Find the commits linked to the task, then related commits
+        const linkedCommits = await findLinkedCommits(client, targetTask.id);
         const relatedCommitsRes = await client.query(
-            `SELECT commit_hash, author_name, commit_date, message FROM commits
-             WHERE project_id = $1 
+            `SELECT commit_hash, author_name, commit_date, message, digest FROM commits
+             WHERE project_id = $1
+               AND id IN (SELECT commit_id FROM commit_refs WHERE ref = $3)
+               AND ($4::timestamptz IS NULL OR commit_date <= $4)
              ORDER BY embedding <=> $2 LIMIT 5`,
-            [projectId, taskEmbedding]
+            [projectId, taskEmbedding, ref, asOf]
         );
         const relatedCommits: CommitSource[] = relatedCommitsRes.rows.map(c => ({
             hash: c.commit_hash.substring(0, 7),
             author: c.author_name,
             date: c.commit_date,
-            message: c.message.split('\n')[0]
+            message: c.message.split('\n')[0],
+            digest: c.digest
         }));
         
         // 4. Find related documents
@@ -209,28 +336,41 @@ export async function getContextBundleForTask(projectId: number, taskNumber: num
         }));
 
         // 5. Find related code (multi-step: find files, then find chunks in those files)
-        const relevantFilesRes = await client.query(
-            `SELECT id, path FROM indexed_files 
-             WHERE project_id = $1 
-             ORDER BY summary_embedding <=> $2 LIMIT 5`,
-            [projectId, taskEmbedding]
-        );
-        
+        // Past code has no file summaries, so its chunks are searched directly.
         let relatedCode: CodeSource[] = [];
-        if (relevantFilesRes.rows.length > 0) {
-            const relevantFileIds = relevantFilesRes.rows.map(f => f.id);
-            const codeChunksRes = await client.query(
-                `SELECT file_id, content, chunk_name FROM code_chunks 
-                 WHERE file_id = ANY($1::int[]) 
-                 ORDER BY embedding <=> $2 LIMIT 10`,
-                [relevantFileIds, taskEmbedding]
+        // Ownership is only known for current code.
+        let owners: Expert[] = [];
+        if (asOf) {
+            const chunks = await searchChunksAsOf(client, projectId, taskEmbedding, asOf, 10);
+            relatedCode = chunks.map(c => ({ filePath: c.path, chunkName: c.chunk_name || '', content: c.content }));
+        } else {
+            const relevantFilesRes = await client.query(
+                `SELECT id, path FROM indexed_files 
+                 WHERE project_id = $1 AND ref = $3
+                 ORDER BY summary_embedding <=> $2 LIMIT 5`,
+                [projectId, taskEmbedding, ref]
             );
+        
+            if (relevantFilesRes.rows.length > 0) {
+                const relevantFileIds = relevantFilesRes.rows.map(f => f.id);
+                const codeChunksRes = await client.query(
+                    `SELECT id, file_id, content, chunk_name, GREATEST(0, 1 - (embedding <=> $2)) AS relevance FROM code_chunks 
+                     WHERE file_id = ANY($1::int[]) 
+                     ORDER BY embedding <=> $2 LIMIT 10`,
+                    [relevantFileIds, taskEmbedding]
+                );
             
-            relatedCode = codeChunksRes.rows.map(c => ({
-                filePath: relevantFilesRes.rows.find(f => f.id === c.file_id)?.path || 'Unknown file',
-                chunkName: c.chunk_name,
-                content: c.content
-            }));
+                relatedCode = codeChunksRes.rows.map(c => ({
+                    filePath: relevantFilesRes.rows.find(f => f.id === c.file_id)?.path || 'Unknown file',
+                    chunkName: c.chunk_name,
+                    content: c.content
+                }));
+                owners = await rankChunkOwners(client, codeChunksRes.rows.map((c, i) => ({
+                    id: c.id,
+                    path: relatedCode[i].filePath,
+                    relevance: c.relevance,
+                })), 5);
+            }
         }
 
         // Assemble and return the final bundle
@@ -238,8 +378,11 @@ export async function getContextBundleForTask(projectId: number, taskNumber: num
             task: targetTask,
             relatedCode,
             relatedCommits,
+            linkedCommits,
             relatedTasks,
             relatedDocuments,
+            asOf,
+            owners,
         };
     } finally {
         client.release();
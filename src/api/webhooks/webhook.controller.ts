@@ -0,0 +1,31 @@
+// --- FILE: api/webhooks/webhook.controller.ts ---
+import { Request, Response, NextFunction } from 'express';
+import * as webhookService from './webhook.service';
+import { parseWebhook, InvalidWebhookError } from '../../core/webhookPayloads';
+
+export async function receiveGitWebhook(req: Request, res: Response, next: NextFunction) {
+    try {
+        // The route uses express.raw(), because signatures are computed over the exact bytes sent.
+        const rawBody: Buffer = Buffer.isBuffer(req.body) ? req.body : Buffer.alloc(0);
+        if (rawBody.length === 0) {
+            return res.status(400).json({ error: 'Webhook body is empty.' });
+        }
+
+        const webhook = parseWebhook(req.headers, rawBody);
+        const outcome = await webhookService.handleGitWebhook(webhook, req.headers, rawBody);
+
+        switch (outcome.status) {
+            case 'unauthorized':
+                return res.status(401).json({ error: 'Webhook signature verification failed.' });
+            case 'ignored':
+                return res.status(200).json({ message: outcome.reason, projectIds: outcome.projectIds });
+            case 'queued':
+                return res.status(202).json({ message: 'Ingestion queued.', runs: outcome.runs });
+        }
+    } catch (error) {
+        if (error instanceof InvalidWebhookError) {
+            return res.status(400).json({ error: error.message });
+        }
+        next(error);
+    }
+}
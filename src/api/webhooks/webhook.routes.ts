@@ -0,0 +1,10 @@
+// --- FILE: api/webhooks/webhook.routes.ts ---
+import express, { Router } from 'express';
+import * as webhookController from './webhook.controller';
+
+const router = Router();
+
+// Keep the body as raw bytes so HMAC signatures can be verified.
+router.post('/git', express.raw({ type: '*/*', limit: '25mb' }), webhookController.receiveGitWebhook);
+
+export default router;
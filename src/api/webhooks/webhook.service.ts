@@ -0,0 +1,90 @@
+// --- FILE: api/webhooks/webhook.service.ts ---
+import crypto from 'crypto';
+import pool from '../../services/db';
+import { normalizeRepoUrl } from '../../services/git';
+import { ParsedWebhook, isRelevantPush, verifyWebhookSignature } from '../../core/webhookPayloads';
+import { startIngestionRun } from '../ingestion/ingestion.service';
+
+type Headers = Record<string, string | string[] | undefined>;
+
+export type WebhookOutcome =
+    | { status: 'unauthorized' }
+    | { status: 'ignored'; reason: string; projectIds: number[] }
+    | { status: 'queued'; runs: { projectId: number; runId: number; merged: boolean }[] };
+
+/**
+ * Finds the projects whose source is the repository named in the payload.
+ * Several projects may track the same repository (e.g. monorepo sub-projects).
+ */
+async function findProjectsForRepository(repositoryUrls: string[]) {
+    const wanted = new Set(repositoryUrls.map(normalizeRepoUrl));
+    const client = await pool.connect();
+    try {
+        const { rows } = await client.query(
+            `SELECT id, source, webhook_secret, tracked_refs FROM projects WHERE webhook_secret IS NOT NULL AND source_type = 'git'`
+        );
+        return rows.filter(p => wanted.has(normalizeRepoUrl(p.source)));
+    } finally {
+        client.release();
+    }
+}
+
+/**
+ * Verifies a webhook against every matching project's secret and queues an incremental
+ * ingestion for each verified project. An unknown repository is reported as unauthorized,
+ * like a bad signature, so unauthenticated callers can't probe which repositories are registered.
+ */
+export async function handleGitWebhook(webhook: ParsedWebhook, headers: Headers, rawBody: Buffer): Promise<WebhookOutcome> {
+    const candidates = await findProjectsForRepository(webhook.repositoryUrls);
+    if (candidates.length === 0) {
+        console.log(`[webhook] Rejected a ${webhook.provider} delivery: no project with a webhook secret matches the repository.`);
+        return { status: 'unauthorized' };
+    }
+
+    const verified = candidates.filter(p => verifyWebhookSignature(webhook.provider, headers, rawBody, p.webhook_secret));
+    if (verified.length === 0) {
+        return { status: 'unauthorized' };
+    }
+    const projectIds = verified.map(p => p.id);
+
+    if (webhook.event === 'ping') {
+        return { status: 'ignored', reason: 'Ping received.', projectIds };
+    }
+    // Each project decides by its own tracked refs.
+    const relevant = verified.filter(p => isRelevantPush(webhook, p.tracked_refs || []));
+    if (relevant.length === 0) {
+        return { status: 'ignored', reason: `Event "${webhook.rawEvent}" on ${webhook.ref || 'no ref'} does not trigger a sync.`, projectIds };
+    }
+
+    const runs = [];
+    for (const project of relevant) {
+        const { run, merged } = await startIngestionRun(project.id);
+        console.log(`[webhook] ${webhook.provider} push to ${webhook.ref} queued ingestion run ${run.id} for project ${project.id}${merged ? ' (merged)' : ''}.`);
+        runs.push({ projectId: project.id, runId: run.id, merged });
+    }
+    return { status: 'queued', runs };
+}
+
+/**
+ * Generates (or rotates) a project's webhook secret.
+ * @returns The new secret. It is only ever returned here, so callers must show it to the user.
+ */
+export async function rotateWebhookSecret(projectId: number): Promise<string | null> {
+    const secret = crypto.randomBytes(32).toString('hex');
+    const client = await pool.connect();
+    try {
+        const result = await client.query('UPDATE projects SET webhook_secret = $1 WHERE id = $2', [secret, projectId]);
+        return result.rowCount ? secret : null;
+    } finally {
+        client.release();
+    }
+}
+
+export async function removeWebhookSecret(projectId: number): Promise<void> {
+    const client = await pool.connect();
+    try {
+        await client.query('UPDATE projects SET webhook_secret = NULL WHERE id = $1', [projectId]);
+    } finally {
+        client.release();
+    }
+}
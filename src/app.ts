@@ -3,18 +3,24 @@ import 'dotenv/config';
 import express from 'express';
 import path from 'path';
 import projectRoutes from './api/projects/project.routes';
+import adminRoutes from './api/admin/admin.routes';
+import webhookRoutes from './api/webhooks/webhook.routes';
 import cors from 'cors';
 import { errorHandler } from './middleware/errorHandler';
 
 const app = express();
 app.use(cors());
 
+// Webhooks are mounted before the JSON parser, since they need the raw request body.
+app.use('/api/webhooks', webhookRoutes);
+
 // Middleware
 app.use(express.json());
 app.use(express.static(path.join(process.cwd(), 'public')));
 
 // API Routes
 app.use('/api/projects', projectRoutes);
+app.use('/api/admin', adminRoutes);
 
 // Error Handler
 app.use(errorHandler);
@@ -5,8 +5,12 @@ import 'dotenv/config';
 import { Command } from 'commander';
 import { Client } from 'pg';
 import pgvector from 'pgvector/pg';
-import OpenAI from 'openai';
 import { runIngestion } from './scripts/ingest';
+import { estimateIngestion, IngestionEstimate } from './scripts/estimate';
+import { getChatCompletionStream } from './services/llm';
+import { getCachedEmbedding } from './services/embeddingCache';
+import { inferSourceType } from './services/projectSources';
+import pool from './services/db';
 import simpleGit, { SimpleGit } from 'simple-git';
 import { promises as fs } from 'fs';
 import path from 'path';
@@ -14,13 +18,11 @@ import os from 'os';
 
 // --- CONFIGURATION ---
 const connectionString = process.env.DATABASE_URL!;
-const openaiApiKey = process.env.OPENAI_API_KEY!;
 const WORKSPACE_DIR = path.join(os.homedir(), '.ai-brain-workspace');
 
-if (!connectionString || !openaiApiKey) {
-    throw new Error("FATAL: Missing environment variables DATABASE_URL or OPENAI_API_KEY");
+if (!connectionString) {
+    throw new Error("FATAL: Missing environment variable DATABASE_URL");
 }
-const openai = new OpenAI({ apiKey: openaiApiKey });
 const program = new Command();
 
 // --- HELPER FUNCTIONS ---
@@ -33,28 +35,20 @@ const program = new Command();
  * @returns The numeric ID of the project.
  */
 async function getProjectId(source: string, client: Client): Promise<number> {
-    const projectRes = await client.query('SELECT id FROM projects WHERE source = $1', [source]);
+    const projectRes = await client.query('SELECT id FROM projects WHERE source = $1 AND index_root IS NULL', [source]);
     if (projectRes.rows.length > 0) {
         return projectRes.rows[0].id;
     } else {
         const projectName = path.basename(source, path.extname(source));
         console.log(`✨ Creating new project entry for '${projectName}'...`);
         const newProjectRes = await client.query(
-            'INSERT INTO projects (name, source) VALUES ($1, $2) RETURNING id',
-            [projectName, source]
+            'INSERT INTO projects (name, source, source_type) VALUES ($1, $2, $3) RETURNING id',
+            [projectName, source, inferSourceType(source)]
         );
         return newProjectRes.rows[0].id;
     }
 }
 
-async function getEmbedding(text: string): Promise<number[]> {
-  const response = await openai.embeddings.create({
-    model: 'text-embedding-3-small',
-    input: text.replace(/\n/g, ' '),
-  });
-  return response.data[0].embedding;
-}
-
 function getWorkspacePathFromUrl(url: string): string {
     try {
         const parsedUrl = new URL(url);
@@ -71,13 +65,33 @@ function getWorkspacePathFromUrl(url: string): string {
     }
 }
 
+/**
+ * Prints a dry-run estimate as a readable report.
+ */
+function printEstimate(estimate: IngestionEstimate) {
+    const { files, commits, embeddings } = estimate;
+    const skipped = Object.entries(files.skipped).map(([reason, count]) => `${count} ${reason}`).join(', ') || 'none';
+    console.log('\n📊 Dry run: nothing was indexed and no model was called.');
+    console.log(`   Files:   ${files.selected} selected, ${files.new} new, ${files.changed} changed, ${files.unchanged} unchanged (skipped: ${skipped})`);
+    console.log(`            ${files.chunksToEmbed} chunks to embed, ${files.summariesToGenerate} summaries to generate`);
+    console.log(`   Commits: ${commits.new} new, ${commits.closingTasks} closing tasks, ~${commits.taskGenerations} task generations, ~${commits.digests} digests (${commits.sampled} diffs sampled)`);
+    console.log(`   Embeddings: ${embeddings.inputs} inputs, ${embeddings.cachedInputs} already cached`);
+    console.log('\n   Estimated cost:');
+    for (const line of estimate.costs) {
+        const cost = line.estimatedUsd === null ? 'no price known' : `$${line.estimatedUsd.toFixed(4)}`;
+        console.log(`   - ${line.purpose.padEnd(16)} ${line.model.padEnd(24)} ${line.inputTokens} in / ${line.outputTokens} out tokens  ${cost}`);
+    }
+    console.log(`   Total: $${estimate.totalUsd.toFixed(2)}${estimate.unpricedModels.length ? ` (excluding ${estimate.unpricedModels.join(', ')})` : ''}`);
+}
+
 // --- CLI COMMAND DEFINITIONS ---
 
 program
   .command('ingest')
   .description('Ingest a project from a local path or a public Git URL.')
   .argument('<source>', 'The local path or Git URL of the project')
-  .action(async (source: string) => {
+  .option('--dry-run', 'Estimate files, commits, tokens and cost without indexing or calling any model')
+  .action(async (source: string, options: { dryRun?: boolean }) => {
     let projectPath = source;
 
     if (source.startsWith('http') || source.startsWith('git@')) {
@@ -103,6 +117,13 @@ program
     const client = new Client({ connectionString });
     try {
       await client.connect();
+      if (options.dryRun) {
+        // A dry run must not register the project, so an unknown source is estimated from scratch.
+        const existing = await client.query('SELECT id FROM projects WHERE source = $1 AND index_root IS NULL', [source]);
+        const estimate = await estimateIngestion(existing.rows[0]?.id ?? null, projectPath, console.log);
+        printEstimate(estimate);
+        return;
+      }
       const projectId = await getProjectId(source, client);
       await runIngestion(projectId, projectPath, console.log);
       console.log('✅ Ingestion complete.');
@@ -119,15 +140,16 @@ program
   .description('Ask a question about the indexed codebase.')
   .argument('<question>', 'The question to ask')
   .requiredOption('-p, --project <source>', 'The project source (Git URL or local path)')
-  .action(async (question: string, options: { project: string }) => {
-    console.log(`🧠 Thinking about: "${question}"`);
+  .option('-r, --ref <ref>', 'A tracked branch or tag to answer from instead of the default branch', 'HEAD')
+  .action(async (question: string, options: { project: string, ref: string }) => {
+    console.log(`🧠 Thinking about: "${question}"${options.ref !== 'HEAD' ? ` on ${options.ref}` : ''}`);
     const client = new Client({ connectionString });
     try {
       await client.connect();
       await pgvector.registerType(client);
       const projectId = await getProjectId(options.project, client);
 
-      const questionEmbedding = await getEmbedding(question);
+      const questionEmbedding = await getCachedEmbedding(question);
       let contextString = '';
 
       // --- Retrieve relevant tasks ---
@@ -143,19 +165,21 @@ program
 
       // --- Retrieve relevant commits ---
       const { rows: relevantCommits } = await client.query(
-        `SELECT commit_hash, message, author_name FROM commits WHERE project_id = $1 ORDER BY embedding <=> $2 LIMIT 3`,
-        [projectId, pgvector.toSql(questionEmbedding)]
+        `SELECT commit_hash, message, digest, author_name FROM commits
+         WHERE project_id = $1 AND id IN (SELECT commit_id FROM commit_refs WHERE ref = $3)
+         ORDER BY embedding <=> $2 LIMIT 3`,
+        [projectId, pgvector.toSql(questionEmbedding), options.ref]
       );
       
       if (relevantCommits.length > 0) {
           console.log(`\n🔍 Found relevant commits: ${relevantCommits.map(c => c.commit_hash.substring(0, 7)).join(', ')}`);
-          contextString += "Relevant Commits:\n" + relevantCommits.map(c => `- Commit ${c.commit_hash.substring(0, 7)} by ${c.author_name}: ${c.message.split('\n')[0]}`).join('\n') + '\n\n';
+          contextString += "Relevant Commits:\n" + relevantCommits.map(c => `- Commit ${c.commit_hash.substring(0, 7)} by ${c.author_name}: ${c.message.split('\n')[0]}${c.digest ? `\n  ${c.digest}` : ''}`).join('\n') + '\n\n';
       }
 
       // --- Retrieve relevant files and code chunks ---
       const { rows: relevantFiles } = await client.query(
-        `SELECT id, path, summary FROM indexed_files WHERE project_id = $1 ORDER BY summary_embedding <=> $2 LIMIT 5`,
-        [projectId, pgvector.toSql(questionEmbedding)]
+        `SELECT id, path, summary FROM indexed_files WHERE project_id = $1 AND ref = $3 ORDER BY summary_embedding <=> $2 LIMIT 5`,
+        [projectId, pgvector.toSql(questionEmbedding), options.ref]
       );
       
       if (relevantFiles.length === 0 && relevantTasks.length === 0 && relevantCommits.length === 0) {
@@ -189,15 +213,11 @@ program
       const systemPrompt = `You are an expert AI software engineer. Answer the user's question based ONLY on the provided context, which may include tasks, commits, and code snippets. Be concise, accurate, and provide code snippets in Markdown format when relevant. If the context is insufficient, state that clearly.`;
       const userPrompt = `CONTEXT:\n${contextString}\n\nQUESTION:\n${question}`;
 
-      const stream = await openai.chat.completions.create({
-        model: 'gpt-4o',
-        messages: [{ role: 'system', content: systemPrompt }, { role: 'user', content: userPrompt }],
-        stream: true,
-      });
+      const stream = await getChatCompletionStream([{ role: 'system', content: systemPrompt }, { role: 'user', content: userPrompt }]);
       
       console.log('\n💬 Answer:\n');
-      for await (const chunk of stream) {
-        process.stdout.write(chunk.choices[0]?.delta?.content || '');
+      for await (const token of stream) {
+        process.stdout.write(token);
       }
       console.log('\n');
 
@@ -222,7 +242,7 @@ task
         await client.connect();
         const projectId = await getProjectId(options.project, client);
         
-        const titleEmbedding = await getEmbedding(title);
+        const titleEmbedding = await getCachedEmbedding(title);
 
         const result = await client.query(
             'INSERT INTO tasks (project_id, title, embedding) VALUES ($1, $2, $3) RETURNING task_number',
@@ -272,4 +292,11 @@ task
     }
   });
 
-program.parse(process.argv);
\ No newline at end of file
+(async () => {
+    try {
+        await program.parseAsync(process.argv);
+    } finally {
+        // The embedding cache uses the shared pool; left open, it keeps the CLI from exiting.
+        await pool.end();
+    }
+})();
\ No newline at end of file
@@ -0,0 +1,59 @@
+// --- FILE: core/chunkDiff.ts ---
+import crypto from 'crypto';
+import { CodeChunk } from './chunker';
+
+export interface StoredChunk {
+  id: number;
+  content_hash: string;
+}
+
+export interface HashedChunk {
+  chunk: CodeChunk;
+  hash: string;
+}
+
+export interface ChunkDiff {
+  kept: { stored: StoredChunk; incoming: HashedChunk }[];
+  added: HashedChunk[];
+  removed: StoredChunk[];
+}
+
+export function hashChunkContent(content: string): string {
+  return crypto.createHash('sha256').update(content).digest('hex');
+}
+
+/**
+ * Diffs the freshly chunked version of a file against the chunks stored in the database.
+ * Chunks are matched by content hash, so a chunk that only moved keeps its row and embedding.
+ * Duplicate chunks are matched one-to-one, in order.
+ * @param stored The chunks currently stored for the file.
+ * @param incoming The chunks produced from the file's new content.
+ */
+export function diffChunks(stored: StoredChunk[], incoming: CodeChunk[]): ChunkDiff {
+  const storedByHash = new Map<string, StoredChunk[]>();
+  for (const chunk of stored) {
+    storedByHash.set(chunk.content_hash, [...(storedByHash.get(chunk.content_hash) || []), chunk]);
+  }
+
+  const diff: ChunkDiff = { kept: [], added: [], removed: [] };
+  for (const chunk of incoming) {
+    const hashed = { chunk, hash: hashChunkContent(chunk.content) };
+    const match = storedByHash.get(hashed.hash)?.shift();
+    if (match) {
+      diff.kept.push({ stored: match, incoming: hashed });
+    } else {
+      diff.added.push(hashed);
+    }
+  }
+  diff.removed = [...storedByHash.values()].reduce((all, chunks) => all.concat(chunks), [] as StoredChunk[]);
+  return diff;
+}
+
+/**
+ * The share of chunks that changed, from 0 (identical) to 1 (completely rewritten).
+ */
+export function getChangeRatio(diff: ChunkDiff): number {
+  const changed = diff.added.length + diff.removed.length;
+  const total = changed + 2 * diff.kept.length;
+  return total === 0 ? 0 : changed / total;
+}
@@ -1,83 +1,378 @@
 // --- FILE: core/chunker.ts ---
-import Parser, { Query } from 'tree-sitter'; // MODIFIED: Import the Query class
-import TypeScript from 'tree-sitter-typescript/typescript';
+import Parser, { Query, SyntaxNode } from 'tree-sitter'; // MODIFIED: Import the Query class
+import { getLanguageForFile, LanguageSpec } from './languages';
+import { ChunkBudget, DEFAULT_CHUNK_BUDGET, estimateTokens, packWindows, sliceByTokens } from './tokens';
 
 export interface CodeChunk {
   content: string;
   metadata: {
-    type: 'function' | 'class' | 'method' | 'arrow_function' | 'block';
+    type: 'function' | 'class' | 'method' | 'arrow_function' | 'struct' | 'interface' | 'enum' | 'trait' | 'impl' | 'type' | 'object' | 'export' | 'block';
     name: string;
     start_line: number;
     end_line: number;
+    /** Index (in the returned array) of the enclosing chunk, e.g. a method's class. */
+    parent_index: number | null;
   };
 }
 
-const parser = new Parser();
-parser.setLanguage(TypeScript);
-
-// CRITICAL: This query identifies the distinct, semantic blocks of code.
-const TS_QUERY = `
-[
-  (function_declaration) @chunk
-  (class_declaration) @chunk
-  (method_definition) @chunk
-  (lexical_declaration 
-    (variable_declarator 
-      value: (arrow_function)
-    )
-  ) @chunk
-]
-`;
-
-export function chunkCodeWithAST(content: string): CodeChunk[] {
+type ChunkType = CodeChunk['metadata']['type'];
+
+const CHUNK_TYPES = new Set<ChunkType>(['function', 'class', 'method', 'arrow_function', 'struct', 'interface', 'enum', 'trait', 'impl', 'type', 'object', 'export']);
+
+// Chunks that hold other chunks. Their content keeps only a stub of each child, so the
+// child's text is embedded once. Anything captured inside a function stays part of it.
+const CONTAINER_TYPES = new Set<ChunkType>(['class', 'struct', 'interface', 'enum', 'trait', 'impl', 'object', 'export']);
+
+// Parsers and compiled queries are cached per language, since building them is expensive.
+const parsers = new Map<string, { parser: Parser; query: Query }>();
+
+export function getParser(language: LanguageSpec) {
+  let entry = parsers.get(language.name);
+  if (!entry) {
+    const parser = new Parser();
+    parser.setLanguage(language.grammar);
+    entry = { parser, query: new Query(language.grammar, language.query) };
+    parsers.set(language.name, entry);
+  }
+  return entry;
+}
+
+/**
+ * Heuristics to find the name of a captured node across the supported grammars.
+ */
+function getChunkName(node: SyntaxNode): string {
+  switch (node.type) {
+    case 'lexical_declaration':
+      // For arrow functions like `const myFunc = () => ...`
+      return node.firstNamedChild?.firstNamedChild?.text || 'anonymous_arrow_function';
+    case 'export_statement': {
+      const declaration = node.childForFieldName('declaration');
+      return declaration ? getChunkName(declaration) : 'default';
+    }
+    case 'expression_statement':
+      // JS: `module.exports = { ... }`
+      return 'module.exports';
+    case 'decorated_definition': {
+      // Python: `@decorator\ndef name(...)`
+      const definition = node.childForFieldName('definition');
+      return definition ? getChunkName(definition) : 'anonymous';
+    }
+    case 'type_declaration':
+      // Go: `type Name struct { ... }`
+      return node.namedChildren.find(child => child.type === 'type_spec')?.childForFieldName('name')?.text || 'anonymous';
+    case 'impl_item': {
+      // Rust: `impl Trait for Type` or `impl Type`
+      const typeName = node.childForFieldName('type')?.text || 'anonymous';
+      const traitName = node.childForFieldName('trait')?.text;
+      return traitName ? `${traitName} for ${typeName}` : typeName;
+    }
+    default:
+      return node.childForFieldName('name')?.text || 'anonymous';
+  }
+}
+
+/**
+ * A declaration wrapped in `export` is chunked with its export statement.
+ */
+function outerNode(node: SyntaxNode): SyntaxNode {
+  return node.parent?.type === 'export_statement' ? node.parent : node;
+}
+
+/**
+ * Finds where a node's chunk starts: at the first of the comments directly above it
+ * (doc comments, attributes written as comments), or at the node itself.
+ */
+function leadingCommentStart(node: SyntaxNode): SyntaxNode {
+  let start = node;
+  let previous = node.previousNamedSibling;
+  while (previous && /comment/.test(previous.type) && previous.endPosition.row >= start.startPosition.row - 1) {
+    // A comment trailing the previous statement on its line belongs to that statement.
+    const beforeComment = previous.previousNamedSibling;
+    if (beforeComment && beforeComment.endPosition.row === previous.startPosition.row) {
+      break;
+    }
+    start = previous;
+    previous = previous.previousNamedSibling;
+  }
+  return start;
+}
+
+/**
+ * The stand-in for a child chunk inside its parent's content: its signature without the body.
+ */
+function childStub(node: SyntaxNode, content: string): string {
+  const body = node.childForFieldName('body');
+  if (!body) {
+    return content.substring(node.startIndex, node.endIndex).split('\n')[0].trimEnd() + ' ...';
+  }
+  const header = content.substring(node.startIndex, body.startIndex).trimEnd();
+  return body.text.startsWith('{') ? `${header} { ... }` : `${header} ...`;
+}
+
+interface CapturedChunk {
+  node: SyntaxNode;
+  start: SyntaxNode;
+  type: ChunkType;
+  parent: CapturedChunk | null;
+  children: CapturedChunk[];
+}
+
+/**
+ * A contiguous run of a chunk's text, with the file lines it came from.
+ */
+interface Segment {
+  text: string;
+  start_line: number;
+  end_line: number;
+}
+
+/**
+ * A file's content with the offset of each line, to map text offsets back to line numbers.
+ */
+interface Source {
+  content: string;
+  lineStarts: number[];
+}
+
+function toSource(content: string): Source {
+  const lineStarts = [0];
+  for (let i = 0; i < content.length; i++) {
+    if (content[i] === '\n') lineStarts.push(i + 1);
+  }
+  return { content, lineStarts };
+}
+
+/** The 1-based line holding an offset. */
+function lineAt(source: Source, index: number): number {
+  let low = 0;
+  let high = source.lineStarts.length - 1;
+  while (low < high) {
+    const middle = Math.ceil((low + high) / 2);
+    if (source.lineStarts[middle] <= index) low = middle;
+    else high = middle - 1;
+  }
+  return low + 1;
+}
+
+/**
+ * The text between two offsets, with each child chunk inside it replaced by its stub.
+ */
+function textWithStubs(content: string, from: number, to: number, children: CapturedChunk[]): string {
+  let text = '';
+  let position = from;
+  for (const child of children) {
+    if (child.start.startIndex < from || child.node.endIndex > to) continue;
+    text += content.substring(position, child.start.startIndex) + childStub(child.node, content);
+    position = child.node.endIndex;
+  }
+  return text + content.substring(position, to);
+}
+
+/**
+ * A segment for the text between two offsets. Its lines are those of its first and last
+ * non-blank characters.
+ */
+function segmentOf(source: Source, from: number, to: number, children: CapturedChunk[]): Segment {
+  const original = source.content.substring(from, to);
+  const first = from + original.search(/\S|$/);
+  const last = from + Math.max(0, original.replace(/\s+$/, '').length - 1);
+  return {
+    text: textWithStubs(source.content, from, to, children),
+    start_line: lineAt(source, first),
+    end_line: lineAt(source, Math.max(first, last)),
+  };
+}
+
+/**
+ * Splits the text between two offsets into one segment per line, keeping each child chunk's
+ * stub on a single segment. A line over the limit is cut into slices.
+ */
+function lineSegments(source: Source, from: number, to: number, children: CapturedChunk[], maxTokens: number): Segment[] {
+  const cuts = source.lineStarts.filter(start => start > from && start < to
+    && !children.some(child => child.start.startIndex < start && start < child.node.endIndex));
+  const bounds = [from, ...cuts, to];
+  const segments: Segment[] = [];
+  for (let i = 0; i < bounds.length - 1; i++) {
+    const segment = segmentOf(source, bounds[i], bounds[i + 1], children);
+    if (estimateTokens(segment.text) <= maxTokens) {
+      segments.push(segment);
+    } else {
+      sliceByTokens(segment.text, maxTokens).forEach(text => segments.push({ ...segment, text }));
+    }
+  }
+  return segments;
+}
+
+/**
+ * The nodes an oversized chunk can be split between: the members of the outermost body
+ * (methods of a class, statements of a function) or object literal found under the node.
+ */
+function findMembers(node: SyntaxNode): SyntaxNode[] {
+  const queue = [node];
+  while (queue.length > 0) {
+    const current = queue.shift()!;
+    const body = current.childForFieldName('body');
+    if (body && body.namedChildCount > 1) return body.namedChildren;
+    if (current.type === 'object' && current.namedChildCount > 1) return current.namedChildren;
+    queue.push(...current.namedChildren);
+  }
+  return [];
+}
+
+interface ChunkPiece {
+  content: string;
+  start_line: number;
+  end_line: number;
+}
+
+/**
+ * Splits text over the token budget into overlapping pieces. Cuts fall between the chunk's
+ * members where possible, and between lines inside a member that is too large on its own.
+ * Every piece after the first starts with the chunk's signature line, so it can be told apart.
+ */
+function splitOversized(source: Source, from: number, to: number, node: SyntaxNode | null, children: CapturedChunk[], budget: ChunkBudget): ChunkPiece[] {
+  const { content } = source;
+  const signature = node ? content.substring(node.startIndex, node.endIndex).split('\n')[0].trim().substring(0, 200) : '';
+  const maxTokens = budget.maxTokens - estimateTokens(signature);
+
+  const cuts = new Set<number>();
+  for (const member of node ? findMembers(node) : []) {
+    let cut = leadingCommentStart(member).startIndex;
+    // Cut at the start of the line, so the member keeps its indentation.
+    const lineStart = source.lineStarts[lineAt(source, cut) - 1];
+    if (content.substring(lineStart, cut).trim() === '') cut = lineStart;
+    if (cut > from && cut < to && !children.some(child => child.start.startIndex < cut && cut < child.node.endIndex)) {
+      cuts.add(cut);
+    }
+  }
+
+  const bounds = [from, ...[...cuts].sort((a, b) => a - b), to];
+  const segments: Segment[] = [];
+  for (let i = 0; i < bounds.length - 1; i++) {
+    const segment = segmentOf(source, bounds[i], bounds[i + 1], children);
+    if (estimateTokens(segment.text) <= maxTokens) {
+      segments.push(segment);
+    } else {
+      segments.push(...lineSegments(source, bounds[i], bounds[i + 1], children, maxTokens));
+    }
+  }
+
+  return packWindows(segments, segment => estimateTokens(segment.text), budget, estimateTokens(signature))
+    .map((window, index) => ({
+      content: ((index > 0 && signature ? `${signature}\n` : '') + window.map(segment => segment.text).join('')).replace(/\s+$/, ''),
+      start_line: window[0].start_line,
+      end_line: window[window.length - 1].end_line,
+    }));
+}
+
+function wholeFileChunks(content: string, budget: ChunkBudget): CodeChunk[] {
+  const source = toSource(content);
+  const pieces = estimateTokens(content) <= budget.maxTokens
+    ? [{ content, start_line: 1, end_line: source.lineStarts.length }]
+    : splitOversized(source, 0, content.length, null, [], budget);
+  return pieces.map((piece, index) => ({
+    content: piece.content,
+    metadata: {
+      type: 'block',
+      name: pieces.length > 1 ? `file_content (part ${index + 1}/${pieces.length})` : 'file_content',
+      start_line: piece.start_line,
+      end_line: piece.end_line,
+      parent_index: null,
+    },
+  }));
+}
+
+/**
+ * Splits a source file into semantic chunks (functions, classes, methods, ...)
+ * using the tree-sitter grammar registered for the file's extension.
+ * Leading comments are part of their chunk. A method is chunked once, on its own;
+ * its class's chunk keeps just the method's signature. A chunk over the token budget
+ * is split into overlapping parts, each with its own line range.
+ * @param content The full content of the file.
+ * @param filePath The path of the file, used to pick the language.
+ * @param budget The largest chunk to produce.
+ * @returns The chunks found in the file, parents before their children.
+ */
+export function chunkCodeWithAST(content: string, filePath: string, budget: ChunkBudget = DEFAULT_CHUNK_BUDGET): CodeChunk[] {
+  if (content.trim().length === 0) {
+    return [];
+  }
+
+  const language = getLanguageForFile(filePath);
+  if (!language) {
+    // Unknown language: treat the entire file as a single chunk.
+    return wholeFileChunks(content, budget);
+  }
+
+  const { parser, query } = getParser(language);
   const tree = parser.parse(content);
-  // MODIFIED: Use the Query constructor for robustness
-  const query = new Query(TypeScript, TS_QUERY);
-  const matches = query.captures(tree.rootNode);
 
-  const chunks: CodeChunk[] = [];
+  // Several patterns can capture the same node; keep the first.
+  const byRange = new Map<string, CapturedChunk>();
+  for (const capture of query.captures(tree.rootNode)) {
+    if (capture.name.startsWith('_')) continue; // Predicate helpers, not chunks.
+    const node = outerNode(capture.node);
+    const key = `${node.startIndex}:${node.endIndex}`;
+    if (!byRange.has(key)) {
+      const type: ChunkType = CHUNK_TYPES.has(capture.name as ChunkType) ? capture.name as ChunkType : 'block';
+      byRange.set(key, { node, start: leadingCommentStart(node), type, parent: null, children: [] });
+    }
+  }
 
-  for (const match of matches) {
-    const node = match.node;
-    let name = 'anonymous';
-    let type: CodeChunk['metadata']['type'] = 'block';
-
-    // Heuristics to find the name of the chunk
-    if (node.type === 'function_declaration' || node.type === 'class_declaration' || node.type === 'method_definition') {
-        name = node.childForFieldName('name')?.text || 'anonymous';
-        if (node.type === 'method_definition') type = 'method';
-        else if (node.type === 'class_declaration') type = 'class';
-        else type = 'function';
-    } else if (node.type === 'lexical_declaration') {
-        // For arrow functions like `const myFunc = () => ...`
-        name = node.firstNamedChild?.firstNamedChild?.text || 'anonymous_arrow_function';
-        type = 'arrow_function';
+  // Outer chunks first, so each chunk's enclosing chunk is already placed.
+  const sorted = [...byRange.values()].sort((a, b) => a.node.startIndex - b.node.startIndex || b.node.endIndex - a.node.endIndex);
+  const kept: CapturedChunk[] = [];
+  const open: CapturedChunk[] = [];
+  for (const chunk of sorted) {
+    while (open.length > 0 && open[open.length - 1].node.endIndex <= chunk.node.startIndex) {
+      open.pop();
     }
-    
-    chunks.push({
-      content: node.text,
-      metadata: {
-        type: type,
-        name: name,
-        start_line: node.startPosition.row + 1,
-        end_line: node.endPosition.row + 1,
-      },
-    });
+    const enclosing = open.length > 0 ? open[open.length - 1] : null;
+    if (enclosing && !CONTAINER_TYPES.has(enclosing.type)) {
+      continue; // Part of the enclosing function's body.
+    }
+    chunk.parent = enclosing;
+    enclosing?.children.push(chunk);
+    kept.push(chunk);
+    open.push(chunk);
   }
 
   // Fallback: If no specific chunks were found (e.g., a simple config file),
   // treat the entire file as a single chunk.
-  if (chunks.length === 0 && content.trim().length > 0) {
-    chunks.push({
-      content: content,
+  if (kept.length === 0) {
+    return wholeFileChunks(content, budget);
+  }
+
+  const source = toSource(content);
+  const chunks: CodeChunk[] = [];
+  // The indices of each kept chunk's parts in `chunks`, to point children at their parent's part.
+  const parts = new Map<CapturedChunk, number[]>();
+  for (const chunk of kept) {
+    const text = textWithStubs(content, chunk.start.startIndex, chunk.node.endIndex, chunk.children);
+    const pieces = estimateTokens(text) <= budget.maxTokens
+      ? [{ content: text, start_line: chunk.start.startPosition.row + 1, end_line: chunk.node.endPosition.row + 1 }]
+      : splitOversized(source, chunk.start.startIndex, chunk.node.endIndex, chunk.node, chunk.children, budget);
+
+    let parentIndex: number | null = null;
+    if (chunk.parent) {
+      const line = chunk.start.startPosition.row + 1;
+      const parentParts = parts.get(chunk.parent)!;
+      parentIndex = parentParts.find(i => chunks[i].metadata.start_line <= line && line <= chunks[i].metadata.end_line) ?? parentParts[0];
+    }
+
+    const name = getChunkName(chunk.node);
+    parts.set(chunk, pieces.map((_, index) => chunks.length + index));
+    pieces.forEach((piece, index) => chunks.push({
+      content: piece.content,
       metadata: {
-        type: 'block',
-        name: 'file_content',
-        start_line: 1,
-        end_line: content.split('\n').length,
+        type: chunk.type,
+        name: pieces.length > 1 ? `${name} (part ${index + 1}/${pieces.length})` : name,
+        start_line: piece.start_line,
+        end_line: piece.end_line,
+        parent_index: parentIndex,
       },
-    });
+    }));
   }
 
   return chunks;
-}
\ No newline at end of file
+}
@@ -0,0 +1,70 @@
+// --- FILE: core/commitChanges.ts ---
+
+/**
+ * One file touched by a commit, relative to its first parent.
+ */
+export interface FileChange {
+    /** A(dded), M(odified), D(eleted), R(enamed), C(opied) or T(ype changed). */
+    changeType: string;
+    /** The path after the commit (for deletions, the path that was removed). */
+    path: string;
+    /** The path before a rename or copy; null otherwise. */
+    oldPath: string | null;
+    /** Line counts; null for binary files. */
+    additions: number | null;
+    deletions: number | null;
+}
+
+/**
+ * Arguments for `git diff-tree <commit>` that produce the output parseDiffTree expects:
+ * raw records for change types and renames, numstat for line counts, NUL-separated so odd
+ * file names survive. Merges are diffed against their first parent, root commits against
+ * the empty tree.
+ */
+export const DIFF_TREE_ARGS = ['-r', '-M', '-z', '--raw', '--numstat', '--no-commit-id', '--root', '--diff-merges=first-parent'];
+
+function parseCount(value: string): number | null {
+    return value === '-' ? null : parseInt(value, 10);
+}
+
+/**
+ * Parses `git diff-tree` output produced with DIFF_TREE_ARGS.
+ */
+export function parseDiffTree(output: string): FileChange[] {
+    const tokens = output.split('\0');
+    const changes = new Map<string, FileChange>();
+    const counts = new Map<string, { additions: number | null; deletions: number | null }>();
+
+    let i = 0;
+    while (i < tokens.length) {
+        const token = tokens[i];
+        if (!token.trim()) {
+            i++;
+            continue;
+        }
+        if (token.startsWith(':')) {
+            // ":<old mode> <new mode> <old sha> <new sha> <status>" then one path, or two for R/C.
+            const status = token.trim().split(' ').pop() || '';
+            const changeType = status.charAt(0);
+            if (changeType === 'R' || changeType === 'C') {
+                changes.set(tokens[i + 2], { changeType, path: tokens[i + 2], oldPath: tokens[i + 1], additions: null, deletions: null });
+                i += 3;
+            } else {
+                changes.set(tokens[i + 1], { changeType, path: tokens[i + 1], oldPath: null, additions: null, deletions: null });
+                i += 2;
+            }
+        } else {
+            // "<added>\t<deleted>\t<path>", or "<added>\t<deleted>\t" followed by old and new path for renames.
+            const [added, deleted, filePath] = token.split('\t');
+            if (filePath) {
+                counts.set(filePath, { additions: parseCount(added), deletions: parseCount(deleted) });
+                i += 1;
+            } else {
+                counts.set(tokens[i + 2], { additions: parseCount(added), deletions: parseCount(deleted) });
+                i += 3;
+            }
+        }
+    }
+
+    return [...changes.values()].map(change => ({ ...change, ...(counts.get(change.path) || {}) }));
+}
@@ -0,0 +1,214 @@
+// --- FILE: core/commitDiff.ts ---
+import path from 'path';
+import { estimateTokens } from './tokens';
+import { getLanguageForFile } from './languages';
+
+/**
+ * Why a file's changes were left out of the diff shown to the model:
+ * - `lockfile`: dependency lockfiles, which change wholesale on every bump.
+ * - `generated`: build output, bundles, snapshots and files marked as generated.
+ * - `vendored`: third-party code checked into the repository.
+ * - `binary`: no textual diff.
+ * - `over_budget`: relevant, but didn't fit in the token budget.
+ */
+export type OmitReason = 'lockfile' | 'generated' | 'vendored' | 'binary' | 'over_budget';
+
+/**
+ * One file's section of a unified diff.
+ */
+export interface FileDiff {
+    path: string;
+    /** The `diff --git` line and the extended headers (index, mode, rename, ---/+++). */
+    header: string;
+    hunks: string[];
+    binary: boolean;
+    /** Lines added plus lines removed. */
+    changedLines: number;
+}
+
+export interface OmittedFile {
+    path: string;
+    reason: OmitReason;
+}
+
+export interface PreparedDiff {
+    /** The diff to show the model: the most relevant files, whole or cut short. */
+    diff: string;
+    /** Every file worth showing, most relevant first, whether or not it fit. */
+    relevant: FileDiff[];
+    omitted: OmittedFile[];
+    /** Files shown only in part. */
+    truncated: string[];
+    /** Estimated tokens of the relevant files' full diffs. */
+    relevantTokens: number;
+}
+
+const LOCKFILE_NAMES = new Set([
+    'package-lock.json', 'npm-shrinkwrap.json', 'yarn.lock', 'pnpm-lock.yaml', 'bun.lockb',
+    'Cargo.lock', 'Gemfile.lock', 'composer.lock', 'poetry.lock', 'Pipfile.lock', 'uv.lock',
+    'go.sum', 'mix.lock', 'Podfile.lock', 'packages.lock.json', 'flake.lock', 'pubspec.lock',
+]);
+const VENDORED_DIRS = new Set(['vendor', 'node_modules', 'third_party', 'third-party', 'bower_components']);
+const GENERATED_DIRS = new Set(['dist', 'build', 'out', 'coverage', '__snapshots__', '.next', 'target']);
+const GENERATED_FILE_PATTERNS = [/\.min\.(js|css)$/, /\.map$/, /\.snap$/, /\.pb\.go$/, /_pb2(_grpc)?\.py$/, /\.generated\.\w+$/, /\.g\.dart$/];
+// Markers code generators put at the top of their output.
+const GENERATED_MARKER = /@generated|DO NOT EDIT|auto-?generated/i;
+const TEST_PATH = /(^|\/)(tests?|__tests__|spec)\/|\.(test|spec)\.\w+$|_test\.\w+$/;
+const DOC_EXTENSIONS = new Set(['.md', '.mdx', '.rst', '.txt', '.adoc']);
+
+// Below this many tokens of room, a file is omitted rather than shown as a stub.
+const MIN_PARTIAL_TOKENS = 200;
+// Paths listed per omission reason in the prompt.
+const MAX_LISTED_PATHS = 20;
+
+function diffPath(header: string): string {
+    const target = header.match(/^\+\+\+ b\/(.+)$/m) || header.match(/^--- a\/(.+)$/m) || header.match(/^diff --git a\/.+ b\/(.+)$/m);
+    return target ? target[1].trim() : '';
+}
+
+/**
+ * Splits `git show --patch` or `git diff` output into one entry per file. The commit header
+ * `git show` prints before the first file is dropped.
+ */
+export function parseUnifiedDiff(patch: string): FileDiff[] {
+    const files: FileDiff[] = [];
+    for (const section of patch.split(/^(?=diff --git )/m)) {
+        if (!section.startsWith('diff --git ')) continue;
+        const [header, ...hunks] = section.split(/^(?=@@ )/m);
+        const changedLines = hunks.reduce((count, hunk) =>
+            count + hunk.split('\n').filter(line => /^[+-]/.test(line)).length, 0);
+        files.push({
+            path: diffPath(header),
+            header,
+            hunks,
+            binary: /^(Binary files .* differ|GIT binary patch)$/m.test(header),
+            changedLines,
+        });
+    }
+    return files;
+}
+
+function omitReason(file: FileDiff): OmitReason | null {
+    if (file.binary) return 'binary';
+    const segments = file.path.split('/');
+    const basename = segments[segments.length - 1];
+    if (LOCKFILE_NAMES.has(basename) || basename.endsWith('.lock')) return 'lockfile';
+    if (segments.slice(0, -1).some(dir => VENDORED_DIRS.has(dir))) return 'vendored';
+    if (segments.slice(0, -1).some(dir => GENERATED_DIRS.has(dir))) return 'generated';
+    if (GENERATED_FILE_PATTERNS.some(pattern => pattern.test(basename))) return 'generated';
+    const firstLines = (file.hunks[0] || '').split('\n').slice(1, 6).join('\n');
+    if (GENERATED_MARKER.test(firstLines)) return 'generated';
+    return null;
+}
+
+/**
+ * How much a file's changes say about the commit: source code first, then tests, then
+ * configuration and documentation; larger changes before smaller ones of the same kind.
+ */
+function relevance(file: FileDiff): number {
+    const extension = path.posix.extname(file.path).toLowerCase();
+    const kindWeight = TEST_PATH.test(file.path) ? 2
+        : getLanguageForFile(file.path) ? 3
+        : DOC_EXTENSIONS.has(extension) ? 1
+        : 1.5;
+    return kindWeight * Math.log2(2 + file.changedLines);
+}
+
+function fileTokens(file: FileDiff): number {
+    return estimateTokens(file.header + file.hunks.join(''));
+}
+
+/**
+ * Cuts a file's diff down to a token budget: whole hunks while they fit, then whole lines
+ * of the next hunk.
+ * @returns The shortened diff, and whether anything was cut.
+ */
+export function truncateFileDiff(file: FileDiff, maxTokens: number): { text: string; truncated: boolean } {
+    let text = file.header;
+    for (const hunk of file.hunks) {
+        if (estimateTokens(text + hunk) <= maxTokens) {
+            text += hunk;
+            continue;
+        }
+        for (const line of hunk.split('\n')) {
+            if (estimateTokens(`${text}${line}\n`) > maxTokens) break;
+            text += `${line}\n`;
+        }
+        return { text: `${text}... (diff of ${file.path} truncated)\n`, truncated: true };
+    }
+    return { text, truncated: false };
+}
+
+/**
+ * Prepares a commit's patch for the model: drops lockfiles, generated, vendored and binary
+ * files, ranks the rest by relevance and keeps as many as fit in `maxTokens`.
+ */
+export function prepareCommitDiff(patch: string, maxTokens: number): PreparedDiff {
+    const omitted: OmittedFile[] = [];
+    const relevant: FileDiff[] = [];
+    for (const file of parseUnifiedDiff(patch)) {
+        const reason = omitReason(file);
+        if (reason) {
+            omitted.push({ path: file.path, reason });
+        } else {
+            relevant.push(file);
+        }
+    }
+    relevant.sort((a, b) => relevance(b) - relevance(a) || a.path.localeCompare(b.path));
+
+    // Whole files first, in order of relevance; the room left goes to the start of files that didn't fit.
+    let remaining = maxTokens;
+    const shown = new Map<FileDiff, string>();
+    for (const file of relevant) {
+        if (fileTokens(file) <= remaining) {
+            shown.set(file, file.header + file.hunks.join(''));
+            remaining -= fileTokens(file);
+        }
+    }
+    const truncated: string[] = [];
+    for (const file of relevant) {
+        if (shown.has(file)) continue;
+        if (remaining >= MIN_PARTIAL_TOKENS) {
+            const partial = truncateFileDiff(file, remaining);
+            shown.set(file, partial.text);
+            remaining -= estimateTokens(partial.text);
+            truncated.push(file.path);
+        } else {
+            omitted.push({ path: file.path, reason: 'over_budget' });
+        }
+    }
+    const diff = relevant.filter(file => shown.has(file)).map(file => shown.get(file)!).join('');
+
+    return {
+        diff,
+        relevant,
+        omitted,
+        truncated,
+        relevantTokens: relevant.reduce((sum, file) => sum + fileTokens(file), 0),
+    };
+}
+
+/**
+ * Describes what was left out of a prepared diff, one line per reason, for the prompt.
+ */
+export function describeOmissions(omitted: OmittedFile[], truncated: string[] = []): string[] {
+    const byReason = new Map<string, string[]>();
+    omitted.forEach(file => byReason.set(file.reason, [...(byReason.get(file.reason) || []), file.path]));
+    if (truncated.length > 0) {
+        byReason.set('truncated', truncated);
+    }
+
+    const labels: Record<string, string> = {
+        lockfile: 'Lockfiles (not shown)',
+        generated: 'Generated files (not shown)',
+        vendored: 'Vendored third-party files (not shown)',
+        binary: 'Binary files (not shown)',
+        over_budget: 'Files left out to fit the size limit',
+        truncated: 'Files shown only in part',
+    };
+    return [...byReason.entries()].map(([reason, paths]) => {
+        const listed = paths.slice(0, MAX_LISTED_PATHS).join(', ');
+        const more = paths.length > MAX_LISTED_PATHS ? ` and ${paths.length - MAX_LISTED_PATHS} more` : '';
+        return `${labels[reason]}: ${listed}${more}`;
+    });
+}
@@ -0,0 +1,92 @@
+// src/core/contentSniffer.ts
+import path from 'path';
+
+/**
+ * Why a file was left out of the index:
+ * - `too_large`: over the project's max file size.
+ * - `binary`: contains NUL bytes or mostly control characters.
+ * - `invalid_encoding`: not valid UTF-8.
+ * - `minified`: very long lines, typical of bundles and generated code.
+ * - `data_dump`: a large data file (JSON, SQL, CSV...) rather than source code.
+ */
+export type SkipReason = 'too_large' | 'binary' | 'invalid_encoding' | 'minified' | 'data_dump';
+
+export interface SkippedFile {
+    path: string;
+    reason: SkipReason;
+    detail: string;
+    sizeBytes: number;
+}
+
+export type SniffResult = { skip: false } | { skip: true; reason: SkipReason; detail: string };
+
+// Git treats a NUL byte in the first 8000 bytes as the mark of a binary file.
+const BINARY_SNIFF_BYTES = 8000;
+const MAX_CONTROL_CHAR_RATIO = 0.1;
+const MINIFIED_AVG_LINE_LENGTH = 300;
+const MINIFIED_MAX_LINE_LENGTH = 5000;
+const MINIFIED_MIN_SIZE_BYTES = 1024;
+const DATA_FILE_EXTENSIONS = new Set(['.json', '.jsonl', '.ndjson', '.sql', '.csv', '.tsv', '.xml', '.geojson']);
+const MAX_DATA_FILE_SIZE_BYTES = parseInt(process.env.MAX_DATA_FILE_SIZE_BYTES || '102400', 10);
+
+function isBinary(buffer: Buffer): string | null {
+    const sample = buffer.subarray(0, BINARY_SNIFF_BYTES);
+    if (sample.includes(0)) {
+        return 'contains NUL bytes';
+    }
+    let controlChars = 0;
+    for (const byte of sample) {
+        // Tab, LF, FF and CR are normal in text.
+        if (byte < 32 && byte !== 9 && byte !== 10 && byte !== 12 && byte !== 13) {
+            controlChars++;
+        }
+    }
+    if (sample.length > 0 && controlChars / sample.length > MAX_CONTROL_CHAR_RATIO) {
+        return `${Math.round((controlChars / sample.length) * 100)}% control characters`;
+    }
+    return null;
+}
+
+function isMinified(content: string): string | null {
+    if (content.length < MINIFIED_MIN_SIZE_BYTES) {
+        return null;
+    }
+    const lines = content.split('\n');
+    const longestLine = lines.reduce((max, line) => Math.max(max, line.length), 0);
+    const averageLine = content.length / lines.length;
+    if (averageLine > MINIFIED_AVG_LINE_LENGTH) {
+        return `average line length ${Math.round(averageLine)}`;
+    }
+    if (longestLine > MINIFIED_MAX_LINE_LENGTH && longestLine > content.length / 2) {
+        return `single line of ${longestLine} characters`;
+    }
+    return null;
+}
+
+/**
+ * Inspects a file's raw bytes to decide whether it is worth summarizing and embedding.
+ * Checks are ordered from cheapest to most expensive.
+ */
+export function sniffContent(buffer: Buffer, filePath: string): SniffResult {
+    if (DATA_FILE_EXTENSIONS.has(path.extname(filePath).toLowerCase()) && buffer.length > MAX_DATA_FILE_SIZE_BYTES) {
+        return { skip: true, reason: 'data_dump', detail: `${path.extname(filePath)} file over ${MAX_DATA_FILE_SIZE_BYTES} bytes` };
+    }
+
+    const binary = isBinary(buffer);
+    if (binary) {
+        return { skip: true, reason: 'binary', detail: binary };
+    }
+
+    let content: string;
+    try {
+        content = new TextDecoder('utf-8', { fatal: true }).decode(buffer);
+    } catch (error) {
+        return { skip: true, reason: 'invalid_encoding', detail: 'not valid UTF-8' };
+    }
+
+    const minified = isMinified(content);
+    if (minified) {
+        return { skip: true, reason: 'minified', detail: minified };
+    }
+    return { skip: false };
+}
@@ -0,0 +1,128 @@
+// src/core/fileSelector.ts
+import { glob } from 'glob';
+import fs from 'fs';
+import path from 'path';
+import ignore, { Ignore } from 'ignore';
+import { IndexSettings } from './indexSettings';
+import { SkippedFile } from './contentSniffer';
+
+// Generated output, dependencies, fixtures and lockfiles rarely say anything about the code.
+const DEFAULT_EXCLUDE_GLOBS = [
+    '**/.git/**',
+    '**/node_modules/**',
+    '**/dist/**',
+    '**/build/**',
+    '**/out/**',
+    '**/coverage/**',
+    '**/vendor/**',
+    '**/__snapshots__/**',
+    '**/__fixtures__/**',
+    '**/fixtures/**',
+    '**/*.min.js',
+    '**/*.map',
+];
+const IGNORED_EXTENSIONS = new Set(['.lock', '.svg', '.png', '.jpg', '.jpeg', '.gif', '.ico']);
+const IGNORED_FILENAMES = new Set(['package-lock.json', 'yarn.lock', 'pnpm-lock.yaml']);
+// Both are honored at every directory level; .brainignore excludes files from indexing only.
+const IGNORE_FILE_NAMES = ['.gitignore', '.brainignore'];
+
+export interface FileSelection {
+    /** Paths relative to the repository root, sorted. */
+    files: string[];
+    ignoredCount: number;
+    /** Files over the size limit; recorded so users can see what was left out. */
+    oversized: SkippedFile[];
+}
+
+interface IgnoreScope {
+    /** Directory of the ignore file, relative to the repository root ('' for the root). */
+    dir: string;
+    rules: Ignore;
+}
+
+/**
+ * Loads every .gitignore/.brainignore that can affect files under `rootDir`: those inside it
+ * and those in its ancestor directories.
+ */
+async function loadIgnoreScopes(repoPath: string, rootDir: string): Promise<IgnoreScope[]> {
+    const nested = await glob(IGNORE_FILE_NAMES.map(name => `**/${name}`), {
+        cwd: path.join(repoPath, rootDir),
+        dot: true,
+        nodir: true,
+        ignore: ['**/node_modules/**', '**/.git/**'],
+        posix: true,
+    });
+    const ignoreFiles = nested.map(file => path.posix.join(rootDir, file));
+
+    const segments = rootDir ? rootDir.split('/') : [];
+    for (let depth = 0; depth < segments.length; depth++) {
+        const ancestor = segments.slice(0, depth).join('/');
+        for (const name of IGNORE_FILE_NAMES) {
+            const candidate = ancestor ? `${ancestor}/${name}` : name;
+            if (fs.existsSync(path.join(repoPath, candidate))) {
+                ignoreFiles.push(candidate);
+            }
+        }
+    }
+
+    const scopes = new Map<string, Ignore>();
+    for (const file of ignoreFiles) {
+        const dir = path.posix.dirname(file) === '.' ? '' : path.posix.dirname(file);
+        const rules = scopes.get(dir) || ignore();
+        rules.add(fs.readFileSync(path.join(repoPath, file), 'utf8'));
+        scopes.set(dir, rules);
+    }
+    return [...scopes.entries()].map(([dir, rules]) => ({ dir, rules }));
+}
+
+function isIgnored(filePath: string, scopes: IgnoreScope[]): boolean {
+    return scopes.some(({ dir, rules }) => {
+        if (dir && !filePath.startsWith(dir + '/')) {
+            return false;
+        }
+        return rules.ignores(dir ? filePath.substring(dir.length + 1) : filePath);
+    });
+}
+
+/**
+ * Lists the files of a repository that a project should index, applying its root directory,
+ * include/exclude globs, size limit, the built-in excludes and every applicable ignore file.
+ * @throws {Error} if the configured root directory doesn't exist.
+ */
+export async function selectFilesToIndex(repoPath: string, settings: IndexSettings): Promise<FileSelection> {
+    const rootDir = settings.rootDir || '';
+    const walkRoot = path.join(repoPath, rootDir);
+    if (!fs.existsSync(walkRoot) || !fs.statSync(walkRoot).isDirectory()) {
+        throw new Error(`Index root directory "${rootDir}" does not exist in the repository.`);
+    }
+
+    const candidates = await glob(settings.include.length > 0 ? settings.include : '**/*', {
+        cwd: walkRoot,
+        nodir: true,
+        dot: true,
+        posix: true,
+        ignore: [...DEFAULT_EXCLUDE_GLOBS, ...settings.exclude],
+    });
+    const scopes = await loadIgnoreScopes(repoPath, rootDir);
+
+    const files: string[] = [];
+    const oversized: SkippedFile[] = [];
+    let ignoredCount = 0;
+    for (const candidate of candidates) {
+        const filePath = rootDir ? `${rootDir}/${candidate}` : candidate;
+        const filename = path.posix.basename(filePath);
+        if (IGNORED_EXTENSIONS.has(path.posix.extname(filePath)) || IGNORED_FILENAMES.has(filename) || isIgnored(filePath, scopes)) {
+            ignoredCount++;
+            continue;
+        }
+        const sizeBytes = fs.statSync(path.join(repoPath, filePath)).size;
+        if (sizeBytes > settings.maxFileSizeBytes) {
+            oversized.push({ path: filePath, reason: 'too_large', detail: `over ${settings.maxFileSizeBytes} bytes`, sizeBytes });
+            continue;
+        }
+        files.push(filePath);
+    }
+    // A stable order lets an interrupted run resume after the last completed file.
+    files.sort();
+    return { files, ignoredCount, oversized };
+}
@@ -0,0 +1,144 @@
+// src/core/indexSettings.ts
+import path from 'path';
+
+/**
+ * Per-project controls over which files get indexed. Several projects can share one
+ * repository by pointing at different root directories.
+ */
+export interface IndexSettings {
+    /** Directory inside the repository to index, relative to its root. null = whole repository. */
+    rootDir: string | null;
+    /** Globs (relative to rootDir) a file must match to be indexed. Empty = all files. */
+    include: string[];
+    /** Globs (relative to rootDir) that are never indexed, on top of the built-in excludes. */
+    exclude: string[];
+    /** Files larger than this are skipped. */
+    maxFileSizeBytes: number;
+    /** Branches and tags indexed besides the default branch. `*` matches anything, e.g. `release/*`. */
+    trackedRefs: string[];
+    /** Keep every version of the default branch's code chunks, so questions can target a past commit. */
+    keepHistory: boolean;
+}
+
+export const DEFAULT_MAX_FILE_SIZE_BYTES = parseInt(process.env.MAX_INDEX_FILE_SIZE_BYTES || '524288', 10);
+
+export class InvalidIndexSettingsError extends Error {
+    constructor(message: string) {
+        super(message);
+        this.name = 'InvalidIndexSettingsError';
+    }
+}
+
+/**
+ * Normalizes a root directory to a POSIX path relative to the repository root.
+ * @throws {InvalidIndexSettingsError} if it is absolute or escapes the repository.
+ */
+export function normalizeRootDir(rootDir: unknown): string | null {
+    if (rootDir === undefined || rootDir === null || rootDir === '') {
+        return null;
+    }
+    if (typeof rootDir !== 'string') {
+        throw new InvalidIndexSettingsError('rootDir must be a string.');
+    }
+    const normalized = path.posix.normalize(rootDir.trim().replace(/\\/g, '/')).replace(/\/+$/, '');
+    if (path.posix.isAbsolute(normalized) || normalized === '..' || normalized.startsWith('../')) {
+        throw new InvalidIndexSettingsError('rootDir must be a path inside the repository.');
+    }
+    return normalized === '.' || normalized === '' ? null : normalized;
+}
+
+/**
+ * Multipart form fields arrive as strings, so a list may also be sent as a JSON array
+ * (`["src/**"]`) or a comma-separated list (`src/**,lib/**`).
+ */
+function parseListField(value: unknown): unknown {
+    if (typeof value !== 'string') {
+        return value;
+    }
+    if (value.trim().startsWith('[')) {
+        try {
+            return JSON.parse(value);
+        } catch (error) {
+            return value;
+        }
+    }
+    return value.split(',').map(item => item.trim()).filter(Boolean);
+}
+
+function parseGlobList(input: unknown, field: string): string[] {
+    if (input === undefined || input === null) {
+        return [];
+    }
+    const value = parseListField(input);
+    if (!Array.isArray(value) || value.some(glob => typeof glob !== 'string' || !glob.trim())) {
+        throw new InvalidIndexSettingsError(`${field} must be an array of glob strings.`);
+    }
+    return value.map(glob => glob.trim());
+}
+
+function parseTrackedRefs(value: unknown): string[] {
+    if (value === undefined || value === null) {
+        return [];
+    }
+    // Roughly git's ref name rules, plus `*` for patterns.
+    const isValidRef = (ref: unknown) => typeof ref === 'string'
+        && /^[A-Za-z0-9._\/*-]+$/.test(ref) && !ref.startsWith('-') && !ref.includes('..') && ref !== 'HEAD';
+    if (!Array.isArray(value) || !value.every(isValidRef)) {
+        throw new InvalidIndexSettingsError('trackedRefs must be an array of branch or tag names (e.g. "release/*", "v2.3.0").');
+    }
+    return [...new Set(value as string[])];
+}
+
+/**
+ * Checks a branch or tag name against tracked ref names or patterns (`*` matches anything).
+ */
+export function matchesTrackedRef(name: string, patterns: string[]): boolean {
+    return patterns.some(pattern => {
+        const escaped = pattern.replace(/[.+?^${}()|[\]\\]/g, '\\$&').replace(/\*/g, '.*');
+        return new RegExp(`^${escaped}$`).test(name);
+    });
+}
+
+/**
+ * Validates index settings from an API payload. Missing fields keep their value in `current`,
+ * or get their defaults when there is none; `null` resets a field to its default.
+ * @param current The project's stored settings, for partial updates.
+ * @throws {InvalidIndexSettingsError} if any field is malformed.
+ */
+export function parseIndexSettings(input: any, current: IndexSettings | null = null): IndexSettings {
+    const given = (field: keyof IndexSettings) => input?.[field] !== undefined;
+    // Multipart form fields arrive as strings.
+    const maxFileSizeBytes = Number(given('maxFileSizeBytes') || !current
+        ? input?.maxFileSizeBytes ?? DEFAULT_MAX_FILE_SIZE_BYTES
+        : current.maxFileSizeBytes);
+    if (!Number.isInteger(maxFileSizeBytes) || maxFileSizeBytes <= 0) {
+        throw new InvalidIndexSettingsError('maxFileSizeBytes must be a positive integer.');
+    }
+    // Multipart form fields arrive as strings here too.
+    const keepHistory = given('keepHistory') || !current ? input?.keepHistory ?? false : current.keepHistory;
+    if (![true, false, 'true', 'false'].includes(keepHistory)) {
+        throw new InvalidIndexSettingsError('keepHistory must be a boolean.');
+    }
+    return {
+        rootDir: given('rootDir') || !current ? normalizeRootDir(input?.rootDir) : current.rootDir,
+        include: given('include') || !current ? parseGlobList(input?.include, 'include') : current.include,
+        exclude: given('exclude') || !current ? parseGlobList(input?.exclude, 'exclude') : current.exclude,
+        maxFileSizeBytes,
+        trackedRefs: given('trackedRefs') || !current ? parseTrackedRefs(input?.trackedRefs) : current.trackedRefs,
+        keepHistory: keepHistory === true || keepHistory === 'true',
+    };
+}
+
+/**
+ * Maps the index settings columns of a projects row to IndexSettings.
+ */
+export function indexSettingsFromRow(row: any): IndexSettings {
+    return {
+        rootDir: row?.index_root || null,
+        include: row?.include_globs || [],
+        exclude: row?.exclude_globs || [],
+        maxFileSizeBytes: row?.max_file_size_bytes || DEFAULT_MAX_FILE_SIZE_BYTES,
+        trackedRefs: row?.tracked_refs || [],
+        keepHistory: row?.keep_history || false,
+    };
+}
@@ -0,0 +1,239 @@
+// --- FILE: core/languages.ts ---
+import path from 'path';
+import TypeScript from 'tree-sitter-typescript/typescript';
+import TSX from 'tree-sitter-typescript/tsx';
+import JavaScript from 'tree-sitter-javascript';
+import Python from 'tree-sitter-python';
+import Go from 'tree-sitter-go';
+import Java from 'tree-sitter-java';
+import Rust from 'tree-sitter-rust';
+
+/**
+ * Describes how to chunk source files of one language.
+ * The capture names used in `query` become the chunk type (e.g. `@method` -> 'method').
+ * `symbolQuery` feeds the symbol graph (see symbols.ts): `@definition.<kind>` with its `@name`,
+ * `@import` with its module `@source`, and `@reference` for call sites.
+ */
+export interface LanguageSpec {
+  name: string;
+  grammar: any;
+  query: string;
+  symbolQuery: string;
+}
+
+// The TypeScript query is shared by the .ts and .tsx grammars.
+const TS_QUERY = `
+[
+  (function_declaration) @function
+  (generator_function_declaration) @function
+  (class_declaration) @class
+  (abstract_class_declaration) @class
+  (method_definition) @method
+  (interface_declaration) @interface
+  (type_alias_declaration) @type
+  (enum_declaration) @enum
+  (lexical_declaration 
+    (variable_declarator 
+      value: (arrow_function)
+    )
+  ) @arrow_function
+  (lexical_declaration
+    (variable_declarator
+      value: (function_expression)
+    )
+  ) @function
+  (lexical_declaration
+    (variable_declarator
+      value: (generator_function)
+    )
+  ) @function
+  (export_statement
+    declaration: (lexical_declaration (variable_declarator value: (object)))
+  ) @object
+  (export_statement value: (_)) @export
+]
+`;
+
+const JS_QUERY = `
+[
+  (function_declaration) @function
+  (generator_function_declaration) @function
+  (class_declaration) @class
+  (method_definition) @method
+  (lexical_declaration
+    (variable_declarator
+      value: (arrow_function)
+    )
+  ) @arrow_function
+  (lexical_declaration
+    (variable_declarator
+      value: (function_expression)
+    )
+  ) @function
+  (lexical_declaration
+    (variable_declarator
+      value: (generator_function)
+    )
+  ) @function
+  (export_statement
+    declaration: (lexical_declaration (variable_declarator value: (object)))
+  ) @object
+  (export_statement value: (_)) @export
+  (expression_statement
+    (assignment_expression
+      left: (member_expression object: (identifier) @_module property: (property_identifier) @_exports)
+      right: (object))
+    (#eq? @_module "module")
+    (#eq? @_exports "exports")
+  ) @object
+]
+`;
+
+// Python has no separate method node, so methods are matched by their position inside a class body.
+const PYTHON_QUERY = `
+(module (function_definition) @function)
+(module (decorated_definition definition: (function_definition)) @function)
+(class_definition) @class
+(class_definition body: (block (function_definition) @method))
+(class_definition body: (block (decorated_definition definition: (function_definition)) @method))
+`;
+
+const GO_QUERY = `
+(function_declaration) @function
+(method_declaration) @method
+(type_declaration (type_spec type: (struct_type))) @struct
+(type_declaration (type_spec type: (interface_type))) @interface
+`;
+
+const JAVA_QUERY = `
+[
+  (class_declaration) @class
+  (record_declaration) @class
+  (interface_declaration) @interface
+  (enum_declaration) @enum
+  (method_declaration) @method
+  (constructor_declaration) @method
+]
+`;
+
+const RUST_QUERY = `
+(source_file (function_item) @function)
+(mod_item body: (declaration_list (function_item) @function))
+(struct_item) @struct
+(enum_item) @enum
+(trait_item) @trait
+(impl_item) @impl
+(impl_item body: (declaration_list (function_item) @method))
+`;
+
+const TS_SYMBOL_QUERY = `
+(function_declaration name: (identifier) @name) @definition.function
+(generator_function_declaration name: (identifier) @name) @definition.function
+(class_declaration name: (type_identifier) @name) @definition.class
+(abstract_class_declaration name: (type_identifier) @name) @definition.class
+(interface_declaration name: (type_identifier) @name) @definition.interface
+(type_alias_declaration name: (type_identifier) @name) @definition.type
+(enum_declaration name: (identifier) @name) @definition.enum
+(method_definition name: (property_identifier) @name) @definition.method
+(program (lexical_declaration (variable_declarator name: (identifier) @name)) @definition.variable)
+(program (export_statement declaration: (lexical_declaration (variable_declarator name: (identifier) @name)) @definition.variable))
+(import_statement source: (string (string_fragment) @source)) @import
+(export_statement source: (string (string_fragment) @source)) @import
+(call_expression function: (identifier) @_require arguments: (arguments (string (string_fragment) @source)) (#eq? @_require "require")) @import
+(call_expression function: (identifier) @reference)
+(call_expression function: (member_expression property: (property_identifier) @reference))
+(new_expression constructor: (identifier) @reference)
+`;
+
+const JS_SYMBOL_QUERY = `
+(function_declaration name: (identifier) @name) @definition.function
+(generator_function_declaration name: (identifier) @name) @definition.function
+(class_declaration name: (identifier) @name) @definition.class
+(method_definition name: (property_identifier) @name) @definition.method
+(program (lexical_declaration (variable_declarator name: (identifier) @name)) @definition.variable)
+(program (export_statement declaration: (lexical_declaration (variable_declarator name: (identifier) @name)) @definition.variable))
+(import_statement source: (string (string_fragment) @source)) @import
+(export_statement source: (string (string_fragment) @source)) @import
+(call_expression function: (identifier) @_require arguments: (arguments (string (string_fragment) @source)) (#eq? @_require "require")) @import
+(call_expression function: (identifier) @reference)
+(call_expression function: (member_expression property: (property_identifier) @reference))
+(new_expression constructor: (identifier) @reference)
+`;
+
+const PYTHON_SYMBOL_QUERY = `
+(function_definition name: (identifier) @name) @definition.function
+(class_definition name: (identifier) @name) @definition.class
+(module (expression_statement (assignment left: (identifier) @name)) @definition.variable)
+(import_statement name: (dotted_name) @source) @import
+(import_statement name: (aliased_import name: (dotted_name) @source)) @import
+(import_from_statement module_name: (_) @source) @import
+(call function: (identifier) @reference)
+(call function: (attribute attribute: (identifier) @reference))
+`;
+
+const GO_SYMBOL_QUERY = `
+(function_declaration name: (identifier) @name) @definition.function
+(method_declaration name: (field_identifier) @name) @definition.method
+(type_spec name: (type_identifier) @name) @definition.type
+(import_spec path: (interpreted_string_literal) @source) @import
+(call_expression function: (identifier) @reference)
+(call_expression function: (selector_expression field: (field_identifier) @reference))
+`;
+
+const JAVA_SYMBOL_QUERY = `
+(class_declaration name: (identifier) @name) @definition.class
+(record_declaration name: (identifier) @name) @definition.class
+(interface_declaration name: (identifier) @name) @definition.interface
+(enum_declaration name: (identifier) @name) @definition.enum
+(method_declaration name: (identifier) @name) @definition.method
+(constructor_declaration name: (identifier) @name) @definition.method
+(import_declaration (scoped_identifier) @source) @import
+(method_invocation name: (identifier) @reference)
+(object_creation_expression type: (type_identifier) @reference)
+`;
+
+const RUST_SYMBOL_QUERY = `
+(function_item name: (identifier) @name) @definition.function
+(struct_item name: (type_identifier) @name) @definition.struct
+(enum_item name: (type_identifier) @name) @definition.enum
+(trait_item name: (type_identifier) @name) @definition.trait
+(use_declaration argument: (_) @source) @import
+(call_expression function: (identifier) @reference)
+(call_expression function: (field_expression field: (field_identifier) @reference))
+(call_expression function: (scoped_identifier name: (identifier) @reference))
+`;
+
+const TYPESCRIPT: LanguageSpec = { name: 'typescript', grammar: TypeScript, query: TS_QUERY, symbolQuery: TS_SYMBOL_QUERY };
+const TYPESCRIPT_JSX: LanguageSpec = { name: 'tsx', grammar: TSX, query: TS_QUERY, symbolQuery: TS_SYMBOL_QUERY };
+const JAVASCRIPT: LanguageSpec = { name: 'javascript', grammar: JavaScript, query: JS_QUERY, symbolQuery: JS_SYMBOL_QUERY };
+const PYTHON: LanguageSpec = { name: 'python', grammar: Python, query: PYTHON_QUERY, symbolQuery: PYTHON_SYMBOL_QUERY };
+const GO: LanguageSpec = { name: 'go', grammar: Go, query: GO_QUERY, symbolQuery: GO_SYMBOL_QUERY };
+const JAVA: LanguageSpec = { name: 'java', grammar: Java, query: JAVA_QUERY, symbolQuery: JAVA_SYMBOL_QUERY };
+const RUST: LanguageSpec = { name: 'rust', grammar: Rust, query: RUST_QUERY, symbolQuery: RUST_SYMBOL_QUERY };
+
+// The language registry, keyed by lower-case file extension.
+const LANGUAGES_BY_EXTENSION: Record<string, LanguageSpec> = {
+  '.ts': TYPESCRIPT,
+  '.mts': TYPESCRIPT,
+  '.cts': TYPESCRIPT,
+  '.tsx': TYPESCRIPT_JSX,
+  '.js': JAVASCRIPT,
+  '.jsx': JAVASCRIPT,
+  '.mjs': JAVASCRIPT,
+  '.cjs': JAVASCRIPT,
+  '.py': PYTHON,
+  '.pyi': PYTHON,
+  '.go': GO,
+  '.java': JAVA,
+  '.rs': RUST,
+};
+
+/**
+ * Looks up the language spec for a file based on its extension.
+ * @param filePath The path (or file name) of the source file.
+ * @returns The matching language spec, or null if the language is not supported.
+ */
+export function getLanguageForFile(filePath: string): LanguageSpec | null {
+  const extension = path.extname(filePath).toLowerCase();
+  return LANGUAGES_BY_EXTENSION[extension] || null;
+}
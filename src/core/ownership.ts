@@ -0,0 +1,161 @@
+// --- FILE: core/ownership.ts ---
+
+/**
+ * Who last changed one line of a file, from `git blame --line-porcelain`.
+ */
+export interface BlameLine {
+    /** 1-based line number in the current file. */
+    line: number;
+    authorName: string;
+    authorEmail: string;
+    authoredAt: Date;
+}
+
+/**
+ * One author's share of a chunk.
+ */
+export interface ChunkAuthor {
+    authorName: string;
+    authorEmail: string;
+    lineCount: number;
+    /** Fraction of the chunk's lines written by this author, 0..1. */
+    share: number;
+    lastTouchedAt: Date;
+}
+
+/**
+ * An author's share of a chunk that matched a query, as input to rankExperts.
+ */
+export interface OwnershipMatch extends ChunkAuthor {
+    path: string;
+    /** How well the chunk matches the query, 0..1. */
+    relevance: number;
+}
+
+export interface Expert {
+    name: string;
+    email: string;
+    score: number;
+    /** Lines written by this person across the matched chunks. */
+    lines: number;
+    lastTouchedAt: Date;
+    /** Matched files this person owns most of, best first. */
+    files: string[];
+}
+
+// Lines changed in the working tree but not committed are attributed to this pseudo-author.
+const UNCOMMITTED_EMAIL = 'not.committed.yet';
+
+export const OWNERSHIP_HALF_LIFE_DAYS = parseInt(process.env.OWNERSHIP_HALF_LIFE_DAYS || '180', 10);
+
+/**
+ * Arguments for `git blame` that produce the output parseBlamePorcelain expects.
+ */
+export const BLAME_ARGS = ['blame', '--line-porcelain', '-w'];
+
+/**
+ * Parses `git blame --line-porcelain` output. Uncommitted lines are left out.
+ */
+export function parseBlamePorcelain(output: string): BlameLine[] {
+    const lines: BlameLine[] = [];
+    let current: Partial<BlameLine> = {};
+    for (const row of output.split('\n')) {
+        if (row.startsWith('\t')) {
+            // The line's content ends each record.
+            if (current.line && current.authorEmail !== UNCOMMITTED_EMAIL) {
+                lines.push(current as BlameLine);
+            }
+            current = {};
+            continue;
+        }
+        const space = row.indexOf(' ');
+        const key = space === -1 ? row : row.substring(0, space);
+        const value = space === -1 ? '' : row.substring(space + 1);
+        if (/^[0-9a-f]{40}$/.test(key)) {
+            // "<sha> <original line> <final line> [<group size>]"
+            current.line = parseInt(value.split(' ')[1], 10);
+        } else if (key === 'author') {
+            current.authorName = value;
+        } else if (key === 'author-mail') {
+            current.authorEmail = value.replace(/^<|>$/g, '').toLowerCase();
+        } else if (key === 'author-time') {
+            current.authoredAt = new Date(parseInt(value, 10) * 1000);
+        }
+    }
+    return lines;
+}
+
+/**
+ * Splits a chunk's lines (inclusive, 1-based) among their authors, largest share first.
+ */
+export function summarizeChunkAuthors(blame: BlameLine[], startLine: number, endLine: number): ChunkAuthor[] {
+    const chunkLines = blame.filter(l => l.line >= startLine && l.line <= endLine);
+    const byAuthor = new Map<string, ChunkAuthor>();
+    for (const line of chunkLines) {
+        const author = byAuthor.get(line.authorEmail);
+        if (!author) {
+            byAuthor.set(line.authorEmail, {
+                authorName: line.authorName,
+                authorEmail: line.authorEmail,
+                lineCount: 1,
+                share: 0,
+                lastTouchedAt: line.authoredAt,
+            });
+        } else {
+            author.lineCount++;
+            if (line.authoredAt > author.lastTouchedAt) {
+                author.lastTouchedAt = line.authoredAt;
+            }
+        }
+    }
+    const authors = [...byAuthor.values()];
+    authors.forEach(a => a.share = a.lineCount / chunkLines.length);
+    return authors.sort((a, b) => b.lineCount - a.lineCount);
+}
+
+/**
+ * Halves an author's weight for every OWNERSHIP_HALF_LIFE_DAYS since they last touched the code.
+ */
+export function recencyWeight(lastTouchedAt: Date, now: Date = new Date()): number {
+    const ageDays = Math.max(0, (now.getTime() - lastTouchedAt.getTime()) / 86400000);
+    return Math.pow(0.5, ageDays / OWNERSHIP_HALF_LIFE_DAYS);
+}
+
+/**
+ * Ranks people by how much of the matched code they own, weighted by how well each chunk
+ * matches and how recently they touched it.
+ */
+export function rankExperts(matches: OwnershipMatch[], limit: number, now: Date = new Date()): Expert[] {
+    const experts = new Map<string, Expert & { fileScores: Map<string, number> }>();
+    for (const match of matches) {
+        const score = match.share * match.relevance * recencyWeight(match.lastTouchedAt, now);
+        let expert = experts.get(match.authorEmail);
+        if (!expert) {
+            expert = {
+                name: match.authorName,
+                email: match.authorEmail,
+                score: 0,
+                lines: 0,
+                lastTouchedAt: match.lastTouchedAt,
+                files: [],
+                fileScores: new Map(),
+            };
+            experts.set(match.authorEmail, expert);
+        }
+        expert.score += score;
+        expert.lines += match.lineCount;
+        if (match.lastTouchedAt > expert.lastTouchedAt) {
+            expert.lastTouchedAt = match.lastTouchedAt;
+        }
+        expert.fileScores.set(match.path, (expert.fileScores.get(match.path) || 0) + score);
+    }
+
+    return [...experts.values()]
+        .sort((a, b) => b.score - a.score)
+        .slice(0, limit)
+        .map(({ fileScores, ...expert }) => ({
+            ...expert,
+            score: Math.round(expert.score * 1000) / 1000,
+            files: [...fileScores.entries()].sort((a, b) => b[1] - a[1]).slice(0, 5).map(([path]) => path),
+        }));
+}
@@ -0,0 +1,55 @@
+// src/core/pricing.ts
+
+/**
+ * USD price per one million tokens. Embedding models only have an input price.
+ */
+export interface ModelPrice {
+    input: number;
+    output: number;
+}
+
+// List prices at the time of writing. Override or extend them with MODEL_PRICES, e.g.
+// MODEL_PRICES='{"gpt-4o":{"input":2.5,"output":10},"my-local-model":{"input":0,"output":0}}'
+const DEFAULT_PRICES: Record<string, ModelPrice> = {
+    'gpt-4o': { input: 2.5, output: 10 },
+    'gpt-4o-mini': { input: 0.15, output: 0.6 },
+    'gpt-4.1': { input: 2, output: 8 },
+    'gpt-4.1-mini': { input: 0.4, output: 1.6 },
+    'gpt-4.1-nano': { input: 0.1, output: 0.4 },
+    'text-embedding-3-small': { input: 0.02, output: 0 },
+    'text-embedding-3-large': { input: 0.13, output: 0 },
+    'text-embedding-ada-002': { input: 0.1, output: 0 },
+};
+
+let priceTable: Record<string, ModelPrice> | null = null;
+
+function getPriceTable(): Record<string, ModelPrice> {
+    if (!priceTable) {
+        let overrides: Record<string, ModelPrice> = {};
+        if (process.env.MODEL_PRICES) {
+            try {
+                overrides = JSON.parse(process.env.MODEL_PRICES);
+            } catch (error) {
+                throw new Error(`MODEL_PRICES is not valid JSON: ${error instanceof Error ? error.message : String(error)}`);
+            }
+        }
+        priceTable = { ...DEFAULT_PRICES, ...overrides };
+    }
+    return priceTable;
+}
+
+export function getModelPrice(model: string): ModelPrice | null {
+    return getPriceTable()[model] || null;
+}
+
+/**
+ * Prices a number of tokens for a model.
+ * @returns The cost in USD, or null if the model has no known price.
+ */
+export function estimateCost(model: string, inputTokens: number, outputTokens: number = 0): number | null {
+    const price = getModelPrice(model);
+    if (!price) {
+        return null;
+    }
+    return (inputTokens * price.input + outputTokens * price.output) / 1_000_000;
+}
@@ -0,0 +1,22 @@
+// --- FILE: core/prompts/commitDigest.prompt.ts ---
+import { CommitChanges, formatCommitChanges } from './taskGeneration.prompt';
+
+/**
+ * Generates the prompt for a commit digest: a short description of what a commit changed,
+ * written from its diff so that vague messages ("wip", "fix stuff") still get a useful embedding.
+ * @param commitMessage The message from the git commit.
+ * @param changes The commit's diff, already cut to the token budget, and what was left out.
+ * @returns A formatted string ready to be sent to the OpenAI API.
+ */
+export function generateCommitDigestPrompt(commitMessage: string, changes: CommitChanges): string {
+    return `Describe what the following git commit changes, in two or three plain sentences. Name the features, modules, functions or behaviors affected and why, as far as the diff shows it. Don't trust the commit message when the diff says otherwise, and don't mention files that were left out.
+
+**COMMIT MESSAGE:**
+\`\`\`
+${commitMessage}
+\`\`\`
+
+${formatCommitChanges(changes)}
+
+Digest:`;
+}
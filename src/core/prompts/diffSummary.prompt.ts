@@ -0,0 +1,19 @@
+// --- FILE: core/prompts/diffSummary.prompt.ts ---
+
+/**
+ * Generates the prompt for summarizing one file's changes in a commit too large to show whole.
+ * @param filePath The relative path of the changed file.
+ * @param diff The file's diff, possibly truncated.
+ * @returns A formatted string ready to be sent to the OpenAI API.
+ */
+export function generateFileDiffSummaryPrompt(filePath: string, diff: string): string {
+    return `Summarize what the following change to a single file does, in one or two sentences. Focus on behavior, not on formatting or line-by-line edits.
+
+File Path: ${filePath}
+
+--- DIFF START ---
+${diff}
+--- DIFF END ---
+
+Summary:`;
+}
@@ -1,17 +1,51 @@
 // --- FILE: core/prompts/taskGeneration.prompt.ts ---
 
+/**
+ * What the model is shown of a commit's changes.
+ */
+export interface CommitChanges {
+    /** The diff, already filtered and cut to the token budget. Null when fileSummaries are given instead. */
+    diff: string | null;
+    /** Per-file summaries of the diff, for commits too large to show. */
+    fileSummaries?: { path: string; summary: string }[];
+    /** What was left out of the diff or summaries, one line per reason. */
+    omissions?: string[];
+}
+
+/**
+ * Renders what the model is shown of a commit: its diff or file summaries, and what was left out.
+ */
+export function formatCommitChanges(changes: CommitChanges): string {
+    const sections: string[] = [];
+    if (changes.diff !== null) {
+        sections.push(`**GIT DIFF:**
+\`\`\`diff
+${changes.diff}
+\`\`\``);
+    }
+    if (changes.fileSummaries && changes.fileSummaries.length > 0) {
+        sections.push(`**SUMMARIES OF THE CHANGED FILES** (the commit is too large to show its diff):
+${changes.fileSummaries.map(file => `- \`${file.path}\`: ${file.summary}`).join('\n')}`);
+    }
+    if (changes.omissions && changes.omissions.length > 0) {
+        sections.push(`**OMITTED FROM THE CHANGES ABOVE** (changed in the commit, but not shown; don't describe them as the main work unless the commit message says so):
+${changes.omissions.map(line => `- ${line}`).join('\n')}`);
+    }
+    return sections.join('\n\n');
+}
+
 /**
  * Generates the full prompt for the AI to analyze a git commit and create a structured task.
  * @param commitMessage The message from the git commit.
- * @param gitDiff The full text diff of the changes in the commit.
+ * @param changes The commit's diff (or per-file summaries of it) and what was left out.
  * @returns A formatted string ready to be sent to the OpenAI API.
  */
-export function generateTaskFromCommitPrompt(commitMessage: string, gitDiff: string): string {
+export function generateTaskFromCommitPrompt(commitMessage: string, changes: CommitChanges): string {
     return `You are an expert software engineering project manager analyzing a git commit. Your goal is to generate a concise task title, a category, and a detailed description of the work.
 
 **Instructions & Rules:**
 
-1.  **Analyze**: Carefully review the commit message and the git diff to understand the full context of the work performed.
+1.  **Analyze**: Carefully review the commit message and the changes to understand the full context of the work performed.
 2.  **Output Format**: You MUST respond ONLY with a single JSON object. Do not include any explanatory text, markdown syntax, or anything outside of the JSON structure.
 3.  **Trivial Commits**: If the diff is truly trivial (e.g., only a typo fix in a comment, a whitespace change), respond with the exact string "NULL" instead of a JSON object.
 4.  **JSON Structure**: The JSON object must have three keys: "title", "category", and "description".
@@ -46,9 +80,6 @@ export function generateTaskFromCommitPrompt(commitMessage: string, gitDiff: str
 ${commitMessage}
 \`\`\`
 
-**GIT DIFF:**
-\`\`\`diff
-${gitDiff}
-\`\`\`
+${formatCommitChanges(changes)}
 `;
 }
\ No newline at end of file
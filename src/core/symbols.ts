@@ -0,0 +1,234 @@
+// --- FILE: core/symbols.ts ---
+import path from 'path';
+import { Query, SyntaxNode } from 'tree-sitter';
+import { getLanguageForFile, LanguageSpec } from './languages';
+import { getParser } from './chunker';
+
+export interface SymbolDefinition {
+  name: string;
+  /** function, method, class, interface, type, enum, struct, trait or variable. */
+  kind: string;
+  start_line: number;
+  end_line: number;
+  /** Visible outside its file/module (exported, public, capitalized, ...). */
+  exported: boolean;
+}
+
+export interface ImportEdge {
+  /** The module as written in the source, e.g. `./db`, `express`, `app.models`. */
+  specifier: string;
+  /** Names brought into scope; `*` for namespace imports. */
+  names: string[];
+  /** Repository paths the specifier may refer to. Empty for external packages. */
+  candidatePaths: string[];
+  line: number;
+}
+
+export interface SymbolReference {
+  name: string;
+  line: number;
+}
+
+export interface FileSymbols {
+  definitions: SymbolDefinition[];
+  imports: ImportEdge[];
+  references: SymbolReference[];
+}
+
+const symbolQueries = new Map<string, Query>();
+
+function getSymbolQuery(language: LanguageSpec): Query {
+  let query = symbolQueries.get(language.name);
+  if (!query) {
+    query = new Query(language.grammar, language.symbolQuery);
+    symbolQueries.set(language.name, query);
+  }
+  return query;
+}
+
+const SCRIPT_EXTENSIONS = ['.ts', '.tsx', '.mts', '.cts', '.js', '.jsx', '.mjs', '.cjs'];
+
+function hasAncestor(node: SyntaxNode, types: string[]): boolean {
+  for (let current = node.parent; current; current = current.parent) {
+    if (types.includes(current.type)) return true;
+  }
+  return false;
+}
+
+function isExported(language: string, node: SyntaxNode, name: string): boolean {
+  switch (language) {
+    case 'typescript':
+    case 'tsx':
+    case 'javascript':
+      return hasAncestor(node, ['export_statement']);
+    case 'python':
+      return !name.startsWith('_') && node.parent?.type === 'module';
+    case 'go':
+      return /^[A-Z]/.test(name);
+    case 'java':
+      return node.namedChildren.some(child => child.type === 'modifiers' && /\bpublic\b/.test(child.text));
+    case 'rust':
+      return node.namedChildren.some(child => child.type === 'visibility_modifier');
+    default:
+      return false;
+  }
+}
+
+function definitionKind(language: string, kind: string, node: SyntaxNode): string {
+  // Python and Rust have no separate method node.
+  if (kind === 'function' && language === 'python' && hasAncestor(node, ['class_definition'])) return 'method';
+  if (kind === 'function' && language === 'rust' && hasAncestor(node, ['impl_item', 'trait_item'])) return 'method';
+  return kind;
+}
+
+function importedNames(language: string, node: SyntaxNode, specifier: string): string[] {
+  switch (language) {
+    case 'typescript':
+    case 'tsx':
+    case 'javascript': {
+      const clause = node.namedChildren.find(child => child.type === 'import_clause');
+      if (!clause) return [];
+      const names: string[] = [];
+      for (const child of clause.namedChildren) {
+        if (child.type === 'identifier') names.push(child.text);
+        if (child.type === 'namespace_import') names.push('*');
+        if (child.type === 'named_imports') {
+          child.namedChildren
+            .filter(spec => spec.type === 'import_specifier')
+            .forEach(spec => names.push(spec.childForFieldName('name')?.text || spec.text));
+        }
+      }
+      return names;
+    }
+    case 'python':
+      if (node.type !== 'import_from_statement') return [];
+      return node.childrenForFieldName('name').map(name =>
+        name.type === 'aliased_import' ? name.childForFieldName('name')?.text || name.text : name.text);
+    case 'java':
+      return specifier.endsWith('.*') ? ['*'] : [specifier.split('.').pop()!];
+    case 'rust': {
+      const last = specifier.split('::').pop()!;
+      return /^[A-Za-z_]\w*$/.test(last) ? [last] : [];
+    }
+    default:
+      return [];
+  }
+}
+
+// Directories a language's absolute imports may be rooted at: the repository root and every
+// ancestor of the importing file, since source roots like `src/main/java` are not declared.
+function ancestorDirs(filePath: string): string[] {
+  const dirs = [''];
+  const parts = path.posix.dirname(filePath).split('/').filter(part => part && part !== '.');
+  for (let i = 1; i <= parts.length; i++) {
+    dirs.push(parts.slice(0, i).join('/'));
+  }
+  return dirs;
+}
+
+/**
+ * Lists the repository paths an import may refer to. Imports of external packages
+ * (and languages whose module paths can't be mapped to files) resolve to nothing.
+ * @param fromPath The importing file, relative to the repository root.
+ */
+export function resolveImportCandidates(language: string, fromPath: string, specifier: string, names: string[] = []): string[] {
+  const fromDir = path.posix.dirname(fromPath);
+  switch (language) {
+    case 'typescript':
+    case 'tsx':
+    case 'javascript': {
+      if (!specifier.startsWith('.')) return [];
+      const base = path.posix.normalize(path.posix.join(fromDir, specifier));
+      if (base.startsWith('..')) return [];
+      // `./db.js` in TypeScript sources refers to `./db.ts`.
+      const withoutExtension = base.replace(/\.(js|jsx|mjs|cjs)$/, '');
+      return [...new Set([
+        base,
+        ...SCRIPT_EXTENSIONS.map(ext => withoutExtension + ext),
+        ...SCRIPT_EXTENSIONS.map(ext => `${base}/index${ext}`),
+      ])];
+    }
+    case 'python': {
+      const modulePaths: string[] = [];
+      const relative = specifier.match(/^(\.+)(.*)$/);
+      if (relative) {
+        let dir = fromDir;
+        for (let level = 1; level < relative[1].length; level++) dir = path.posix.dirname(dir);
+        const module = relative[2].replace(/\./g, '/');
+        // `from . import x` may import the module `x`.
+        const targets = module ? [module] : names;
+        targets.forEach(target => modulePaths.push(path.posix.join(dir, target)));
+      } else {
+        const module = specifier.replace(/\./g, '/');
+        ancestorDirs(fromPath).forEach(dir => modulePaths.push(path.posix.join(dir, module)));
+      }
+      const candidates: string[] = [];
+      modulePaths
+        .map(modulePath => path.posix.normalize(modulePath))
+        .filter(modulePath => !modulePath.startsWith('..'))
+        .forEach(modulePath => candidates.push(`${modulePath}.py`, `${modulePath}/__init__.py`));
+      return candidates;
+    }
+    case 'java': {
+      if (specifier.endsWith('.*')) return [];
+      const classPath = specifier.replace(/^static\s+/, '').replace(/\./g, '/') + '.java';
+      return ancestorDirs(fromPath).map(dir => path.posix.join(dir, classPath));
+    }
+    default:
+      return [];
+  }
+}
+
+/**
+ * Extracts symbol definitions, imports and call sites from a source file with the
+ * tree-sitter grammar registered for its extension.
+ * @param filePath The file's path relative to the repository root; used to pick the language
+ *   and to resolve relative imports.
+ */
+export function extractSymbols(content: string, filePath: string): FileSymbols {
+  const result: FileSymbols = { definitions: [], imports: [], references: [] };
+  const language = getLanguageForFile(filePath);
+  if (!language || content.trim().length === 0) {
+    return result;
+  }
+
+  const { parser } = getParser(language);
+  const tree = parser.parse(content);
+  const seenReferences = new Set<string>();
+
+  for (const match of getSymbolQuery(language).matches(tree.rootNode)) {
+    const captures = new Map(match.captures.map(capture => [capture.name, capture.node]));
+    const definition = match.captures.find(capture => capture.name.startsWith('definition.'));
+    const name = captures.get('name');
+    const source = captures.get('source');
+    const reference = captures.get('reference');
+
+    if (definition && name) {
+      result.definitions.push({
+        name: name.text,
+        kind: definitionKind(language.name, definition.name.substring('definition.'.length), definition.node),
+        start_line: definition.node.startPosition.row + 1,
+        end_line: definition.node.endPosition.row + 1,
+        exported: isExported(language.name, definition.node, name.text),
+      });
+    } else if (captures.has('import') && source) {
+      const specifier = source.text.replace(/^"|"$/g, '');
+      const names = importedNames(language.name, captures.get('import')!, specifier);
+      result.imports.push({
+        specifier,
+        names,
+        candidatePaths: resolveImportCandidates(language.name, filePath, specifier, names),
+        line: source.startPosition.row + 1,
+      });
+    } else if (reference) {
+      const line = reference.startPosition.row + 1;
+      const key = `${reference.text}:${line}`;
+      if (!seenReferences.has(key)) {
+        seenReferences.add(key);
+        result.references.push({ name: reference.text, line });
+      }
+    }
+  }
+
+  return result;
+}
@@ -0,0 +1,80 @@
+// --- FILE: core/taskClusters.ts ---
+
+/**
+ * When two generated retrospective tasks count as the same piece of work.
+ */
+export interface TaskMergeSettings {
+    /** Minimum cosine similarity of the tasks' embeddings, 0..1. */
+    similarity: number;
+    /** Maximum days between the newer task and the last work on the older one. */
+    windowDays: number;
+}
+
+export const DEFAULT_TASK_MERGE_SETTINGS: TaskMergeSettings = {
+    similarity: parseFloat(process.env.RETRO_TASK_MERGE_SIMILARITY || '0.88'),
+    windowDays: parseInt(process.env.RETRO_TASK_MERGE_WINDOW_DAYS || '14', 10),
+};
+
+export interface ClusterableTask {
+    id: number;
+    embedding: number[];
+    /** When the task's work happened (its commit date). */
+    date: Date;
+}
+
+export interface TaskCluster<T extends ClusterableTask> {
+    /** The earliest task; the others are merged into it. */
+    keeper: T;
+    duplicates: T[];
+}
+
+export function cosineSimilarity(a: number[], b: number[]): number {
+    let dot = 0;
+    let normA = 0;
+    let normB = 0;
+    for (let i = 0; i < a.length; i++) {
+        dot += a[i] * b[i];
+        normA += a[i] * a[i];
+        normB += b[i] * b[i];
+    }
+    return normA === 0 || normB === 0 ? 0 : dot / Math.sqrt(normA * normB);
+}
+
+/**
+ * Groups tasks describing the same work. Tasks are taken in date order; each joins the
+ * most similar cluster whose keeper it resembles closely enough and whose latest task is
+ * within the window, or starts a new cluster.
+ */
+export function clusterTasks<T extends ClusterableTask>(tasks: T[], settings: TaskMergeSettings = DEFAULT_TASK_MERGE_SETTINGS): TaskCluster<T>[] {
+    const windowMs = settings.windowDays * 86400000;
+    const clusters: (TaskCluster<T> & { lastDate: Date })[] = [];
+    const sorted = [...tasks].sort((a, b) => a.date.getTime() - b.date.getTime() || a.id - b.id);
+
+    for (const task of sorted) {
+        let best: (typeof clusters)[number] | null = null;
+        let bestSimilarity = settings.similarity;
+        for (const cluster of clusters) {
+            if (task.date.getTime() - cluster.lastDate.getTime() > windowMs) continue;
+            const similarity = cosineSimilarity(task.embedding, cluster.keeper.embedding);
+            if (similarity >= bestSimilarity) {
+                best = cluster;
+                bestSimilarity = similarity;
+            }
+        }
+        if (best) {
+            best.duplicates.push(task);
+            best.lastDate = task.date;
+        } else {
+            clusters.push({ keeper: task, duplicates: [], lastDate: task.date });
+        }
+    }
+
+    return clusters.map(({ keeper, duplicates }) => ({ keeper, duplicates }));
+}
+
+/**
+ * The line appended to a task's description for each task merged into it, so no work is lost.
+ */
+export function mergedTaskLine(title: string, commitHash: string | null): string {
+    return `\n- ${title}${commitHash ? ` (${commitHash.substring(0, 7)})` : ''}`;
+}
@@ -0,0 +1,137 @@
+// --- FILE: core/taskReferences.ts ---
+
+/**
+ * What a commit does to a task it mentions:
+ * - `closes`: "fixes #12", "closes #12, #14", "Resolves: #12" — the task is done.
+ * - `reopens`: "reopens #12" — the task is open again.
+ * - `references`: "refs #7", "part of #7", a bare "#7", or a task number in the branch name.
+ */
+export type TaskRelation = 'closes' | 'reopens' | 'references';
+
+/** Where in the commit the reference was found. */
+export type TaskReferenceSource = 'message' | 'trailer' | 'branch';
+
+export interface TaskReference {
+    taskNumber: number;
+    relation: TaskRelation;
+    source: TaskReferenceSource;
+}
+
+export interface CommitText {
+    /** The subject line. */
+    message: string;
+    /** The rest of the message, including trailers. */
+    body?: string;
+    /** Branches the commit is known to come from (merged branch, decorations). */
+    branchNames?: string[];
+}
+
+const CLOSING_VERBS = 'close|closes|closed|fix|fixes|fixed|resolve|resolves|resolved';
+const REOPENING_VERBS = 'reopen|reopens|reopened';
+const REFERENCING_VERBS = 'ref|refs|references|see|part of|related to|relates to|addresses|re';
+// "#12", "#12, #14", "#12 and #14", "#12 & #14"
+const TASK_LIST = String.raw`#\d+(?:\s*(?:,|&|\band\b)\s*#\d+)*`;
+const VERB_REFERENCE = new RegExp(String.raw`\b(${CLOSING_VERBS}|${REOPENING_VERBS}|${REFERENCING_VERBS})\b:?\s+(${TASK_LIST})`, 'gi');
+const BARE_REFERENCE = /(^|[^\w&#/])#(\d+)\b/g;
+// Pull request numbers in merge subjects are not task numbers.
+const PULL_REQUEST = /\b(?:pull request|PR|merge request)\s+#\d+/gi;
+// Code in backticks, e.g. `#fff` or a fenced block, holds no task references.
+const CODE = /```[\s\S]*?(?:```|$)|`[^`\n]*`/g;
+// "color #333", "background: #333": a CSS color, not a task.
+const COLOR_CONTEXT = /\b(?:colou?r|background(?:-color)?|fill|stroke|border(?:-color)?)\s*:?\s*$/i;
+const TRAILER = /^([A-Za-z][\w-]*):\s*(.+)$/;
+const TRAILER_RELATIONS: Record<string, TaskRelation> = {
+    'closes': 'closes', 'fixes': 'closes', 'resolves': 'closes',
+    'reopens': 'reopens',
+    'refs': 'references', 'references': 'references', 'related-to': 'references', 'relates-to': 'references',
+    'see-also': 'references', 'part-of': 'references', 'task': 'references', 'issue': 'references',
+};
+// "feature/12-add-login", "task-12", "12_fix-crash", "bugfix/GH-12"
+const BRANCH_TASK = /^(?:(?:task|issue|ticket|gh)[-_]?)?(\d+)(?:[-_]|$)/i;
+// Under these prefixes a number names a version or date ("release/2024-01"); only "task-12" style counts.
+const VERSION_BRANCH_PREFIX = /^(?:release|releases|hotfix|hotfixes|version|versions|support)$/i;
+const PREFIXED_BRANCH_TASK = /^(?:task|issue|ticket|gh)[-_]?(\d+)(?:[-_]|$)/i;
+
+function relationOf(verb: string): TaskRelation {
+    const word = verb.toLowerCase();
+    if (new RegExp(`^(${CLOSING_VERBS})$`).test(word)) return 'closes';
+    if (new RegExp(`^(${REOPENING_VERBS})$`).test(word)) return 'reopens';
+    return 'references';
+}
+
+function taskNumbers(list: string): number[] {
+    return (list.match(/\d+/g) || []).map(n => parseInt(n, 10));
+}
+
+/**
+ * Finds the branch names in a merge commit's subject: "Merge branch 'x'",
+ * "Merge pull request #5 from owner/x", "Merge branch 'x' into 'main'".
+ */
+export function branchNamesFromMergeSubject(subject: string): string[] {
+    const names: string[] = [];
+    const branch = /^Merge (?:remote-tracking )?branch '([^']+)'/.exec(subject);
+    if (branch) names.push(branch[1].replace(/^origin\//, ''));
+    const pullRequest = /^Merge pull request #\d+ from [^/\s]+\/(\S+)/.exec(subject);
+    if (pullRequest) names.push(pullRequest[1]);
+    return names;
+}
+
+/**
+ * Finds every task a commit refers to, in its message, its trailers and its branch names.
+ * A task mentioned several times gets the strongest relation; when a message both closes
+ * and reopens a task, the later verb wins.
+ */
+export function findTaskReferences(commit: CommitText): TaskReference[] {
+    const found = new Map<number, TaskReference>();
+    const add = (taskNumber: number, relation: TaskRelation, source: TaskReferenceSource) => {
+        const existing = found.get(taskNumber);
+        if (!existing || relation !== 'references') {
+            found.set(taskNumber, { taskNumber, relation, source });
+        }
+    };
+
+    const bodyLines = (commit.body || '').split('\n');
+    const trailerLines = new Set<string>();
+    const trailers: { numbers: number[]; relation: TaskRelation }[] = [];
+    for (const line of bodyLines) {
+        const trailer = TRAILER.exec(line.trim());
+        const relation = trailer && TRAILER_RELATIONS[trailer[1].toLowerCase()];
+        if (trailer && relation && /^#?\d+(?:\s*,\s*#?\d+)*$/.test(trailer[2].trim())) {
+            trailers.push({ numbers: taskNumbers(trailer[2]), relation });
+            trailerLines.add(line);
+        }
+    }
+
+    const text = [commit.message, ...bodyLines.filter(line => !trailerLines.has(line))]
+        .join('\n')
+        .replace(CODE, '')
+        .replace(PULL_REQUEST, '');
+    const covered = new Set<number>();
+    let match: RegExpExecArray | null;
+    VERB_REFERENCE.lastIndex = 0;
+    while ((match = VERB_REFERENCE.exec(text)) !== null) {
+        const relation = relationOf(match[1]);
+        taskNumbers(match[2]).forEach(n => {
+            add(n, relation, 'message');
+            covered.add(n);
+        });
+    }
+    BARE_REFERENCE.lastIndex = 0;
+    while ((match = BARE_REFERENCE.exec(text)) !== null) {
+        const taskNumber = parseInt(match[2], 10);
+        if (COLOR_CONTEXT.test(text.substring(0, match.index + match[1].length))) continue;
+        if (!covered.has(taskNumber)) add(taskNumber, 'references', 'message');
+    }
+
+    // Trailers close the message, so they come after anything in its text.
+    trailers.forEach(trailer => trailer.numbers.forEach(n => add(n, trailer.relation, 'trailer')));
+
+    for (const branchName of commit.branchNames || []) {
+        const segments = branchName.split('/');
+        const pattern = VERSION_BRANCH_PREFIX.test(segments[0]) ? PREFIXED_BRANCH_TASK : BRANCH_TASK;
+        const branchTask = segments.map(segment => pattern.exec(segment)).find(Boolean);
+        if (branchTask) add(parseInt(branchTask[1], 10), 'references', 'branch');
+    }
+
+    return [...found.values()];
+}
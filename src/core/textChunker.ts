@@ -1,73 +1,146 @@
 // --- FILE: core/textChunker.ts ---
 import { remark } from 'remark';
 import { toString } from 'mdast-util-to-string';
-import { Root } from 'mdast';
+import { Root, RootContent } from 'mdast';
+import { ChunkBudget, DEFAULT_CHUNK_BUDGET, estimateTokens, packWindows, sliceByTokens } from './tokens';
+
+export interface TextChunk {
+    content: string;
+    start_line: number;
+    end_line: number;
+}
+
+/**
+ * A run of text (a paragraph, list, code block or heading) with the lines it spans.
+ */
+interface Block {
+    text: string;
+    start_line: number;
+    end_line: number;
+}
+
+function toBlock(node: RootContent): Block {
+    return {
+        text: toString(node),
+        start_line: node.position?.start.line ?? 1,
+        end_line: node.position?.end.line ?? 1,
+    };
+}
+
+/**
+ * Breaks a block over the budget at sentence boundaries. A sentence still over the
+ * budget is cut into slices. Every piece keeps the block's line range.
+ */
+function splitBlock(block: Block, maxTokens: number): Block[] {
+    const pieces: Block[] = [];
+    const sentences = block.text.match(/[^.!?]+(?:[.!?]+|$)\s*/g) || [block.text];
+    for (const sentence of sentences) {
+        const texts = estimateTokens(sentence) <= maxTokens ? [sentence] : sliceByTokens(sentence, maxTokens);
+        texts.forEach(text => pieces.push({ ...block, text }));
+    }
+    return pieces;
+}
+
+/**
+ * Joins blocks into chunks within the token budget, overlapping consecutive chunks.
+ * Blocks are separated by blank lines; the pieces of a split block by nothing.
+ * @param header Repeated at the start of every chunk after the first, e.g. the section's heading.
+ */
+function packBlocks(blocks: Block[], budget: ChunkBudget, header: string = ''): TextChunk[] {
+    const headerTokens = header ? estimateTokens(header) + 1 : 0;
+    const maxTokens = budget.maxTokens - headerTokens;
+    const pieces: Block[] = [];
+    for (const block of blocks) {
+        if (estimateTokens(block.text) <= maxTokens) {
+            pieces.push({ ...block, text: `${block.text}\n\n` });
+        } else {
+            const sentences = splitBlock(block, maxTokens);
+            sentences[sentences.length - 1].text += '\n\n';
+            pieces.push(...sentences);
+        }
+    }
+
+    return packWindows(pieces, piece => estimateTokens(piece.text), budget, headerTokens)
+        .map((window, index) => ({
+            content: ((index > 0 && header ? `${header}\n\n` : '') + window.map(piece => piece.text).join('')).trim(),
+            start_line: window[0].start_line,
+            end_line: window[window.length - 1].end_line,
+        }));
+}
 
 /**
  * A fallback chunker for plain text with no discernible structure.
- * It splits the content by paragraphs (double newlines).
+ * Each paragraph (or list, code block, ...) becomes its own chunk.
  */
-function chunkByParagraphs(content: string): string[] {
-    return content
-        .split(/\n\s*\n/)
-        .map(chunk => chunk.trim())
-        .filter(chunk => chunk.length > 20); // Filter out very short lines
+function chunkByParagraphs(blocks: Block[], budget: ChunkBudget): TextChunk[] {
+    const chunks: TextChunk[] = [];
+    blocks
+        .filter(block => block.text.trim().length > 20) // Filter out very short lines
+        .forEach(block => chunks.push(...packBlocks([block], budget)));
+    return chunks;
 }
 
 /**
  * A sophisticated chunker that understands Markdown structure.
  * It groups content under headings to create semantically meaningful chunks.
  * For example, a "## Section Title" and all its following paragraphs and lists
- * will be combined into a single chunk.
+ * will be combined into a single chunk. A section over the token budget is split
+ * at paragraph boundaries, each part repeating the section's heading.
  */
-function chunkByHeadings(markdownContent: string): string[] {
+function chunkByHeadings(markdownContent: string, budget: ChunkBudget): TextChunk[] {
     const tree = remark().parse(markdownContent) as Root;
-    const chunks: string[] = [];
-    let currentChunk: any[] = [];
+    const sections: RootContent[][] = [];
+    let currentSection: RootContent[] = [];
 
     tree.children.forEach(node => {
         // A heading of level 1, 2, or 3 now starts a new chunk for better granularity.
         if (node.type === 'heading' && node.depth <= 3) {
-            if (currentChunk.length > 0) {
-                chunks.push(toString({ type: 'root', children: currentChunk }));
+            if (currentSection.length > 0) {
+                sections.push(currentSection);
             }
-            currentChunk = [node];
+            currentSection = [node];
         } else {
-            currentChunk.push(node);
+            currentSection.push(node);
         }
     });
 
-    if (currentChunk.length > 0) {
-        chunks.push(toString({ type: 'root', children: currentChunk }));
+    if (currentSection.length > 0) {
+        sections.push(currentSection);
     }
 
     // --- NEW LOGGING: START ---
-    console.log(`[textChunker] Initial chunking pass found ${chunks.length} potential chunks based on headings.`);
+    console.log(`[textChunker] Initial chunking pass found ${sections.length} potential chunks based on headings.`);
     // --- NEW LOGGING: END ---
 
     // If the document had no headings, the whole thing is one chunk.
     // In that case, we fall back to the paragraph chunker for better granularity.
-    if (chunks.length === 1 && tree.children.some(node => node.type !== 'heading')) {
+    if (sections.length === 1 && tree.children.some(node => node.type !== 'heading')) {
         // --- NEW LOGGING: START ---
         console.log('[textChunker] Only one heading-based chunk found. Falling back to paragraph-based chunking for better granularity.');
         // --- NEW LOGGING: END ---
-        return chunkByParagraphs(chunks[0]);
+        return chunkByParagraphs(sections[0].map(toBlock), budget);
     }
-    
-    return chunks.filter(chunk => chunk.trim().length > 0);
+
+    const chunks: TextChunk[] = [];
+    for (const section of sections) {
+        const heading = section[0].type === 'heading' ? toString(section[0]) : '';
+        chunks.push(...packBlocks(section.map(toBlock), budget, heading));
+    }
+    return chunks.filter(chunk => chunk.content.trim().length > 0);
 }
 
 /**
  * The main text chunking function. It attempts to chunk by Markdown headings first,
  * and falls back to a simpler paragraph-based chunker if needed.
  * @param content The text or markdown content to be chunked.
- * @returns An array of string chunks.
+ * @param budget The largest chunk to produce; longer sections are split with overlap.
+ * @returns The chunks, each with the lines of `content` it came from.
  */
-export function chunkText(content: string): string[] {
-    // Trim initial/final whitespace which can affect parsing
-    const trimmedContent = content.trim();
-    if (!trimmedContent) {
+export function chunkText(content: string, budget: ChunkBudget = DEFAULT_CHUNK_BUDGET): TextChunk[] {
+    // Trim final whitespace which can affect parsing; leading blank lines are kept so line numbers match.
+    const trimmedContent = content.trimEnd();
+    if (!trimmedContent.trim()) {
         return [];
     }
-    return chunkByHeadings(trimmedContent);
-}
\ No newline at end of file
+    return chunkByHeadings(trimmedContent, budget);
+}
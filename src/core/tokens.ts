@@ -0,0 +1,82 @@
+// --- FILE: core/tokens.ts ---
+
+// A rough average for English prose and source code with OpenAI's tokenizers.
+const CHARS_PER_TOKEN = 4;
+
+/**
+ * Estimates how many tokens a piece of text will use, without loading a tokenizer.
+ * @param text The text to measure.
+ * @returns The estimated token count.
+ */
+export function estimateTokens(text: string): number {
+    return Math.ceil(text.length / CHARS_PER_TOKEN);
+}
+
+
+/**
+ * Cuts text into consecutive slices of at most maxTokens each. For text with no better boundary,
+ * such as a minified line.
+ */
+export function sliceByTokens(text: string, maxTokens: number): string[] {
+    const size = Math.max(1, maxTokens * CHARS_PER_TOKEN);
+    const slices: string[] = [];
+    for (let i = 0; i < text.length; i += size) {
+        slices.push(text.substring(i, i + size));
+    }
+    return slices;
+}
+
+/**
+ * How large a chunk sent to the embedding model may be. Larger chunks are split into
+ * overlapping pieces, each at most maxTokens.
+ */
+export interface ChunkBudget {
+    maxTokens: number;
+    /** How much of the end of one piece is repeated at the start of the next. */
+    overlapTokens: number;
+}
+
+export const DEFAULT_CHUNK_BUDGET: ChunkBudget = {
+    maxTokens: parseInt(process.env.CHUNK_MAX_TOKENS || '1500', 10),
+    overlapTokens: parseInt(process.env.CHUNK_OVERLAP_TOKENS || '150', 10),
+};
+
+/**
+ * Groups consecutive items into windows of at most `budget.maxTokens - reservedTokens` tokens.
+ * Each window after the first starts with the previous window's last items, up to
+ * `budget.overlapTokens`. Items are never split; one larger than the limit gets a window of its own.
+ * @param reservedTokens Room kept free in every window, e.g. for a header repeated on each piece.
+ */
+export function packWindows<T>(items: T[], tokensOf: (item: T) => number, budget: ChunkBudget, reservedTokens: number = 0): T[][] {
+    const limit = budget.maxTokens - reservedTokens;
+    const windows: T[][] = [];
+    let current: T[] = [];
+    let tokens = 0;
+    let fresh = 0; // Items in the current window that aren't overlap.
+
+    for (const item of items) {
+        const size = tokensOf(item);
+        if (fresh > 0 && tokens + size > limit) {
+            windows.push(current);
+            const overlap: T[] = [];
+            let overlapTokens = 0;
+            // Never carry the whole window over, or the next one would contain it.
+            for (let i = current.length - 1; i >= 1; i--) {
+                const itemTokens = tokensOf(current[i]);
+                if (overlapTokens + itemTokens > budget.overlapTokens || overlapTokens + itemTokens + size > limit) break;
+                overlap.unshift(current[i]);
+                overlapTokens += itemTokens;
+            }
+            current = overlap;
+            tokens = overlapTokens;
+            fresh = 0;
+        }
+        current.push(item);
+        tokens += size;
+        fresh++;
+    }
+    if (fresh > 0) {
+        windows.push(current);
+    }
+    return windows;
+}
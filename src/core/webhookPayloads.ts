@@ -0,0 +1,160 @@
+// --- FILE: core/webhookPayloads.ts ---
+import crypto from 'crypto';
+import { matchesTrackedRef } from './indexSettings';
+
+export type WebhookProvider = 'github' | 'gitlab' | 'gitea';
+
+export interface ParsedWebhook {
+    provider: WebhookProvider;
+    event: 'push' | 'ping' | 'other';
+    rawEvent: string;
+    ref: string | null;
+    defaultBranch: string | null;
+    headCommit: string | null;
+    repositoryUrls: string[];
+}
+
+type Headers = Record<string, string | string[] | undefined>;
+
+export class InvalidWebhookError extends Error {
+    constructor(message: string) {
+        super(message);
+        this.name = 'InvalidWebhookError';
+    }
+}
+
+function header(headers: Headers, name: string): string | undefined {
+    const value = headers[name.toLowerCase()];
+    return Array.isArray(value) ? value[0] : value;
+}
+
+/**
+ * Works out which forge sent the request. Gitea (and Gogs) also send GitHub-style
+ * headers for compatibility, so they are checked first.
+ */
+export function detectProvider(headers: Headers): WebhookProvider | null {
+    if (header(headers, 'x-gitea-event') || header(headers, 'x-gogs-event')) return 'gitea';
+    if (header(headers, 'x-gitlab-event')) return 'gitlab';
+    if (header(headers, 'x-github-event')) return 'github';
+    return null;
+}
+
+/**
+ * Decodes the request body. GitHub can deliver either JSON or a form-encoded `payload` field.
+ */
+function decodeBody(rawBody: Buffer, contentType: string | undefined): any {
+    let text = rawBody.toString('utf8');
+    if (contentType?.includes('application/x-www-form-urlencoded')) {
+        text = new URLSearchParams(text).get('payload') || '';
+    }
+    try {
+        return JSON.parse(text);
+    } catch (error) {
+        throw new InvalidWebhookError('Webhook body is not valid JSON.');
+    }
+}
+
+/**
+ * Normalizes a push payload from GitHub, GitLab or Gitea into one shape.
+ * @param headers The request headers (lower-case names, as Node provides them).
+ * @param rawBody The unparsed request body.
+ * @throws {InvalidWebhookError} if the sender or the body cannot be understood.
+ */
+export function parseWebhook(headers: Headers, rawBody: Buffer): ParsedWebhook {
+    const provider = detectProvider(headers);
+    if (!provider) {
+        throw new InvalidWebhookError('Unrecognized webhook sender. Expected GitHub, GitLab or Gitea event headers.');
+    }
+    const body = decodeBody(rawBody, header(headers, 'content-type'));
+
+    if (provider === 'gitlab') {
+        const rawEvent = header(headers, 'x-gitlab-event') || '';
+        const project = body.project || {};
+        return {
+            provider,
+            event: rawEvent === 'Push Hook' ? 'push' : 'other',
+            rawEvent,
+            ref: body.ref || null,
+            defaultBranch: project.default_branch || null,
+            headCommit: body.checkout_sha || body.after || null,
+            repositoryUrls: [
+                project.git_http_url, project.git_ssh_url, project.web_url,
+                body.repository?.git_http_url, body.repository?.git_ssh_url, body.repository?.homepage,
+            ].filter(Boolean),
+        };
+    }
+
+    const rawEvent = (provider === 'gitea'
+        ? header(headers, 'x-gitea-event') || header(headers, 'x-gogs-event')
+        : header(headers, 'x-github-event')) || '';
+    const repository = body.repository || {};
+    return {
+        provider,
+        event: rawEvent === 'push' ? 'push' : rawEvent === 'ping' ? 'ping' : 'other',
+        rawEvent,
+        ref: body.ref || null,
+        defaultBranch: repository.default_branch || null,
+        headCommit: body.after || null,
+        repositoryUrls: [repository.clone_url, repository.ssh_url, repository.html_url, repository.git_url].filter(Boolean),
+    };
+}
+
+function safeEqual(a: string, b: string): boolean {
+    const bufferA = Buffer.from(a);
+    const bufferB = Buffer.from(b);
+    return bufferA.length === bufferB.length && crypto.timingSafeEqual(bufferA, bufferB);
+}
+
+function hmac(algorithm: 'sha256' | 'sha1', secret: string, rawBody: Buffer): string {
+    return crypto.createHmac(algorithm, secret).update(rawBody).digest('hex');
+}
+
+/**
+ * Checks the request against a project's webhook secret.
+ * GitHub and Gitea sign the raw body with HMAC; GitLab sends the secret token itself.
+ */
+export function verifyWebhookSignature(provider: WebhookProvider, headers: Headers, rawBody: Buffer, secret: string): boolean {
+    switch (provider) {
+        case 'github': {
+            const signature256 = header(headers, 'x-hub-signature-256');
+            if (signature256) {
+                return safeEqual(signature256, `sha256=${hmac('sha256', secret, rawBody)}`);
+            }
+            const signature1 = header(headers, 'x-hub-signature');
+            return !!signature1 && safeEqual(signature1, `sha1=${hmac('sha1', secret, rawBody)}`);
+        }
+        case 'gitea': {
+            const signature = header(headers, 'x-gitea-signature') || header(headers, 'x-gogs-signature');
+            return !!signature && safeEqual(signature, hmac('sha256', secret, rawBody));
+        }
+        case 'gitlab': {
+            const token = header(headers, 'x-gitlab-token');
+            return !!token && safeEqual(token, secret);
+        }
+    }
+}
+
+/**
+ * Whether a push should trigger a sync: branch pushes to the default branch only
+ * (or any branch, when the payload doesn't say which one is the default), plus pushes
+ * to the project's tracked branches and tags.
+ */
+export function isRelevantPush(webhook: ParsedWebhook, trackedRefs: string[] = []): boolean {
+    if (webhook.event !== 'push' || !webhook.ref) {
+        return false;
+    }
+    const refName = webhook.ref.replace(/^refs\/(heads|tags)\//, '');
+    if (refName === webhook.ref) {
+        return false;
+    }
+    if (matchesTrackedRef(refName, trackedRefs)) {
+        return true; // Includes deletions, so the ref's index is dropped.
+    }
+    if (!webhook.ref.startsWith('refs/heads/')) {
+        return false;
+    }
+    if (webhook.headCommit && /^0+$/.test(webhook.headCommit)) {
+        return false; // Branch deletion
+    }
+    return !webhook.defaultBranch || webhook.ref === `refs/heads/${webhook.defaultBranch}`;
+}
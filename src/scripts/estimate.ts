@@ -0,0 +1,357 @@
+// --- FILE: scripts/estimate.ts ---
+import 'dotenv/config';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import crypto from 'crypto';
+import { Client } from 'pg';
+import simpleGit, { DefaultLogFields } from 'simple-git';
+import { chunkCodeWithAST } from '../core/chunker';
+import { diffChunks, getChangeRatio, StoredChunk } from '../core/chunkDiff';
+import { selectFilesToIndex } from '../core/fileSelector';
+import { sniffContent } from '../core/contentSniffer';
+import { IndexSettings, indexSettingsFromRow } from '../core/indexSettings';
+import { estimateTokens } from '../core/tokens';
+import { estimateCost } from '../core/pricing';
+import { generateFileSummaryPrompt } from '../core/prompts/fileSummary.prompt';
+import { generateTaskFromCommitPrompt } from '../core/prompts/taskGeneration.prompt';
+import { generateFileDiffSummaryPrompt } from '../core/prompts/diffSummary.prompt';
+import { generateCommitDigestPrompt } from '../core/prompts/commitDigest.prompt';
+import { describeOmissions, prepareCommitDiff, truncateFileDiff } from '../core/commitDiff';
+import { getConfiguredModels } from '../services/llm';
+import { countCachedEmbeddings } from '../services/embeddingCache';
+import { DEFAULT_REF, ResolvedRef, extractRefTree, findRefSnapshot, resolveTrackedRefs } from '../services/git';
+import {
+  IngestionLogger,
+  SUMMARY_REGEN_THRESHOLD,
+  SUMMARY_MAX_TOKENS,
+  TASK_MAX_TOKENS,
+  MIN_TASK_DIFF_LENGTH,
+  TASK_DIFF_MAX_TOKENS,
+  TASK_DIFF_SUMMARIZE_ABOVE_TOKENS,
+  DIFF_SUMMARY_MAX_TOKENS,
+  FILE_DIFF_MAX_TOKENS,
+  MAX_SUMMARIZED_FILES,
+  COMMIT_DIGESTS_ENABLED,
+  COMMIT_DIGEST_DIFF_MAX_TOKENS,
+  COMMIT_DIGEST_MAX_TOKENS,
+  COMMIT_DIGEST_BACKFILL_LIMIT,
+  taskReferencesOf,
+} from './ingest';
+
+const connectionString = process.env.DATABASE_URL!;
+
+// Reading every commit's diff is slow on big histories, so task prompts are sized from a sample.
+const COMMIT_DIFF_SAMPLE_SIZE = parseInt(process.env.ESTIMATE_COMMIT_SAMPLE_SIZE || '300', 10);
+
+export interface CostLine {
+  purpose: 'summarization' | 'task_generation' | 'commit_digests' | 'embeddings';
+  model: string;
+  inputTokens: number;
+  outputTokens: number;
+  /** null when the model is not in the price table. */
+  estimatedUsd: number | null;
+}
+
+/**
+ * What an ingestion would do, computed without calling any model. Output tokens are the
+ * response limits, so the estimate errs on the high side.
+ */
+export interface IngestionEstimate {
+  files: {
+    selected: number;
+    unchanged: number;
+    new: number;
+    changed: number;
+    skipped: Record<string, number>;
+    chunksToEmbed: number;
+    summariesToGenerate: number;
+  };
+  commits: {
+    new: number;
+    closingTasks: number;
+    taskGenerations: number;
+    /** New commits plus existing commits awaiting a backfilled digest. */
+    digests: number;
+    sampled: number;
+  };
+  embeddings: {
+    inputs: number;
+    cachedInputs: number;
+  };
+  costs: CostLine[];
+  totalUsd: number;
+  unpricedModels: string[];
+}
+
+interface FileEstimate {
+  selected: number;
+  unchanged: number;
+  new: number;
+  changed: number;
+  skipped: Record<string, number>;
+  summaryPromptTokens: number;
+  summaries: number;
+  chunkTexts: string[];
+}
+
+async function estimateFiles(client: Client, projectId: number | null, projectPath: string, ref: string, settings: IndexSettings): Promise<FileEstimate> {
+  const { files, oversized } = await selectFilesToIndex(projectPath, settings);
+  const { rows: indexed } = projectId === null
+    ? { rows: [] as any[] }
+    : await client.query('SELECT id, path, content_hash, summary FROM indexed_files WHERE project_id = $1 AND ref = $2', [projectId, ref]);
+  const existingByPath = new Map(indexed.map(row => [row.path, row]));
+
+  const estimate: FileEstimate = {
+    selected: files.length, unchanged: 0, new: 0, changed: 0,
+    skipped: oversized.length > 0 ? { too_large: oversized.length } : {},
+    summaryPromptTokens: 0, summaries: 0, chunkTexts: [],
+  };
+
+  for (const relativePath of files) {
+    const buffer = fs.readFileSync(path.join(projectPath, relativePath));
+    const sniff = sniffContent(buffer, relativePath);
+    if (sniff.skip) {
+      estimate.skipped[sniff.reason] = (estimate.skipped[sniff.reason] || 0) + 1;
+      continue;
+    }
+    const content = buffer.toString('utf-8');
+    if (!content.trim()) {
+      continue;
+    }
+
+    const hash = crypto.createHash('sha256').update(content).digest('hex');
+    const existing = existingByPath.get(relativePath);
+    if (existing && existing.content_hash === hash) {
+      estimate.unchanged++;
+      continue;
+    }
+
+    // Same decisions as indexFile: only changed chunks are embedded, and the summary is
+    // only regenerated above the change threshold.
+    const chunks = chunkCodeWithAST(content, relativePath);
+    const { rows: storedChunks } = existing
+      ? await client.query(
+          `SELECT id, COALESCE(content_hash, encode(sha256(convert_to(content, 'UTF8')), 'hex')) AS content_hash FROM code_chunks WHERE file_id = $1`,
+          [existing.id]
+        )
+      : { rows: [] as StoredChunk[] };
+    const diff = diffChunks(storedChunks, chunks);
+    const regenerateSummary = !existing || !existing.summary || getChangeRatio(diff) >= SUMMARY_REGEN_THRESHOLD;
+
+    if (existing) estimate.changed++; else estimate.new++;
+    estimate.chunkTexts.push(...diff.added.map(c => c.chunk.content));
+    if (regenerateSummary) {
+      estimate.summaries++;
+      estimate.summaryPromptTokens += estimateTokens(generateFileSummaryPrompt(relativePath, content));
+    }
+  }
+  return estimate;
+}
+
+/**
+ * Estimates a tracked ref from its workspace snapshot when that is current. Otherwise the
+ * ref's tree is extracted into a temporary directory, so a dry run never writes to the
+ * workspace an ingestion may be reading.
+ */
+async function estimateRefFiles(client: Client, projectId: number | null, repoPath: string, ref: ResolvedRef, settings: IndexSettings): Promise<FileEstimate> {
+  const snapshotPath = await findRefSnapshot(repoPath, ref, settings.rootDir);
+  if (snapshotPath) {
+    return estimateFiles(client, projectId, snapshotPath, ref.name, settings);
+  }
+  const tempDir = await fs.promises.mkdtemp(path.join(os.tmpdir(), 'brain-estimate-'));
+  try {
+    await extractRefTree(repoPath, ref, settings.rootDir, tempDir);
+    return await estimateFiles(client, projectId, tempDir, ref.name, settings);
+  } finally {
+    await fs.promises.rm(tempDir, { recursive: true, force: true });
+  }
+}
+
+function addFileEstimate(total: FileEstimate, part: FileEstimate): FileEstimate {
+  const skipped = { ...total.skipped };
+  for (const [reason, count] of Object.entries(part.skipped)) {
+    skipped[reason] = (skipped[reason] || 0) + count;
+  }
+  return {
+    selected: total.selected + part.selected,
+    unchanged: total.unchanged + part.unchanged,
+    new: total.new + part.new,
+    changed: total.changed + part.changed,
+    skipped,
+    summaryPromptTokens: total.summaryPromptTokens + part.summaryPromptTokens,
+    summaries: total.summaries + part.summaries,
+    chunkTexts: total.chunkTexts.concat(part.chunkTexts),
+  };
+}
+
+interface CommitEstimate {
+  newCommits: DefaultLogFields[];
+  closingTasks: number;
+  taskGenerations: number;
+  taskPromptTokens: number;
+  /** First-pass summaries of the files of very large commits. */
+  diffSummaries: number;
+  digests: number;
+  digestPromptTokens: number;
+  sampled: number;
+}
+
+async function estimateCommits(client: Client, projectId: number | null, projectPath: string, settings: IndexSettings, trackedRefs: ResolvedRef[]): Promise<CommitEstimate> {
+  const empty: CommitEstimate = { newCommits: [], closingTasks: 0, taskGenerations: 0, taskPromptTokens: 0, diffSummaries: 0, digests: 0, digestPromptTokens: 0, sampled: 0 };
+  if (!fs.existsSync(path.join(projectPath, '.git'))) {
+    return empty;
+  }
+
+  const git = simpleGit(projectPath);
+  const { rows: existingCommits } = projectId === null
+    ? { rows: [] as any[] }
+    : await client.query('SELECT commit_hash FROM commits WHERE project_id = $1', [projectId]);
+  const existingHashes = new Set(existingCommits.map(c => c.commit_hash));
+  // Same walk as syncGitHistory: commits only reachable from a tracked ref are history too.
+  const pathFilter = settings.rootDir ? ['--', settings.rootDir] : [];
+  const revisions = trackedRefs.length > 0 ? [DEFAULT_REF, ...trackedRefs.map(ref => ref.sha)] : [];
+  const log = await git.log([...revisions, ...pathFilter]);
+  const newCommits = log.all.filter(c => !existingHashes.has(c.hash));
+  const { rows: pending } = projectId === null || !COMMIT_DIGESTS_ENABLED
+    ? { rows: [{ count: 0 }] }
+    : await client.query('SELECT COUNT(*)::int AS count FROM commits WHERE project_id = $1 AND digested_at IS NULL', [projectId]);
+  const pendingDigests = Math.min(pending[0].count, COMMIT_DIGEST_BACKFILL_LIMIT);
+
+  // Only default-branch commits act on tasks, including stored ones that have just been merged.
+  const headHashes = trackedRefs.length > 0
+    ? new Set((await git.raw(['rev-list', DEFAULT_REF, ...pathFilter])).split('\n').filter(Boolean))
+    : null;
+  const { rows: deferred } = projectId === null || !headHashes
+    ? { rows: [] as any[] }
+    : await client.query('SELECT commit_hash FROM commits WHERE project_id = $1 AND NOT tasks_applied', [projectId]);
+  const deferredHashes = new Set(deferred.map(c => c.commit_hash));
+  const actingCommits = log.all.filter(c => (!existingHashes.has(c.hash) || deferredHashes.has(c.hash)) && (!headHashes || headHashes.has(c.hash)));
+  const candidates = actingCommits.filter(c => !taskReferencesOf(c).some(reference => reference.relation === 'closes'));
+  const step = Math.max(1, Math.ceil(candidates.length / COMMIT_DIFF_SAMPLE_SIZE));
+  const sample = candidates.filter((_, index) => index % step === 0);
+
+  let sampledGenerations = 0;
+  let sampledPromptTokens = 0;
+  let sampledDiffSummaries = 0;
+  let sampledDigestPromptTokens = 0;
+  for (const commit of sample) {
+    const diff = await git.show(['--patch', '--first-parent', commit.hash]);
+    if (!diff || diff.trim().length < MIN_TASK_DIFF_LENGTH) {
+      continue;
+    }
+    const prepared = prepareCommitDiff(diff, TASK_DIFF_MAX_TOKENS);
+    if (prepared.relevant.length === 0) {
+      continue;
+    }
+    sampledGenerations++;
+    if (COMMIT_DIGESTS_ENABLED) {
+      const trimmed = prepareCommitDiff(diff, COMMIT_DIGEST_DIFF_MAX_TOKENS);
+      const changes = { diff: trimmed.diff, omissions: describeOmissions(trimmed.omitted, trimmed.truncated) };
+      sampledDigestPromptTokens += estimateTokens(generateCommitDigestPrompt(commit.message, changes));
+    }
+    if (prepared.relevantTokens <= TASK_DIFF_SUMMARIZE_ABOVE_TOKENS) {
+      const changes = { diff: prepared.diff, omissions: describeOmissions(prepared.omitted, prepared.truncated) };
+      sampledPromptTokens += estimateTokens(generateTaskFromCommitPrompt(commit.message, changes));
+    } else {
+      // Mirrors describeCommitChanges: a summary per file, then a prompt built from the summaries.
+      const files = prepared.relevant.slice(0, MAX_SUMMARIZED_FILES);
+      files.forEach(file => {
+        sampledPromptTokens += estimateTokens(generateFileDiffSummaryPrompt(file.path, truncateFileDiff(file, FILE_DIFF_MAX_TOKENS).text));
+      });
+      sampledDiffSummaries += files.length;
+      sampledPromptTokens += estimateTokens(generateTaskFromCommitPrompt(commit.message, { diff: null })) + files.length * DIFF_SUMMARY_MAX_TOKENS;
+    }
+  }
+  const scale = sample.length > 0 ? candidates.length / sample.length : 0;
+  // Every commit with a real diff gets a digest, closing ones included; they're sized from the same sample.
+  const digestScale = sample.length > 0 ? (newCommits.length + pendingDigests) / sample.length : 0;
+
+  return {
+    newCommits,
+    closingTasks: actingCommits.length - candidates.length,
+    taskGenerations: Math.round(sampledGenerations * scale),
+    taskPromptTokens: Math.round(sampledPromptTokens * scale),
+    diffSummaries: Math.round(sampledDiffSummaries * scale),
+    digests: COMMIT_DIGESTS_ENABLED ? Math.round(sampledGenerations * digestScale) : 0,
+    digestPromptTokens: Math.round(sampledDigestPromptTokens * digestScale),
+    sampled: sample.length,
+  };
+}
+
+/**
+ * Walks the same file and commit selection as runIngestion and estimates the work and the
+ * model cost of ingesting it. Reads the database but never writes to it or calls a model.
+ * @param projectId The project, or null for a source that was never ingested.
+ */
+export async function estimateIngestion(projectId: number | null, projectPath: string, logger: IngestionLogger): Promise<IngestionEstimate> {
+  const client = new Client({ connectionString });
+  await client.connect();
+  try {
+    const { rows } = projectId === null
+      ? { rows: [] as any[] }
+      : await client.query('SELECT index_root, include_globs, exclude_globs, max_file_size_bytes, tracked_refs FROM projects WHERE id = $1', [projectId]);
+    const settings = indexSettingsFromRow(rows[0]);
+    const isGitRepo = fs.existsSync(path.join(projectPath, '.git'));
+    const trackedRefs = isGitRepo ? await resolveTrackedRefs(projectPath, settings.trackedRefs) : [];
+
+    logger('Estimating file sync...');
+    let files = await estimateFiles(client, projectId, projectPath, DEFAULT_REF, settings);
+    for (const ref of trackedRefs) {
+      logger(`      Estimating ref ${ref.name} (${ref.sha.substring(0, 7)})...`);
+      files = addFileEstimate(files, await estimateRefFiles(client, projectId, projectPath, ref, settings));
+    }
+    logger(`      ${files.new} new and ${files.changed} changed files, ${files.chunkTexts.length} chunks to embed.`);
+    logger('Estimating git history sync...');
+    const commits = await estimateCommits(client, projectId, projectPath, settings, trackedRefs);
+    logger(`      ${commits.newCommits.length} new commits, ~${commits.taskGenerations} task generations.`);
+
+    const { chatModel, embeddingModel } = getConfiguredModels();
+    // Known inputs are checked against the cache; generated summaries, tasks and digests can't be.
+    // With digests on, commits are embedded from their digest rather than their message.
+    const knownInputs = files.chunkTexts.concat(COMMIT_DIGESTS_ENABLED ? [] : commits.newCommits.map(c => c.message));
+    const cachedInputs = await countCachedEmbeddings(embeddingModel, knownInputs);
+    const knownTokens = knownInputs.reduce((sum, text) => sum + estimateTokens(text), 0);
+    const cachedShare = knownInputs.length > 0 ? cachedInputs / knownInputs.length : 0;
+    const embeddingTokens = Math.round(knownTokens * (1 - cachedShare))
+      + files.summaries * SUMMARY_MAX_TOKENS
+      + commits.taskGenerations * TASK_MAX_TOKENS
+      + commits.digests * COMMIT_DIGEST_MAX_TOKENS;
+
+    const lines: Omit<CostLine, 'estimatedUsd'>[] = [
+      { purpose: 'summarization', model: chatModel, inputTokens: files.summaryPromptTokens, outputTokens: files.summaries * SUMMARY_MAX_TOKENS },
+      { purpose: 'task_generation', model: chatModel, inputTokens: commits.taskPromptTokens, outputTokens: commits.taskGenerations * TASK_MAX_TOKENS + commits.diffSummaries * DIFF_SUMMARY_MAX_TOKENS },
+      { purpose: 'commit_digests', model: chatModel, inputTokens: commits.digestPromptTokens, outputTokens: commits.digests * COMMIT_DIGEST_MAX_TOKENS },
+      { purpose: 'embeddings', model: embeddingModel, inputTokens: embeddingTokens, outputTokens: 0 },
+    ];
+    const costs = lines.map(line => ({ ...line, estimatedUsd: estimateCost(line.model, line.inputTokens, line.outputTokens) }));
+
+    return {
+      files: {
+        selected: files.selected,
+        unchanged: files.unchanged,
+        new: files.new,
+        changed: files.changed,
+        skipped: files.skipped,
+        chunksToEmbed: files.chunkTexts.length,
+        summariesToGenerate: files.summaries,
+      },
+      commits: {
+        new: commits.newCommits.length,
+        closingTasks: commits.closingTasks,
+        taskGenerations: commits.taskGenerations,
+        digests: commits.digests,
+        sampled: commits.sampled,
+      },
+      embeddings: {
+        inputs: knownInputs.length + files.summaries + commits.taskGenerations + commits.digests,
+        cachedInputs,
+      },
+      costs,
+      totalUsd: costs.reduce((sum, line) => sum + (line.estimatedUsd || 0), 0),
+      unpricedModels: [...new Set(costs.filter(line => line.estimatedUsd === null).map(line => line.model))],
+    };
+  } finally {
+    await client.end();
+  }
+}
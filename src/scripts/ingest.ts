@@ -1,54 +1,125 @@
 // --- FILE: scripts/ingest.ts ---
 
 import 'dotenv/config';
-import { glob } from 'glob';
 import fs from 'fs';
 import path from 'path';
 import crypto from 'crypto';
 import { Client } from 'pg';
-import OpenAI from 'openai';
-import gitignore from 'gitignore-parser';
 import pgvector from 'pgvector/pg';
-import { chunkCodeWithAST } from '../core/chunker';
+import { chunkCodeWithAST, CodeChunk } from '../core/chunker';
+import { selectFilesToIndex } from '../core/fileSelector';
+import { sniffContent, SkippedFile } from '../core/contentSniffer';
+import { DIFF_TREE_ARGS, parseDiffTree } from '../core/commitChanges';
+import { IndexSettings, indexSettingsFromRow } from '../core/indexSettings';
+import { diffChunks, getChangeRatio, StoredChunk } from '../core/chunkDiff';
+import { getChatCompletion, getJsonChatCompletion } from '../services/llm';
+import { EmbeddingBatcher } from '../services/embeddingBatcher';
 import simpleGit, { SimpleGit, LogResult, DefaultLogFields } from 'simple-git';
+import { DEFAULT_REF, ResolvedRef, resolveTrackedRefs, exportRefSnapshot } from '../services/git';
+import { BLAME_ARGS, BlameLine, parseBlamePorcelain, summarizeChunkAuthors } from '../core/ownership';
+import { extractSymbols, FileSymbols } from '../core/symbols';
+import { branchNamesFromMergeSubject, findTaskReferences, TaskReference } from '../core/taskReferences';
+import { DEFAULT_TASK_MERGE_SETTINGS, mergedTaskLine } from '../core/taskClusters';
 // REFACTORED: Import both dedicated prompt generators
 import { generateFileSummaryPrompt } from '../core/prompts/fileSummary.prompt';
-import { generateTaskFromCommitPrompt } from '../core/prompts/taskGeneration.prompt';
+import { CommitChanges, generateTaskFromCommitPrompt } from '../core/prompts/taskGeneration.prompt';
+import { generateCommitDigestPrompt } from '../core/prompts/commitDigest.prompt';
+import { generateFileDiffSummaryPrompt } from '../core/prompts/diffSummary.prompt';
+import { describeOmissions, OmittedFile, prepareCommitDiff, truncateFileDiff } from '../core/commitDiff';
 
 // --- CONFIGURATION (Global) ---
 const connectionString = process.env.DATABASE_URL!;
-const openaiApiKey = process.env.OPENAI_API_KEY!;
 
-if (!connectionString || !openaiApiKey) {
-  throw new Error('FATAL: Missing environment variables DATABASE_URL or OPENAI_API_KEY');
+if (!connectionString) {
+  throw new Error('FATAL: Missing environment variable DATABASE_URL');
 }
 
-const openai = new OpenAI({ apiKey: openaiApiKey });
-const IGNORED_EXTENSIONS = new Set(['.lock', '.svg', '.png', '.jpg', '.jpeg', '.gif', '.ico']);
-const IGNORED_FILENAMES = new Set(['package-lock.json', 'yarn.lock', 'pnpm-lock.yaml']);
+// A file's summary is only regenerated when at least this share of its chunks changed.
+export const SUMMARY_REGEN_THRESHOLD = parseFloat(process.env.SUMMARY_REGEN_THRESHOLD || '0.2');
+// Commit messages are embedded in windows so huge histories don't hold every vector in memory.
+const COMMIT_EMBEDDING_WINDOW = 200;
+// Response limits of the model calls; the dry-run estimate uses them as output token counts.
+export const SUMMARY_MAX_TOKENS = 100;
+export const TASK_MAX_TOKENS = 400;
+// Diffs shorter than this are treated as trivial and get no generated task.
+export const MIN_TASK_DIFF_LENGTH = 50;
+// The task generator sees at most this much of a commit's diff. Commits whose relevant changes
+// are larger than TASK_DIFF_SUMMARIZE_ABOVE_TOKENS are summarized file by file first.
+export const TASK_DIFF_MAX_TOKENS = parseInt(process.env.TASK_DIFF_MAX_TOKENS || '12000', 10);
+export const TASK_DIFF_SUMMARIZE_ABOVE_TOKENS = parseInt(process.env.TASK_DIFF_SUMMARIZE_ABOVE_TOKENS || '36000', 10);
+export const DIFF_SUMMARY_MAX_TOKENS = 120;
+// Per-file limits of that first pass.
+export const FILE_DIFF_MAX_TOKENS = 4000;
+export const MAX_SUMMARIZED_FILES = 25;
+// Each commit gets a short digest written from its diff, embedded in place of its message.
+// Set COMMIT_DIGESTS=false to embed raw messages only.
+export const COMMIT_DIGESTS_ENABLED = process.env.COMMIT_DIGESTS !== 'false';
+export const COMMIT_DIGEST_DIFF_MAX_TOKENS = parseInt(process.env.COMMIT_DIGEST_DIFF_MAX_TOKENS || '4000', 10);
+export const COMMIT_DIGEST_MAX_TOKENS = 150;
+// Commits ingested before digests existed are backfilled, at most this many per run.
+export const COMMIT_DIGEST_BACKFILL_LIMIT = parseInt(process.env.COMMIT_DIGEST_BACKFILL_LIMIT || '500', 10);
 
 export type IngestionLogger = (message: string) => void;
 
-// --- CORE HELPER FUNCTIONS ---
-async function getEmbedding(text: string): Promise<number[]> {
-  const response = await openai.embeddings.create({
-    model: 'text-embedding-3-small',
-    input: text.replace(/\n/g, ' '),
-  });
-  return response.data[0].embedding;
+export type IngestionStage = 'fetching' | 'files' | 'git_history';
+
+/**
+ * Receives progress from a running ingestion. The REST API persists it as an ingestion run;
+ * the CLI uses the no-op default.
+ */
+export interface IngestionProgress {
+  /** Files sorting at or before this path were finished by an interrupted run and are skipped. */
+  resumeAfterFile?: string | null;
+  isCancelled(): boolean;
+  stageStarted(stage: IngestionStage): void;
+  itemsFound(stage: IngestionStage, total: number): void;
+  itemDone(stage: IngestionStage, item: string): void;
+  itemFailed(stage: IngestionStage, item: string, message: string): void;
+}
+
+export class IngestionCancelledError extends Error {
+  constructor() {
+    super('Ingestion was cancelled.');
+    this.name = 'IngestionCancelledError';
+  }
+}
+
+const noopProgress: IngestionProgress = {
+  isCancelled: () => false,
+  stageStarted: () => {},
+  itemsFound: () => {},
+  itemDone: () => {},
+  itemFailed: () => {},
+};
+
+function throwIfCancelled(progress: IngestionProgress) {
+  if (progress.isCancelled()) {
+    throw new IngestionCancelledError();
+  }
+}
+
+/**
+ * Progress for indexing a tracked ref other than the default branch. Counters and the resume
+ * cursor describe the default branch only, so just cancellation and failures are passed on;
+ * unchanged files on other refs are cheap to re-check after an interrupted run.
+ */
+function refProgress(progress: IngestionProgress, ref: string): IngestionProgress {
+  return {
+    isCancelled: () => progress.isCancelled(),
+    stageStarted: () => {},
+    itemsFound: () => {},
+    itemDone: () => {},
+    itemFailed: (stage, item, message) => progress.itemFailed(stage, `${ref}:${item}`, message),
+  };
 }
 
+// --- CORE HELPER FUNCTIONS ---
 // REFACTORED: This function now uses the imported prompt
 async function summarizeFile(filePath: string, content: string, logger: IngestionLogger): Promise<string> {
   const prompt = generateFileSummaryPrompt(filePath, content);
   try {
-    const response = await openai.chat.completions.create({
-      model: 'gpt-4o',
-      messages: [{ role: 'user', content: prompt }],
-      max_tokens: 100,
-      temperature: 0.1,
-    });
-    return response.choices[0].message.content?.trim() || "Could not generate a summary.";
+    const summary = await getChatCompletion([{ role: 'user', content: prompt }], { maxTokens: SUMMARY_MAX_TOKENS, temperature: 0.1 });
+    return summary?.trim() || "Could not generate a summary.";
   } catch (error) {
     logger(`  - Failed to summarize ${filePath}: ${error instanceof Error ? error.message : String(error)}`);
     return "Summary generation failed.";
@@ -56,131 +127,631 @@ async function summarizeFile(filePath: string, content: string, logger: Ingestio
 }
 
 // --- MAIN INGESTION LOGIC ---
-export async function runIngestion(projectId: number, projectPath: string, logger: IngestionLogger) {
+export async function runIngestion(projectId: number, projectPath: string, logger: IngestionLogger, progress: IngestionProgress = noopProgress) {
   const client = new Client({ connectionString });
   await client.connect();
   await pgvector.registerType(client);
   logger('Database connection established.');
 
   const git: SimpleGit = simpleGit(projectPath);
+  const batcher = new EmbeddingBatcher({ logger });
 
   try {
-    await syncFiles(client, projectId, projectPath, logger);
-    await syncGitHistory(client, projectId, git, logger);
+    const { rows } = await client.query(
+      'SELECT index_root, include_globs, exclude_globs, max_file_size_bytes, tracked_refs, keep_history FROM projects WHERE id = $1',
+      [projectId]
+    );
+    const settings = indexSettingsFromRow(rows[0]);
+    if (settings.rootDir) {
+      logger(`Indexing sub-project rooted at ${settings.rootDir}/`);
+    }
+    const isGitRepo = fs.existsSync(path.join(projectPath, '.git'));
+    const trackedRefs = isGitRepo ? await resolveTrackedRefs(projectPath, settings.trackedRefs) : [];
+    await pruneUntrackedRefs(client, projectId, trackedRefs, logger);
+
+    progress.stageStarted('files');
+    await syncFiles(client, projectId, projectPath, DEFAULT_REF, settings, batcher, logger, progress);
+    if (isGitRepo) {
+      await syncChunkHistory(client, projectId, git, settings, logger, progress);
+      await syncOwnership(client, projectId, git, logger, progress);
+    } else if (settings.keepHistory) {
+      logger('History is only kept for git repositories; skipping.');
+    }
+    // Extra refs are indexed from snapshots of their trees.
+    for (const ref of trackedRefs) {
+      throwIfCancelled(progress);
+      logger(`\nIndexing ref ${ref.name} (${ref.sha.substring(0, 7)})...`);
+      const snapshotPath = await exportRefSnapshot(projectPath, ref, settings.rootDir);
+      await syncFiles(client, projectId, snapshotPath, ref.name, settings, batcher, logger, refProgress(progress, ref.name));
+    }
+
+    if (isGitRepo) {
+      progress.stageStarted('git_history');
+      await syncGitHistory(client, projectId, git, settings, trackedRefs, batcher, logger, progress);
+      await syncCommitRefs(client, projectId, git, settings, trackedRefs, logger);
+      await backfillCommitDigests(client, projectId, git, batcher, logger, progress);
+    } else {
+      logger('No .git directory found; skipping git history sync.');
+    }
+    batcher.reportThroughput();
   } finally {
     logger('Ingestion process finished. Closing database connection.');
     await client.end();
   }
 }
 
+/**
+ * Drops the index of refs that are no longer tracked (or no longer exist).
+ */
+async function pruneUntrackedRefs(client: Client, projectId: number, trackedRefs: ResolvedRef[], logger: IngestionLogger) {
+  const keep = [DEFAULT_REF, ...trackedRefs.map(ref => ref.name)];
+  const { rowCount } = await client.query(
+    'DELETE FROM indexed_files WHERE project_id = $1 AND NOT (ref = ANY($2::text[]))',
+    [projectId, keep]
+  );
+  await client.query('DELETE FROM skipped_files WHERE project_id = $1 AND NOT (ref = ANY($2::text[]))', [projectId, keep]);
+  await client.query(
+    'DELETE FROM commit_refs WHERE NOT (ref = ANY($2::text[])) AND commit_id IN (SELECT id FROM commits WHERE project_id = $1)',
+    [projectId, keep]
+  );
+  if (rowCount) {
+    logger(`Removed ${rowCount} files of refs that are no longer tracked.`);
+  }
+}
+
 // --- STAGE 1: Sync Filesystem State ---
-// This function remains the same, but its call to summarizeFile is now cleaner.
-async function syncFiles(client: Client, projectId: number, projectPath: string, logger: IngestionLogger) {
-  logger(`[1/4] Starting file sync for project ID: ${projectId}`);
-  
-  logger(`[2/4] Pruning deleted files from the database...`);
-  const { rows: dbFiles } = await client.query('SELECT path FROM indexed_files WHERE project_id = $1', [projectId]);
-  const dbPaths = new Set(dbFiles.map(f => f.path));
-  
-  const allDiskFiles = await glob('**/*', { cwd: projectPath, nodir: true, dot: true, ignore: ['**/node_modules/**', '**/.git/**'] });
-  const diskPaths = new Set(allDiskFiles);
+// MODIFIED: Files are selected by the project's index settings; paths stay relative to the repository root.
+// Each ref has its own set of indexed files.
+async function syncFiles(client: Client, projectId: number, projectPath: string, ref: string, settings: IndexSettings, batcher: EmbeddingBatcher, logger: IngestionLogger, progress: IngestionProgress) {
+  logger(`[1/4] Starting file sync for project ID: ${projectId} (${ref})`);
 
-  const pathsToDelete = [...dbPaths].filter(p => !diskPaths.has(p));
+  const { files: filesToIndex, ignoredCount, oversized } = await selectFilesToIndex(projectPath, settings);
+  logger(`      Skipped ${ignoredCount} ignored and ${oversized.length} oversized files.`);
+  // Skip records of files that no longer exist (or are excluded now) are dropped; the rest are refreshed below.
+  await client.query(
+    'DELETE FROM skipped_files WHERE project_id = $1 AND ref = $2 AND NOT (path = ANY($3::text[]))',
+    [projectId, ref, filesToIndex.concat(oversized.map(f => f.path))]
+  );
+  for (const file of oversized) {
+    await recordSkippedFile(client, projectId, ref, file);
+  }
+
+  // Files that were deleted, or that the index settings no longer select, are removed.
+  logger(`[2/4] Pruning deleted files from the database...`);
+  const { rows: dbFiles } = await client.query('SELECT path FROM indexed_files WHERE project_id = $1 AND ref = $2', [projectId, ref]);
+  const selectedPaths = new Set(filesToIndex);
+  const pathsToDelete = dbFiles.map(f => f.path).filter(p => !selectedPaths.has(p));
 
   if (pathsToDelete.length > 0) {
     logger(`      Found ${pathsToDelete.length} files to delete.`);
-    await client.query('DELETE FROM indexed_files WHERE project_id = $1 AND path = ANY($2::text[])', [projectId, pathsToDelete]);
+    await client.query('DELETE FROM indexed_files WHERE project_id = $1 AND ref = $2 AND path = ANY($3::text[])', [projectId, ref, pathsToDelete]);
     logger(`      -> Pruning complete.`);
   } else {
     logger(`      -> No files to prune.`);
   }
 
-  const gitignorePath = path.join(projectPath, '.gitignore');
-  const ignore = fs.existsSync(gitignorePath)
-    ? gitignore.compile(fs.readFileSync(gitignorePath, 'utf8'))
-    : { accepts: (_p: string) => true };
-
-  const filesToIndex = allDiskFiles.filter(file => {
-    const ext = path.extname(file);
-    const filename = path.basename(file);
-    return ignore.accepts(file) && !IGNORED_EXTENSIONS.has(ext) && !IGNORED_FILENAMES.has(filename);
-  });
-
   logger(`[3/4] Found ${filesToIndex.length} files to process for additions/modifications.`);
+  progress.itemsFound('files', filesToIndex.length);
+  if (progress.resumeAfterFile) {
+    logger(`      Resuming after ${progress.resumeAfterFile}.`);
+  }
   let processedCount = 0;
+  let skippedCount = 0;
+  const acceptedPaths: string[] = [];
 
   for (const relativePath of filesToIndex) {
+    throwIfCancelled(progress);
+    if (progress.resumeAfterFile && relativePath <= progress.resumeAfterFile) {
+      progress.itemDone('files', relativePath);
+      continue;
+    }
+
     const fullPath = path.join(projectPath, relativePath);
-    const content = fs.readFileSync(fullPath, 'utf-8');
-    if (!content.trim()) continue;
+    const buffer = fs.readFileSync(fullPath);
+    const sniff = sniffContent(buffer, relativePath);
+    if (sniff.skip) {
+      skippedCount++;
+      await recordSkippedFile(client, projectId, ref, { path: relativePath, reason: sniff.reason, detail: sniff.detail, sizeBytes: buffer.length });
+      progress.itemDone('files', relativePath);
+      continue;
+    }
+    acceptedPaths.push(relativePath);
+
+    const content = buffer.toString('utf-8');
+    if (!content.trim()) {
+      progress.itemDone('files', relativePath);
+      continue;
+    }
 
     const hash = crypto.createHash('sha256').update(content).digest('hex');
-    const { rows } = await client.query('SELECT content_hash FROM indexed_files WHERE project_id = $1 AND path = $2', [projectId, relativePath]);
+    const { rows } = await client.query(
+      'SELECT id, content_hash, summary FROM indexed_files WHERE project_id = $1 AND ref = $2 AND path = $3',
+      [projectId, ref, relativePath]
+    );
 
     if (rows.length > 0 && rows[0].content_hash === hash) {
+      progress.itemDone('files', relativePath);
       continue;
     }
 
     processedCount++;
     logger(`      Processing changed file: ${relativePath}`);
 
+    try {
+      await indexFile(client, projectId, ref, relativePath, content, hash, rows[0] || null, batcher, logger);
+      progress.itemDone('files', relativePath);
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      logger(`      Failed to process ${relativePath}: ${message}`);
+      progress.itemFailed('files', relativePath, message);
+    }
+  }
+  if (acceptedPaths.length > 0) {
+    await client.query('DELETE FROM skipped_files WHERE project_id = $1 AND ref = $2 AND path = ANY($3::text[])', [projectId, ref, acceptedPaths]);
+  }
+  logger(`[4/4] File sync complete. Processed ${processedCount} new or changed files, skipped ${skippedCount} by content.`);
+  await syncSymbols(client, projectId, projectPath, ref, logger, progress);
+}
+
+/**
+ * Extracts the symbol and import graph of files whose content changed since it was last extracted.
+ */
+async function syncSymbols(client: Client, projectId: number, projectPath: string, ref: string, logger: IngestionLogger, progress: IngestionProgress) {
+  const { rows: files } = await client.query(
+    `SELECT id, path, content_hash FROM indexed_files
+     WHERE project_id = $1 AND ref = $2 AND symbols_hash IS DISTINCT FROM content_hash ORDER BY path`,
+    [projectId, ref]
+  );
+  if (files.length === 0) {
+    return;
+  }
+  logger(`Extracting symbols and imports from ${files.length} files...`);
+
+  for (const file of files) {
+    throwIfCancelled(progress);
+    let symbols: FileSymbols;
+    try {
+      symbols = extractSymbols(await fs.promises.readFile(path.join(projectPath, file.path), 'utf-8'), file.path);
+    } catch (error) {
+      logger(`      -> Could not extract symbols from ${file.path}: ${error instanceof Error ? error.message : error}`);
+      continue;
+    }
+
     await client.query('BEGIN');
     try {
-      await client.query('DELETE FROM indexed_files WHERE project_id = $1 AND path = $2', [projectId, relativePath]);
-      
-      const summary = await summarizeFile(relativePath, content, logger);
-      const summaryEmbedding = await getEmbedding(summary);
-      
+      await client.query('DELETE FROM code_symbols WHERE file_id = $1', [file.id]);
+      await client.query('DELETE FROM file_imports WHERE file_id = $1', [file.id]);
+      await client.query('DELETE FROM symbol_references WHERE file_id = $1', [file.id]);
+      const { definitions, imports, references } = symbols;
+      await client.query(
+        `INSERT INTO code_symbols (file_id, name, kind, start_line, end_line, exported)
+         SELECT $1, * FROM unnest($2::text[], $3::text[], $4::int[], $5::int[], $6::boolean[])`,
+        [file.id, definitions.map(d => d.name), definitions.map(d => d.kind), definitions.map(d => d.start_line), definitions.map(d => d.end_line), definitions.map(d => d.exported)]
+      );
+      for (const edge of imports) {
+        await client.query(
+          'INSERT INTO file_imports (file_id, specifier, names, candidate_paths, line) VALUES ($1, $2, $3, $4, $5)',
+          [file.id, edge.specifier, edge.names, edge.candidatePaths, edge.line]
+        );
+      }
+      await client.query(
+        `INSERT INTO symbol_references (file_id, name, line)
+         SELECT $1, * FROM unnest($2::text[], $3::int[]) ON CONFLICT DO NOTHING`,
+        [file.id, references.map(r => r.name), references.map(r => r.line)]
+      );
+      await client.query('UPDATE indexed_files SET symbols_hash = $1 WHERE id = $2', [file.content_hash, file.id]);
+      await client.query('COMMIT');
+    } catch (error) {
+      await client.query('ROLLBACK');
+      throw error;
+    }
+  }
+}
+
+/**
+ * Records why a file was left out, and removes it from the index if an earlier sync had indexed it.
+ */
+async function recordSkippedFile(client: Client, projectId: number, ref: string, file: SkippedFile) {
+  await client.query(
+    `INSERT INTO skipped_files (project_id, ref, path, reason, detail, size_bytes) VALUES ($1, $2, $3, $4, $5, $6)
+     ON CONFLICT (project_id, ref, path) DO UPDATE SET
+       reason = EXCLUDED.reason, detail = EXCLUDED.detail, size_bytes = EXCLUDED.size_bytes, skipped_at = NOW()`,
+    [projectId, ref, file.path, file.reason, file.detail, file.sizeBytes]
+  );
+  await client.query('DELETE FROM indexed_files WHERE project_id = $1 AND ref = $2 AND path = $3', [projectId, ref, file.path]);
+}
+
+interface ExistingFile {
+  id: number;
+  content_hash: string;
+  summary: string | null;
+}
+
+/**
+ * Indexes a new or changed file. The file row is kept stable across edits, so links from
+ * commits and knowledge notes survive; only chunks whose content changed are replaced.
+ */
+async function indexFile(
+  client: Client,
+  projectId: number,
+  ref: string,
+  relativePath: string,
+  content: string,
+  hash: string,
+  existing: ExistingFile | null,
+  batcher: EmbeddingBatcher,
+  logger: IngestionLogger
+) {
+  const chunks = chunkCodeWithAST(content, relativePath);
+
+  const { rows: storedChunks } = existing
+    ? await client.query(
+        `SELECT id, COALESCE(content_hash, encode(sha256(convert_to(content, 'UTF8')), 'hex')) AS content_hash FROM code_chunks WHERE file_id = $1`,
+        [existing.id]
+      )
+    : { rows: [] as StoredChunk[] };
+  const diff = diffChunks(storedChunks, chunks);
+  const changeRatio = getChangeRatio(diff);
+  const regenerateSummary = !existing || !existing.summary || changeRatio >= SUMMARY_REGEN_THRESHOLD;
+
+  if (existing) {
+    logger(`      -> ${diff.added.length} chunks added/changed, ${diff.removed.length} removed, ${diff.kept.length} unchanged.`);
+    if (!regenerateSummary) {
+      logger(`      -> Change ratio ${(changeRatio * 100).toFixed(0)}% is below the summary threshold; keeping the existing summary.`);
+    }
+  }
+
+  // Summaries and embeddings are computed before the transaction opens, so a slow
+  // or rate-limited model call never holds database locks.
+  // The same content is often indexed on several refs; its summary is reused rather than regenerated.
+  const { rows: [sameContent] } = regenerateSummary
+    ? await client.query(
+        `SELECT summary, summary_embedding FROM indexed_files
+         WHERE project_id = $1 AND path = $2 AND content_hash = $3 AND summary IS NOT NULL AND summary_embedding IS NOT NULL
+         LIMIT 1`,
+        [projectId, relativePath, hash]
+      )
+    : { rows: [] };
+  const summary = !regenerateSummary ? existing!.summary! : sameContent ? sameContent.summary : await summarizeFile(relativePath, content, logger);
+  const embedSummary = regenerateSummary && !sameContent;
+  // A chunk's text is embedded once per project: identical chunks (in this file, or in another
+  // file or ref) share an embedding.
+  const chunkEmbeddings = new Map<string, number[]>();
+  if (diff.added.length > 0) {
+    const { rows: reusable } = await client.query(
+      `SELECT DISTINCT ON (c.content_hash) c.content_hash, c.embedding FROM code_chunks c
+       JOIN indexed_files f ON f.id = c.file_id
+       WHERE f.project_id = $1 AND c.content_hash = ANY($2::text[])`,
+      [projectId, diff.added.map(c => c.hash)]
+    );
+    reusable.forEach(row => chunkEmbeddings.set(row.content_hash, row.embedding));
+  }
+  const chunksToEmbed = diff.added.filter((c, i) =>
+    !chunkEmbeddings.has(c.hash) && diff.added.findIndex(other => other.hash === c.hash) === i);
+  const textsToEmbed = [...(embedSummary ? [summary] : []), ...chunksToEmbed.map(c => c.chunk.content)];
+  const embeddings = await batcher.embed(textsToEmbed);
+  const summaryEmbedding = !regenerateSummary ? null : embedSummary ? embeddings.shift()! : sameContent.summary_embedding as number[];
+  chunksToEmbed.forEach((c, i) => chunkEmbeddings.set(c.hash, embeddings[i]));
+
+  await client.query('BEGIN');
+  try {
+    let fileId: number;
+    if (existing) {
+      fileId = existing.id;
+      if (summaryEmbedding) {
+        await client.query(
+          'UPDATE indexed_files SET content_hash = $1, summary = $2, summary_embedding = $3, last_indexed_at = NOW() WHERE id = $4',
+          [hash, summary, pgvector.toSql(summaryEmbedding), fileId]
+        );
+      } else {
+        await client.query('UPDATE indexed_files SET content_hash = $1, last_indexed_at = NOW() WHERE id = $2', [hash, fileId]);
+      }
+    } else {
       const fileInsertResult = await client.query(
-        'INSERT INTO indexed_files (project_id, path, content_hash, summary, summary_embedding, last_indexed_at) VALUES ($1, $2, $3, $4, $5, NOW()) RETURNING id',
-        [projectId, relativePath, hash, summary, pgvector.toSql(summaryEmbedding)]
+        'INSERT INTO indexed_files (project_id, ref, path, content_hash, summary, summary_embedding, last_indexed_at) VALUES ($1, $2, $3, $4, $5, $6, NOW()) RETURNING id',
+        [projectId, ref, relativePath, hash, summary, pgvector.toSql(summaryEmbedding)]
       );
-      const fileId = fileInsertResult.rows[0].id;
-      
-      const chunks = chunkCodeWithAST(content);
-      for (const chunk of chunks) {
-        const chunkEmbedding = await getEmbedding(chunk.content);
+      fileId = fileInsertResult.rows[0].id;
+      // Commits recorded while the path wasn't indexed (or under an earlier row) point at the new row.
+      // Commit history links to the default branch's copy of a file.
+      if (ref === DEFAULT_REF) {
+        await client.query(
+          `UPDATE commit_files SET file_id = $1
+           WHERE path = $2 AND change_type != 'D' AND file_id IS NULL
+             AND commit_id IN (SELECT id FROM commits WHERE project_id = $3)`,
+          [fileId, relativePath, projectId]
+        );
+      }
+    }
+
+    if (diff.removed.length > 0) {
+      await client.query('DELETE FROM code_chunks WHERE id = ANY($1::int[])', [diff.removed.map(c => c.id)]);
+    }
+
+    const chunkIds = new Map<CodeChunk, number>();
+
+    // Unchanged chunks may still have moved within the file.
+    for (const { stored, incoming } of diff.kept) {
+      const { metadata } = incoming.chunk;
+      await client.query(
+        'UPDATE code_chunks SET chunk_name = $1, chunk_type = $2, start_line = $3, end_line = $4, content_hash = $5 WHERE id = $6',
+        [metadata.name, metadata.type, metadata.start_line, metadata.end_line, incoming.hash, stored.id]
+      );
+      chunkIds.set(incoming.chunk, stored.id);
+    }
+
+    for (const { chunk, hash: chunkHash } of diff.added) {
+      const { rows: [inserted] } = await client.query(
+        `INSERT INTO code_chunks (file_id, chunk_name, chunk_type, content, content_hash, start_line, end_line, embedding) VALUES ($1, $2, $3, $4, $5, $6, $7, $8) RETURNING id`,
+        [fileId, chunk.metadata.name, chunk.metadata.type, chunk.content, chunkHash, chunk.metadata.start_line, chunk.metadata.end_line, pgvector.toSql(chunkEmbeddings.get(chunkHash)!)]
+      );
+      chunkIds.set(chunk, inserted.id);
+    }
+
+    // Link each chunk to its enclosing chunk (a method to its class).
+    const parentIds = chunks.map(chunk => chunk.metadata.parent_index === null ? null : chunkIds.get(chunks[chunk.metadata.parent_index])!);
+    await client.query(
+      `UPDATE code_chunks c SET parent_id = u.parent_id
+       FROM unnest($1::int[], $2::int[]) AS u(id, parent_id)
+       WHERE c.id = u.id AND c.parent_id IS DISTINCT FROM u.parent_id`,
+      [chunks.map(chunk => chunkIds.get(chunk)!), parentIds]
+    );
+    await client.query('COMMIT');
+  } catch (error) {
+    await client.query('ROLLBACK');
+    throw error;
+  }
+}
+
+const CHUNK_HASH_SQL = `COALESCE(content_hash, encode(sha256(convert_to(content, 'UTF8')), 'hex'))`;
+
+/**
+ * Finds the commit that last touched a path (for a deleted file, the commit that deleted it).
+ * Files git doesn't know about are dated to HEAD.
+ */
+async function lastCommitTouching(git: SimpleGit, filePath: string): Promise<{ hash: string; date: string }> {
+  const output = (await git.raw(['log', '-1', '--format=%H%x09%aI', '--', filePath])).trim()
+    || (await git.raw(['log', '-1', '--format=%H%x09%aI', DEFAULT_REF])).trim();
+  const [hash, date] = output.split('\t');
+  return { hash, date };
+}
+
+/**
+ * Keeps the version history of the default branch's chunks for queries at a past commit.
+ * Whenever a file's content differs from what was last recorded, its open chunk versions are
+ * closed and the current chunks recorded, both dated to the commit that last touched the file.
+ * Chunk content and embeddings are stored once per content hash, so nothing is re-embedded.
+ */
+async function syncChunkHistory(client: Client, projectId: number, git: SimpleGit, settings: IndexSettings, logger: IngestionLogger, progress: IngestionProgress) {
+  if (!settings.keepHistory) {
+    // History with a gap in it would answer wrongly, so turning it off drops it.
+    const { rowCount } = await client.query('DELETE FROM chunk_contents WHERE project_id = $1', [projectId]);
+    if (rowCount) {
+      await client.query('UPDATE indexed_files SET history_hash = NULL WHERE project_id = $1', [projectId]);
+      await client.query('UPDATE projects SET history_since = NULL WHERE id = $1', [projectId]);
+      await client.query('DELETE FROM history_snapshots WHERE project_id = $1', [projectId]);
+      logger('History is turned off; dropped the recorded chunk history.');
+    }
+    return;
+  }
+
+  const { rows: changedFiles } = await client.query(
+    `SELECT id, path, content_hash FROM indexed_files
+     WHERE project_id = $1 AND ref = $2 AND history_hash IS DISTINCT FROM content_hash`,
+    [projectId, DEFAULT_REF]
+  );
+  const { rows: removedFiles } = await client.query(
+    `SELECT DISTINCT path FROM chunk_versions v
+     WHERE v.project_id = $1 AND v.valid_to_at IS NULL
+       AND NOT EXISTS (SELECT 1 FROM indexed_files f WHERE f.project_id = $1 AND f.ref = $2 AND f.path = v.path)`,
+    [projectId, DEFAULT_REF]
+  );
+  if (changedFiles.length > 0 || removedFiles.length > 0) {
+    logger(`\nRecording chunk history: ${changedFiles.length} changed and ${removedFiles.length} removed files.`);
+  }
+
+  for (const file of [...changedFiles, ...removedFiles]) {
+    throwIfCancelled(progress);
+    const commit = await lastCommitTouching(git, file.path);
+    await client.query('BEGIN');
+    try {
+      await client.query(
+        'UPDATE chunk_versions SET valid_to_commit = $3, valid_to_at = $4 WHERE project_id = $1 AND path = $2 AND valid_to_at IS NULL',
+        [projectId, file.path, commit.hash, commit.date]
+      );
+      if (file.id) {
+        await client.query(
+          `INSERT INTO chunk_contents (project_id, content_hash, content, embedding)
+           SELECT $1, ${CHUNK_HASH_SQL}, content, embedding FROM code_chunks WHERE file_id = $2
+           ON CONFLICT (project_id, content_hash) DO NOTHING`,
+          [projectId, file.id]
+        );
         await client.query(
-          `INSERT INTO code_chunks (file_id, chunk_name, chunk_type, content, start_line, end_line, embedding) VALUES ($1, $2, $3, $4, $5, $6, $7)`,
-          [fileId, chunk.metadata.name, chunk.metadata.type, chunk.content, chunk.metadata.start_line, chunk.metadata.end_line, pgvector.toSql(chunkEmbedding)]
+          `INSERT INTO chunk_versions (project_id, path, content_id, chunk_name, chunk_type, start_line, end_line, valid_from_commit, valid_from_at)
+           SELECT $1, $2, cc.id, c.chunk_name, c.chunk_type, c.start_line, c.end_line, $3, $4
+           FROM (SELECT *, ${CHUNK_HASH_SQL} AS hash FROM code_chunks WHERE file_id = $5) c
+           JOIN chunk_contents cc ON cc.project_id = $1 AND cc.content_hash = c.hash`,
+          [projectId, file.path, commit.hash, commit.date, file.id]
         );
+        await client.query('UPDATE indexed_files SET history_hash = $1 WHERE id = $2', [file.content_hash, file.id]);
       }
       await client.query('COMMIT');
     } catch (error) {
       await client.query('ROLLBACK');
-      logger(`      Failed to process ${relativePath}: ${error instanceof Error ? error.message : String(error)}`);
+      throw error;
+    }
+  }
+
+  // Files deleted before history was turned on are unknown, so history is only complete from here on.
+  const [headHash, headDate] = (await git.raw(['log', '-1', '--format=%H%x09%aI', DEFAULT_REF])).trim().split('\t');
+  await client.query('UPDATE projects SET history_since = $2 WHERE id = $1 AND history_since IS NULL', [projectId, headDate]);
+  // The code is known exactly at this head; see resolveAsOf.
+  await client.query(
+    'INSERT INTO history_snapshots (project_id, commit_hash, commit_date) VALUES ($1, $2, $3) ON CONFLICT DO NOTHING',
+    [projectId, headHash, headDate]
+  );
+}
+
+/**
+ * Records who wrote each chunk of the default branch, from `git blame`. Blame is redone for
+ * files whose content changed since it was last computed.
+ */
+async function syncOwnership(client: Client, projectId: number, git: SimpleGit, logger: IngestionLogger, progress: IngestionProgress) {
+  const { rows: files } = await client.query(
+    `SELECT id, path, content_hash FROM indexed_files
+     WHERE project_id = $1 AND ref = $2 AND blame_hash IS DISTINCT FROM content_hash ORDER BY path`,
+    [projectId, DEFAULT_REF]
+  );
+  if (files.length === 0) {
+    return;
+  }
+  logger(`\nComputing code ownership for ${files.length} files...`);
+
+  for (const file of files) {
+    throwIfCancelled(progress);
+    let blame: BlameLine[] = [];
+    try {
+      blame = parseBlamePorcelain(await git.raw([...BLAME_ARGS, '--', file.path]));
+    } catch (error) {
+      // Untracked files have no blame; they get owners once committed.
+      logger(`      -> No blame for ${file.path}: ${error instanceof Error ? error.message.split('\n')[0] : error}`);
+    }
+
+    const { rows: chunks } = await client.query('SELECT id, start_line, end_line FROM code_chunks WHERE file_id = $1', [file.id]);
+    await client.query('BEGIN');
+    try {
+      await client.query('DELETE FROM chunk_authors WHERE chunk_id = ANY($1::int[])', [chunks.map(c => c.id)]);
+      for (const chunk of chunks) {
+        for (const author of summarizeChunkAuthors(blame, chunk.start_line, chunk.end_line)) {
+          await client.query(
+            `INSERT INTO chunk_authors (chunk_id, author_name, author_email, line_count, share, last_touched_at) VALUES ($1, $2, $3, $4, $5, $6)`,
+            [chunk.id, author.authorName, author.authorEmail, author.lineCount, author.share, author.lastTouchedAt]
+          );
+        }
+      }
+      await client.query('UPDATE indexed_files SET blame_hash = $1 WHERE id = $2', [file.content_hash, file.id]);
+      await client.query('COMMIT');
+    } catch (error) {
+      await client.query('ROLLBACK');
+      throw error;
     }
   }
-  logger(`[4/4] File sync complete. Processed ${processedCount} new or changed files.`);
 }
 
 // --- STAGE 2: Sync Git Commit History ---
 
+function pathFilter(settings: IndexSettings): string[] {
+  return settings.rootDir ? ['--', settings.rootDir] : [];
+}
+
+/**
+ * Records which refs contain each commit, so history can be narrowed to a branch or tag.
+ */
+async function syncCommitRefs(client: Client, projectId: number, git: SimpleGit, settings: IndexSettings, trackedRefs: ResolvedRef[], logger: IngestionLogger) {
+  const headSha = (await git.revparse([DEFAULT_REF])).trim();
+  const refs = [{ name: DEFAULT_REF, sha: headSha }, ...trackedRefs];
+  for (const ref of refs) {
+    const output = await git.raw(['rev-list', ref.sha, ...pathFilter(settings)]);
+    const hashes = output.split('\n').filter(Boolean);
+    await client.query('BEGIN');
+    try {
+      await client.query(
+        `DELETE FROM commit_refs WHERE ref = $1
+           AND commit_id IN (SELECT id FROM commits WHERE project_id = $2 AND NOT (commit_hash = ANY($3::text[])))`,
+        [ref.name, projectId, hashes]
+      );
+      await client.query(
+        `INSERT INTO commit_refs (commit_id, ref)
+         SELECT id, $1 FROM commits WHERE project_id = $2 AND commit_hash = ANY($3::text[])
+         ON CONFLICT DO NOTHING`,
+        [ref.name, projectId, hashes]
+      );
+      await client.query('COMMIT');
+    } catch (error) {
+      await client.query('ROLLBACK');
+      throw error;
+    }
+  }
+  logger(`Recorded ref membership for ${refs.length} ref(s).`);
+}
+
+/**
+ * Decides what the task generator sees of a commit. Most commits get their filtered diff, cut to
+ * TASK_DIFF_MAX_TOKENS. For very large commits the most relevant files' diffs are summarized
+ * one by one, and the generator works from those summaries.
+ * @returns null when there is nothing to generate a task from: only lockfiles, generated,
+ *   vendored or binary files changed, or none of the file summaries could be written.
+ */
+async function describeCommitChanges(patch: string, logger: IngestionLogger): Promise<CommitChanges | null> {
+    const prepared = prepareCommitDiff(patch, TASK_DIFF_MAX_TOKENS);
+    if (prepared.relevant.length === 0) {
+        return null;
+    }
+    if (prepared.relevantTokens <= TASK_DIFF_SUMMARIZE_ABOVE_TOKENS) {
+        return { diff: prepared.diff, omissions: describeOmissions(prepared.omitted, prepared.truncated) };
+    }
+
+    const files = prepared.relevant.slice(0, MAX_SUMMARIZED_FILES);
+    logger(`      -> Large commit (~${prepared.relevantTokens} tokens of diff); summarizing ${files.length} file(s) first.`);
+    const fileSummaries: { path: string; summary: string }[] = [];
+    for (const file of files) {
+        const prompt = generateFileDiffSummaryPrompt(file.path, truncateFileDiff(file, FILE_DIFF_MAX_TOKENS).text);
+        try {
+            const summary = await getChatCompletion([{ role: 'user', content: prompt }], { maxTokens: DIFF_SUMMARY_MAX_TOKENS, temperature: 0.1 });
+            if (summary?.trim()) {
+                fileSummaries.push({ path: file.path, summary: summary.trim() });
+            }
+        } catch (error) {
+            logger(`      -> Could not summarize the changes to ${file.path}: ${error instanceof Error ? error.message : String(error)}`);
+        }
+    }
+    if (fileSummaries.length === 0) {
+        return null;
+    }
+    const omitted: OmittedFile[] = [
+        ...prepared.omitted.filter(file => file.reason !== 'over_budget'),
+        ...prepared.relevant.slice(MAX_SUMMARIZED_FILES).map(file => ({ path: file.path, reason: 'over_budget' as const })),
+    ];
+    return { diff: null, fileSummaries, omissions: describeOmissions(omitted) };
+}
+
+/**
+ * A retrospective task written by the model for a commit, not yet stored.
+ */
+interface GeneratedTask {
+    title: string;
+    category: string;
+    description: string;
+    embedding: number[];
+}
+
 // REFACTORED: This function now uses the imported prompt
-async function generateTaskFromCommit(client: Client, projectId: number, commit: DefaultLogFields, git: SimpleGit, logger: IngestionLogger) {
+// MODIFIED: Only calls the models; saveGeneratedTask stores the result, so no transaction is held meanwhile.
+async function draftTaskFromCommit(commit: DefaultLogFields, git: SimpleGit, batcher: EmbeddingBatcher, logger: IngestionLogger): Promise<GeneratedTask | null> {
     const diff = await git.show(['--patch', '--first-parent', commit.hash]);
     
-    if (!diff || diff.trim().length < 50) { 
+    if (!diff || diff.trim().length < MIN_TASK_DIFF_LENGTH) { 
         logger(`      -> Commit ${commit.hash.substring(0,7)} is trivial, skipping task generation.`);
-        return;
+        return null;
     }
 
-    const prompt = generateTaskFromCommitPrompt(commit.message, diff);
-
     try {
-        const response = await openai.chat.completions.create({
-            model: 'gpt-4o',
-            messages: [{ role: 'user', content: prompt }],
-            response_format: { type: 'json_object' },
-            max_tokens: 400, // Increased token limit for more detailed descriptions
-            temperature: 0.1,
-        });
+        const changes = await describeCommitChanges(diff, logger);
+        if (!changes) {
+            logger(`      -> No reviewable changes in commit ${commit.hash.substring(0,7)}, skipping task generation.`);
+            return null;
+        }
+        const prompt = generateTaskFromCommitPrompt(commit.message, changes);
+        const response = await getJsonChatCompletion(
+            [{ role: 'user', content: prompt }],
+            { maxTokens: TASK_MAX_TOKENS, temperature: 0.1 } // Increased token limit for more detailed descriptions
+        );
         
-        const responseText = response.choices[0].message.content?.trim();
+        const responseText = response?.trim();
 
         if (!responseText || responseText.toUpperCase() === 'NULL') {
             logger(`      -> AI determined commit is trivial, skipping task generation.`);
-            return;
+            return null;
         }
 
         // MODIFIED: Destructure the new 'description' field
@@ -194,99 +765,385 @@ async function generateTaskFromCommit(client: Client, projectId: number, commit:
 
         // MODIFIED: The content to embed now includes the more detailed description
         const contentToEmbed = `[${category}] ${title}\n\n${description}\n\nCompleted in commit: ${commit.hash}`;
-        const taskEmbedding = await getEmbedding(contentToEmbed);
+        const embedding = await batcher.embedOne(contentToEmbed);
+        return { title, category, description, embedding };
+
+    } catch (error) {
+        logger(`      ❌ Failed to generate task for commit ${commit.hash.substring(0,7)}: ${error instanceof Error ? error.message : 'Unknown AI or parsing error'}`);
+        return null;
+    }
+}
 
+/**
+ * Stores a generated task as a closed retrospective task of the commit, or folds it into a
+ * recent near-identical one.
+ */
+async function saveGeneratedTask(client: Client, projectId: number, commitId: number, commit: DefaultLogFields, task: GeneratedTask, logger: IngestionLogger) {
+    // A feature built over many commits yields near-identical tasks; fold this one into a recent match.
+    const { rows: [duplicate] } = await client.query(
+        `SELECT id, task_number, title FROM tasks
+         WHERE project_id = $1 AND is_retrospective AND status = 'done'
+           AND 1 - (embedding <=> $2) >= $3
+           AND updated_at >= $4::timestamptz - make_interval(days => $5)
+         ORDER BY embedding <=> $2 LIMIT 1`,
+        [projectId, pgvector.toSql(task.embedding), DEFAULT_TASK_MERGE_SETTINGS.similarity, commit.date, DEFAULT_TASK_MERGE_SETTINGS.windowDays]
+    );
+    if (duplicate) {
         await client.query(
-            `INSERT INTO tasks (project_id, title, description, status, category, embedding, created_at, updated_at) 
-             VALUES ($1, $2, $3, 'done', $4, $5, $6, $6)`,
-            [
-                projectId, 
-                title, 
-                // MODIFIED: Use the AI-generated description
-                description,
-                category,
-                pgvector.toSql(taskEmbedding),
-                commit.date
-            ]
+            `UPDATE tasks SET description = COALESCE(description, '') || $1, updated_at = GREATEST(updated_at, $2) WHERE id = $3`,
+            [mergedTaskLine(task.title, commit.hash), commit.date, duplicate.id]
         );
-        logger(`      ✅ Created and closed retrospective task for commit ${commit.hash.substring(0,7)}.`);
+        await client.query(
+            `INSERT INTO task_commits (task_id, commit_id, relation, source) VALUES ($1, $2, 'closes', 'generated')
+             ON CONFLICT (task_id, commit_id) DO NOTHING`,
+            [duplicate.id, commitId]
+        );
+        logger(`      ✅ Merged commit ${commit.hash.substring(0,7)} into similar retrospective task #${duplicate.task_number} "${duplicate.title}".`);
+        return;
+    }
 
+    const { rows: [created] } = await client.query(
+        `INSERT INTO tasks (project_id, title, description, status, category, embedding, created_at, updated_at, is_retrospective) 
+         VALUES ($1, $2, $3, 'done', $4, $5, $6, $6, TRUE) RETURNING id`,
+        [
+            projectId, 
+            task.title, 
+            // MODIFIED: Use the AI-generated description
+            task.description,
+            task.category,
+            pgvector.toSql(task.embedding),
+            commit.date
+        ]
+    );
+    await client.query(
+        `INSERT INTO task_commits (task_id, commit_id, relation, source) VALUES ($1, $2, 'closes', 'generated')`,
+        [created.id, commitId]
+    );
+    logger(`      ✅ Created and closed retrospective task for commit ${commit.hash.substring(0,7)}.`);
+}
+
+/**
+ * Records every file a commit touched, including deleted files and both sides of renames.
+ * Files that are currently indexed on the default branch are linked by id as well as by path.
+ */
+async function linkCommitFiles(client: Client, projectId: number, commitId: number, commitHash: string, git: SimpleGit, settings: IndexSettings) {
+    const output = await git.raw(['diff-tree', ...DIFF_TREE_ARGS, commitHash]);
+    const inRoot = (filePath: string | null) => !!filePath && (!settings.rootDir || filePath.startsWith(settings.rootDir + '/'));
+    const changes = parseDiffTree(output).filter(change => inRoot(change.path) || inRoot(change.oldPath));
+    if (changes.length === 0) {
+        return;
+    }
+
+    const { rows } = await client.query(
+        'SELECT id, path FROM indexed_files WHERE project_id = $1 AND ref = $2 AND path = ANY($3::text[])',
+        [projectId, DEFAULT_REF, changes.map(change => change.path)]
+    );
+    const fileIds = new Map(rows.map(row => [row.path, row.id]));
+
+    for (const change of changes) {
+        await client.query(
+            `INSERT INTO commit_files (commit_id, file_id, change_type, path, old_path, additions, deletions)
+             VALUES ($1, $2, $3, $4, $5, $6, $7)
+             ON CONFLICT (commit_id, path) DO NOTHING`,
+            [commitId, change.changeType === 'D' ? null : fileIds.get(change.path) ?? null, change.changeType, change.path, change.oldPath, change.additions, change.deletions]
+        );
+    }
+}
+
+/**
+ * The tasks a commit refers to, from its message, trailers and branch names.
+ */
+export function taskReferencesOf(commit: DefaultLogFields): TaskReference[] {
+    const branchNames = [
+        ...branchNamesFromMergeSubject(commit.message),
+        ...(commit.refs || '').split(',')
+            .map(ref => ref.trim().replace(/^HEAD -> /, ''))
+            .filter(ref => ref && !ref.startsWith('tag: ') && ref !== 'HEAD'),
+    ];
+    return findTaskReferences({ message: commit.message, body: commit.body, branchNames });
+}
+
+/**
+ * Links a commit to the tasks it refers to. Closing references mark the task done,
+ * reopening references mark it open again; other references only link.
+ */
+async function linkCommitTasks(client: Client, projectId: number, commitId: number, references: TaskReference[], logger: IngestionLogger) {
+    for (const reference of references) {
+        const { rows } = await client.query(
+            `INSERT INTO task_commits (task_id, commit_id, relation, source)
+             SELECT id, $3, $4, $5 FROM tasks WHERE project_id = $1 AND task_number = $2
+             ON CONFLICT (task_id, commit_id) DO UPDATE SET relation = EXCLUDED.relation, source = EXCLUDED.source
+             RETURNING task_id`,
+            [projectId, reference.taskNumber, commitId, reference.relation, reference.source]
+        );
+        if (rows.length === 0) {
+            continue; // No such task.
+        }
+        logger(`      -> Linked task #${reference.taskNumber} (${reference.relation}, from ${reference.source}).`);
+
+        if (reference.relation === 'references') {
+            continue;
+        }
+        const [status, verb] = reference.relation === 'closes' ? ['done', 'closed'] : ['open', 'reopened'];
+        const updateResult = await client.query(
+            `UPDATE tasks SET status = $1, updated_at = NOW() WHERE id = $2 AND status != $1`,
+            [status, rows[0].task_id]
+        );
+        if (updateResult.rowCount && updateResult.rowCount > 0) {
+            logger(`      ✅ Automatically ${verb} task #${reference.taskNumber}.`);
+        }
+    }
+}
+
+/**
+ * What a default-branch commit does to tasks: the tasks it refers to, and a generated
+ * retrospective task when it closes none.
+ */
+interface CommitTaskPlan {
+    references: TaskReference[];
+    generated: GeneratedTask | null;
+}
+
+/**
+ * Works out a commit's effect on tasks, calling the models as needed. It runs before the commit's
+ * transaction opens, since summarizing a large commit can take minutes.
+ * Commits that close a task are its work; they don't get a generated retrospective task.
+ */
+async function planCommitTasks(commit: DefaultLogFields, git: SimpleGit, batcher: EmbeddingBatcher, logger: IngestionLogger): Promise<CommitTaskPlan> {
+    const references = taskReferencesOf(commit);
+    const generated = references.some(reference => reference.relation === 'closes')
+        ? null
+        : await draftTaskFromCommit(commit, git, batcher, logger);
+    return { references, generated };
+}
+
+/**
+ * Links a default-branch commit to the tasks it refers to, or stores its generated retrospective task.
+ */
+async function applyCommitToTasks(client: Client, projectId: number, commitId: number, commit: DefaultLogFields, plan: CommitTaskPlan, logger: IngestionLogger) {
+    await linkCommitTasks(client, projectId, commitId, plan.references, logger);
+    if (plan.generated) {
+        await saveGeneratedTask(client, projectId, commitId, commit, plan.generated, logger);
+    }
+}
+
+/**
+ * Applies stored branch-only commits that have since reached the default branch to their tasks.
+ * @param candidates Stored commits that are on the default branch now.
+ */
+async function applyMergedCommitsToTasks(client: Client, projectId: number, candidates: DefaultLogFields[], git: SimpleGit, batcher: EmbeddingBatcher, logger: IngestionLogger) {
+    const { rows } = await client.query(
+        'SELECT id, commit_hash FROM commits WHERE project_id = $1 AND NOT tasks_applied AND commit_hash = ANY($2::text[])',
+        [projectId, candidates.map(c => c.hash)]
+    );
+    const ids = new Map<string, number>(rows.map(row => [row.commit_hash, row.id]));
+    for (const commit of candidates.filter(c => ids.has(c.hash))) {
+        logger(`      Applying merged commit ${commit.hash.substring(0, 7)} to tasks: ${commit.message}`);
+        const plan = await planCommitTasks(commit, git, batcher, logger);
+        await client.query('BEGIN');
+        try {
+            await applyCommitToTasks(client, projectId, ids.get(commit.hash)!, commit, plan, logger);
+            await client.query('UPDATE commits SET tasks_applied = TRUE WHERE id = $1', [ids.get(commit.hash)]);
+            await client.query('COMMIT');
+        } catch (error) {
+            await client.query('ROLLBACK');
+            logger(`      Failed to apply commit ${commit.hash} to tasks: ${error instanceof Error ? error.message : String(error)}`);
+        }
+    }
+}
+
+/**
+ * Embeds a window of commit texts in one batch. If the batch fails, each text is embedded on
+ * its own, so one bad input only costs its own commit; those that still fail come back as null.
+ */
+async function embedCommitTexts(batcher: EmbeddingBatcher, texts: string[], logger: IngestionLogger): Promise<(number[] | null)[]> {
+    try {
+        return await batcher.embed(texts);
     } catch (error) {
-        logger(`      ❌ Failed to generate task for commit ${commit.hash.substring(0,7)}: ${error instanceof Error ? error.message : 'Unknown AI or parsing error'}`);
+        logger(`      -> Batch embedding failed (${error instanceof Error ? error.message : String(error)}); embedding commits one by one.`);
     }
+    const embeddings: (number[] | null)[] = [];
+    for (const text of texts) {
+        try {
+            embeddings.push(await batcher.embedOne(text));
+        } catch (error) {
+            embeddings.push(null);
+        }
+    }
+    return embeddings;
+}
+
+interface CommitDigest {
+    text: string | null;
+    /** False when the digest failed and should be retried on the next sync. */
+    complete: boolean;
+}
+
+/**
+ * Writes a short digest of what a commit changed, from its diff trimmed to
+ * COMMIT_DIGEST_DIFF_MAX_TOKENS. Trivial diffs, diffs of only filtered files and commits git
+ * no longer has get no digest.
+ */
+async function digestCommit(git: SimpleGit, hash: string, message: string, logger: IngestionLogger): Promise<CommitDigest> {
+    let patch: string;
+    try {
+        patch = await git.show(['--patch', '--first-parent', hash]);
+    } catch (error) {
+        logger(`      -> Could not read the diff of commit ${hash.substring(0, 7)}: ${error instanceof Error ? error.message : String(error)}`);
+        return { text: null, complete: true };
+    }
+    if (!patch || patch.trim().length < MIN_TASK_DIFF_LENGTH) {
+        return { text: null, complete: true };
+    }
+    const prepared = prepareCommitDiff(patch, COMMIT_DIGEST_DIFF_MAX_TOKENS);
+    if (prepared.relevant.length === 0) {
+        return { text: null, complete: true }; // Only lockfiles, generated, vendored or binary files.
+    }
+    try {
+        const prompt = generateCommitDigestPrompt(message, { diff: prepared.diff, omissions: describeOmissions(prepared.omitted, prepared.truncated) });
+        const digest = (await getChatCompletion([{ role: 'user', content: prompt }], { maxTokens: COMMIT_DIGEST_MAX_TOKENS, temperature: 0.1 }))?.trim();
+        return { text: digest || null, complete: !!digest };
+    } catch (error) {
+        logger(`      -> Could not digest commit ${hash.substring(0, 7)}: ${error instanceof Error ? error.message : String(error)}`);
+        return { text: null, complete: false };
+    }
+}
+
+async function digestCommits(git: SimpleGit, commits: { hash: string; message: string }[], logger: IngestionLogger, progress: IngestionProgress): Promise<CommitDigest[]> {
+    if (!COMMIT_DIGESTS_ENABLED) {
+        return commits.map(() => ({ text: null, complete: false }));
+    }
+    logger(`      Writing digests for ${commits.length} commits...`);
+    const digests: CommitDigest[] = [];
+    for (const commit of commits) {
+        throwIfCancelled(progress);
+        digests.push(await digestCommit(git, commit.hash, commit.message, logger));
+    }
+    return digests;
+}
+
+/**
+ * Writes digests for commits that don't have one yet (ingested before digests existed, while
+ * they were disabled, or whose digest failed), newest first, and re-embeds those commits from
+ * their digest.
+ */
+async function backfillCommitDigests(client: Client, projectId: number, git: SimpleGit, batcher: EmbeddingBatcher, logger: IngestionLogger, progress: IngestionProgress) {
+    if (!COMMIT_DIGESTS_ENABLED) {
+        return;
+    }
+    const { rows: commits } = await client.query(
+        `SELECT id, commit_hash AS hash, message FROM commits
+         WHERE project_id = $1 AND digested_at IS NULL
+         ORDER BY commit_date DESC LIMIT $2`,
+        [projectId, COMMIT_DIGEST_BACKFILL_LIMIT]
+    );
+    if (commits.length === 0) {
+        return;
+    }
+    logger(`\nBackfilling digests for ${commits.length} existing commits...`);
+
+    for (let start = 0; start < commits.length; start += COMMIT_EMBEDDING_WINDOW) {
+        const window = commits.slice(start, start + COMMIT_EMBEDDING_WINDOW);
+        const digests = await digestCommits(git, window, logger, progress);
+        const digested = window.filter((_, i) => digests[i].text);
+        const embeddings = await embedCommitTexts(batcher, digested.map(c => digests[window.indexOf(c)].text!), logger);
+        const embeddingOf = new Map(digested.map((commit, i) => [commit, embeddings[i]]));
+        // Commits without a digest keep their message embedding. Trivial ones are marked done;
+        // failed ones (and digests that couldn't be embedded) are left for the next sync.
+        const done = window.filter((commit, i) => digests[i].complete && (!digests[i].text || embeddingOf.get(commit)));
+        await client.query(
+            `UPDATE commits c SET digest = u.digest, digested_at = NOW()
+             FROM unnest($1::int[], $2::text[]) AS u(id, digest)
+             WHERE c.id = u.id`,
+            [done.map(c => c.id), done.map(c => digests[window.indexOf(c)].text)]
+        );
+        for (const commit of done.filter(c => embeddingOf.get(c))) {
+            await client.query('UPDATE commits SET embedding = $1 WHERE id = $2', [pgvector.toSql(embeddingOf.get(commit)!), commit.id]);
+        }
+        if (digests.every(digest => !digest.complete)) {
+            logger('      No digest could be written for this batch; the rest are left for the next sync.');
+            break;
+        }
+    }
+    logger('Commit digest backfill complete.');
 }
 
 // This function now contains the core orchestration logic for git history.
-async function syncGitHistory(client: Client, projectId: number, git: SimpleGit, logger: IngestionLogger) {
+async function syncGitHistory(client: Client, projectId: number, git: SimpleGit, settings: IndexSettings, trackedRefs: ResolvedRef[], batcher: EmbeddingBatcher, logger: IngestionLogger, progress: IngestionProgress) {
     logger('\n[1/3] Starting Git history sync...');
     
     const { rows: existingCommits } = await client.query('SELECT commit_hash FROM commits WHERE project_id = $1', [projectId]);
     const existingHashes = new Set(existingCommits.map(c => c.commit_hash));
     logger(`[2/3] Found ${existingHashes.size} existing commits in the database.`);
 
-    const log: LogResult<DefaultLogFields> = await git.log();
+    // A sub-project only tracks the commits that touched its root directory. Commits that are
+    // only reachable from a tracked branch or tag are part of the history too.
+    const revisions = trackedRefs.length > 0 ? [DEFAULT_REF, ...trackedRefs.map(ref => ref.sha)] : [];
+    const log: LogResult<DefaultLogFields> = await git.log([...revisions, ...pathFilter(settings)]);
     const allCommits = [...log.all].reverse();
 
     const newCommits = allCommits.filter(c => !existingHashes.has(c.hash));
+    progress.itemsFound('git_history', newCommits.length);
+
+    // Only default-branch commits act on tasks. A commit seen first on another tracked ref is
+    // stored with tasks_applied off and acts on its tasks once it reaches the default branch.
+    const headHashes = trackedRefs.length > 0
+        ? new Set((await git.raw(['rev-list', DEFAULT_REF, ...pathFilter(settings)])).split('\n').filter(Boolean))
+        : null;
+    const onDefaultBranch = (hash: string) => !headHashes || headHashes.has(hash);
+    await applyMergedCommitsToTasks(client, projectId, allCommits.filter(c => existingHashes.has(c.hash) && onDefaultBranch(c.hash)), git, batcher, logger);
+
     if (newCommits.length === 0) {
         logger('[3/3] Git history is already up-to-date.');
         return;
     }
     logger(`      Found ${newCommits.length} new commits to process.`);
 
-    for (const commit of newCommits) {
+    let digests: CommitDigest[] = [];
+    let messageEmbeddings: (number[] | null)[] = [];
+
+    for (const [index, commit] of newCommits.entries()) {
+        throwIfCancelled(progress);
+        if (index % COMMIT_EMBEDDING_WINDOW === 0) {
+            const window = newCommits.slice(index, index + COMMIT_EMBEDDING_WINDOW);
+            digests = await digestCommits(git, window, logger, progress);
+            messageEmbeddings = await embedCommitTexts(batcher, window.map((c, i) => digests[i].text || c.message), logger);
+        }
+        const digest = digests[index % COMMIT_EMBEDDING_WINDOW];
+        const messageEmbedding = messageEmbeddings[index % COMMIT_EMBEDDING_WINDOW];
+
         logger(`      Processing commit ${commit.hash.substring(0, 7)}: ${commit.message}`);
+        if (!messageEmbedding) {
+            // Not stored, so the next sync tries the commit again.
+            logger(`      Failed to process commit ${commit.hash}: could not embed its message.`);
+            progress.itemFailed('git_history', commit.hash, 'Could not embed the commit message.');
+            continue;
+        }
         
+        const tasksApplied = onDefaultBranch(commit.hash);
+        // Model calls happen before BEGIN, like the digests above; the transaction only writes.
+        const plan = tasksApplied ? await planCommitTasks(commit, git, batcher, logger) : null;
         await client.query('BEGIN');
         try {
-            const messageEmbedding = await getEmbedding(commit.message);
             const commitInsertResult = await client.query(
-                `INSERT INTO commits (project_id, commit_hash, author_name, author_email, commit_date, message, embedding) VALUES ($1, $2, $3, $4, $5, $6, $7) RETURNING id`,
-                [projectId, commit.hash, commit.author_name, commit.author_email, commit.date, commit.message, pgvector.toSql(messageEmbedding)]
+                `INSERT INTO commits (project_id, commit_hash, author_name, author_email, commit_date, message, digest, digested_at, embedding, tasks_applied)
+                 VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10) RETURNING id`,
+                [projectId, commit.hash, commit.author_name, commit.author_email, commit.date, commit.message, digest.text, digest.complete ? new Date() : null, pgvector.toSql(messageEmbedding), tasksApplied]
             );
             const commitId = commitInsertResult.rows[0].id;
             
-            const diffSummary = await git.show(['--name-status', '--pretty=format:', commit.hash]);
-            const changedFiles = diffSummary.split('\n').filter(line => line.trim());
-
-            for (const line of changedFiles) {
-                const parts = line.split('\t');
-                if (parts.length < 2) continue;
-                const change_type = parts[0].trim();
-                const file_path = parts[1].trim();
-                
-                const { rows } = await client.query('SELECT id FROM indexed_files WHERE project_id = $1 AND path = $2', [projectId, file_path]);
-
-                if (rows.length > 0) {
-                    const fileId = rows[0].id;
-                    await client.query(
-                        `INSERT INTO commit_files (commit_id, file_id, change_type) VALUES ($1, $2, $3)`,
-                        [commitId, fileId, change_type]
-                    );
-                }
-            }
-
-            const taskRegex = /(?:closes|fixes|resolves)\s+#(\d+)/gi;
-            const match = taskRegex.exec(commit.message);
-
-            if (match) {
-                const taskNumber = parseInt(match[1], 10);
-                logger(`      -> Found reference to close task #${taskNumber}.`);
-                const updateResult = await client.query(
-                    `UPDATE tasks SET status = 'done', updated_at = NOW() WHERE project_id = $1 AND task_number = $2 AND status != 'done'`,
-                    [projectId, taskNumber]
-                );
-                if (updateResult.rowCount && updateResult.rowCount > 0) {
-                    logger(`      ✅ Automatically closed task #${taskNumber}.`);
-                }
-            } else {
-                await generateTaskFromCommit(client, projectId, commit, git, logger);
+            await linkCommitFiles(client, projectId, commitId, commit.hash, git, settings);
+            if (plan) {
+                await applyCommitToTasks(client, projectId, commitId, commit, plan, logger);
             }
 
             await client.query('COMMIT');
+            progress.itemDone('git_history', commit.hash);
         } catch (error) {
             await client.query('ROLLBACK');
-            logger(`      Failed to process commit ${commit.hash}: ${error instanceof Error ? error.message : String(error)}`);
+            const message = error instanceof Error ? error.message : String(error);
+            logger(`      Failed to process commit ${commit.hash}: ${message}`);
+            progress.itemFailed('git_history', commit.hash, message);
         }
     }
     logger('[3/3] Git history sync complete.');
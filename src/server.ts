@@ -1,8 +1,14 @@
 // src/server.ts
 import app from './app';
+import { resumeInterruptedRuns } from './api/ingestion/ingestion.service';
+import { startSyncScheduler } from './api/ingestion/ingestion.scheduler';
 
 const port = process.env.PORT || 3000;
 
 app.listen(port, () => {
     console.log(`🧠 AI Project Brain is listening at http://localhost:${port}`);
+    resumeInterruptedRuns().catch(error => {
+        console.error('Failed to resume interrupted ingestion runs:', error);
+    });
+    startSyncScheduler();
 });
\ No newline at end of file
@@ -0,0 +1,189 @@
+// --- FILE: services/embeddingBatcher.ts ---
+import PQueue from 'p-queue';
+import { getProvider, normalizeEmbeddingInput } from './llm';
+import { lookupEmbeddings, storeEmbeddings } from './embeddingCache';
+import { estimateTokens } from '../core/tokens';
+
+type BatcherLogger = (message: string) => void;
+
+export interface EmbeddingBatcherOptions {
+    maxTokensPerBatch?: number;
+    maxInputsPerBatch?: number;
+    concurrency?: number;
+    maxRetries?: number;
+    useCache?: boolean;
+    logger?: BatcherLogger;
+}
+
+const DEFAULT_OPTIONS = {
+    maxTokensPerBatch: parseInt(process.env.EMBEDDING_BATCH_MAX_TOKENS || '100000', 10),
+    maxInputsPerBatch: parseInt(process.env.EMBEDDING_BATCH_MAX_INPUTS || '256', 10),
+    concurrency: parseInt(process.env.EMBEDDING_CONCURRENCY || '4', 10),
+    maxRetries: parseInt(process.env.EMBEDDING_MAX_RETRIES || '6', 10),
+};
+
+const BASE_RETRY_DELAY_MS = 1000;
+const MAX_RETRY_DELAY_MS = 60000;
+const TRANSIENT_ERROR_CODES = new Set(['ECONNRESET', 'ETIMEDOUT', 'ECONNREFUSED', 'EAI_AGAIN', 'EPIPE']);
+
+function sleep(ms: number): Promise<void> {
+    return new Promise(resolve => setTimeout(resolve, ms));
+}
+
+/**
+ * Rate limits (429), timeouts, server errors and dropped connections are worth retrying.
+ * Anything else (bad input, auth) will fail the same way again.
+ */
+function isRetryable(error: any): boolean {
+    const status = error?.status;
+    if (status === 429 || status === 408 || (typeof status === 'number' && status >= 500)) {
+        return true;
+    }
+    if (TRANSIENT_ERROR_CODES.has(error?.code) || TRANSIENT_ERROR_CODES.has(error?.cause?.code)) {
+        return true;
+    }
+    return error?.name === 'APIConnectionError' || error?.name === 'APIConnectionTimeoutError';
+}
+
+function getRetryDelay(error: any, attempt: number): number {
+    const retryAfter = error?.headers?.get?.('retry-after') ?? error?.headers?.['retry-after'];
+    const retryAfterSeconds = retryAfter ? parseFloat(retryAfter) : NaN;
+    if (!isNaN(retryAfterSeconds)) {
+        return Math.min(retryAfterSeconds * 1000, MAX_RETRY_DELAY_MS);
+    }
+    const backoff = BASE_RETRY_DELAY_MS * 2 ** attempt;
+    // Jitter keeps concurrent batches from retrying in lockstep.
+    return Math.min(backoff + Math.random() * BASE_RETRY_DELAY_MS, MAX_RETRY_DELAY_MS);
+}
+
+/**
+ * Groups embedding inputs into token-bounded batch requests, sends them with bounded
+ * concurrency and retries rate-limited or transient failures with exponential backoff.
+ * Inputs already in the embedding cache are never sent to the provider.
+ * One batcher is meant to live for a whole ingestion run, so it can report throughput at the end.
+ */
+export class EmbeddingBatcher {
+    private options: Required<Omit<EmbeddingBatcherOptions, 'logger'>>;
+    private logger: BatcherLogger;
+    private queue: PQueue;
+    private stats = { inputs: 0, cacheHits: 0, batches: 0, tokens: 0, retries: 0, elapsedMs: 0 };
+
+    constructor(options: EmbeddingBatcherOptions = {}) {
+        this.options = {
+            maxTokensPerBatch: options.maxTokensPerBatch ?? DEFAULT_OPTIONS.maxTokensPerBatch,
+            maxInputsPerBatch: options.maxInputsPerBatch ?? DEFAULT_OPTIONS.maxInputsPerBatch,
+            concurrency: options.concurrency ?? DEFAULT_OPTIONS.concurrency,
+            maxRetries: options.maxRetries ?? DEFAULT_OPTIONS.maxRetries,
+            useCache: options.useCache ?? true,
+        };
+        this.logger = options.logger || console.log;
+        this.queue = new PQueue({ concurrency: this.options.concurrency });
+    }
+
+    /**
+     * Embeds all inputs and returns one vector per input, in the same order.
+     */
+    async embed(texts: string[]): Promise<number[][]> {
+        if (texts.length === 0) {
+            return [];
+        }
+        const startedAt = Date.now();
+        const model = getProvider().embeddingModel;
+        const inputs = texts.map(normalizeEmbeddingInput);
+        const embeddings: (number[] | null)[] = this.options.useCache
+            ? await lookupEmbeddings(model, inputs)
+            : inputs.map(() => null);
+
+        // Identical inputs within one call are only embedded once.
+        const missing = new Map<string, number[]>();
+        inputs.forEach((input, index) => {
+            if (!embeddings[index]) {
+                missing.set(input, [...(missing.get(input) || []), index]);
+            }
+        });
+        const missingInputs = [...missing.keys()];
+        const batches = this.createBatches(missingInputs);
+
+        const results = await Promise.all(
+            batches.map(batch => this.queue.add(() => this.embedWithRetry(batch.inputs), { throwOnTimeout: true }))
+        );
+
+        const fresh: { text: string; embedding: number[] }[] = [];
+        batches.forEach((batch, batchIndex) => {
+            batch.indexes.forEach((missingIndex, i) => {
+                const embedding = results[batchIndex][i];
+                const text = missingInputs[missingIndex];
+                missing.get(text)!.forEach(inputIndex => { embeddings[inputIndex] = embedding; });
+                fresh.push({ text, embedding });
+            });
+        });
+
+        if (this.options.useCache) {
+            await storeEmbeddings(model, fresh);
+        }
+
+        this.stats.inputs += inputs.length;
+        this.stats.cacheHits += inputs.length - [...missing.values()].reduce((sum, indexes) => sum + indexes.length, 0);
+        this.stats.batches += batches.length;
+        this.stats.tokens += batches.reduce((sum, b) => sum + b.tokens, 0);
+        this.stats.elapsedMs += Date.now() - startedAt;
+        return embeddings as number[][];
+    }
+
+    /**
+     * Embeds a single input. Prefer `embed` with many inputs where possible.
+     */
+    async embedOne(text: string): Promise<number[]> {
+        const [embedding] = await this.embed([text]);
+        return embedding;
+    }
+
+    /**
+     * Logs the cumulative throughput of this batcher.
+     */
+    reportThroughput() {
+        const { inputs, cacheHits, batches, tokens, retries, elapsedMs } = this.stats;
+        const seconds = Math.max(elapsedMs / 1000, 0.001);
+        this.logger(`      Embedded ${inputs} inputs (${cacheHits} from cache, ~${tokens} tokens sent) in ${batches} batches over ${seconds.toFixed(1)}s ` +
+            `(${(inputs / seconds).toFixed(1)} inputs/s, ${Math.round(tokens / seconds)} tokens/s, ${retries} retries).`);
+    }
+
+    private createBatches(inputs: string[]) {
+        const batches: { inputs: string[]; indexes: number[]; tokens: number }[] = [];
+        if (inputs.length === 0) {
+            return batches;
+        }
+        let current = { inputs: [] as string[], indexes: [] as number[], tokens: 0 };
+
+        inputs.forEach((input, index) => {
+            const tokens = estimateTokens(input);
+            const isFull = current.inputs.length >= this.options.maxInputsPerBatch
+                || current.tokens + tokens > this.options.maxTokensPerBatch;
+            if (current.inputs.length > 0 && isFull) {
+                batches.push(current);
+                current = { inputs: [], indexes: [], tokens: 0 };
+            }
+            current.inputs.push(input);
+            current.indexes.push(index);
+            current.tokens += tokens;
+        });
+        batches.push(current);
+        return batches;
+    }
+
+    private async embedWithRetry(inputs: string[]): Promise<number[][]> {
+        for (let attempt = 0; ; attempt++) {
+            try {
+                return await getProvider().embed(inputs);
+            } catch (error) {
+                if (attempt >= this.options.maxRetries || !isRetryable(error)) {
+                    throw error;
+                }
+                const delay = getRetryDelay(error, attempt);
+                this.stats.retries++;
+                this.logger(`      Embedding batch failed (${error instanceof Error ? error.message : String(error)}). Retrying in ${Math.round(delay / 1000)}s (attempt ${attempt + 1}/${this.options.maxRetries})...`);
+                await sleep(delay);
+            }
+        }
+    }
+}
@@ -0,0 +1,196 @@
+// --- FILE: services/embeddingCache.ts ---
+import crypto from 'crypto';
+import pgvector from 'pgvector/pg';
+import pool from './db';
+import { getEmbedding, getProvider, normalizeEmbeddingInput } from './llm';
+
+// Hit/miss counters for this server process. Persistent totals live in embedding_cache_lookups.
+const sessionStats = { hits: 0, misses: 0 };
+
+export function hashEmbeddingInput(text: string): string {
+    return crypto.createHash('sha256').update(normalizeEmbeddingInput(text)).digest('hex');
+}
+
+/**
+ * Looks up cached embeddings for the given inputs.
+ * @param model The embedding model the vectors must come from.
+ * @param texts The inputs to look up.
+ * @returns One entry per input: the cached vector, or null on a miss.
+ */
+export async function lookupEmbeddings(model: string, texts: string[]): Promise<(number[] | null)[]> {
+    if (texts.length === 0) {
+        return [];
+    }
+    const hashes = texts.map(hashEmbeddingInput);
+    const uniqueHashes = [...new Set(hashes)];
+
+    const client = await pool.connect();
+    try {
+        const { rows } = await client.query(
+            `UPDATE embedding_cache SET hit_count = hit_count + 1, last_used_at = NOW()
+             WHERE model = $1 AND input_hash = ANY($2::text[])
+             RETURNING input_hash, embedding::text AS embedding`,
+            [model, uniqueHashes]
+        );
+        // The vector's text form ("[0.1,0.2,...]") is valid JSON.
+        const cached = new Map<string, number[]>(rows.map(r => [r.input_hash, JSON.parse(r.embedding)]));
+        const results = hashes.map(hash => cached.get(hash) || null);
+
+        const hits = results.filter(r => r !== null).length;
+        const misses = results.length - hits;
+        sessionStats.hits += hits;
+        sessionStats.misses += misses;
+        await client.query(
+            `INSERT INTO embedding_cache_lookups (model, hits, misses) VALUES ($1, $2, $3)
+             ON CONFLICT (model) DO UPDATE SET hits = embedding_cache_lookups.hits + EXCLUDED.hits,
+                                               misses = embedding_cache_lookups.misses + EXCLUDED.misses`,
+            [model, hits, misses]
+        );
+        return results;
+    } finally {
+        client.release();
+    }
+}
+
+/**
+ * Counts how many of the given inputs are already cached, without touching hit counters.
+ */
+export async function countCachedEmbeddings(model: string, texts: string[]): Promise<number> {
+    if (texts.length === 0) {
+        return 0;
+    }
+    const hashes = texts.map(hashEmbeddingInput);
+    const client = await pool.connect();
+    try {
+        const { rows } = await client.query(
+            'SELECT input_hash FROM embedding_cache WHERE model = $1 AND input_hash = ANY($2::text[])',
+            [model, [...new Set(hashes)]]
+        );
+        const cached = new Set(rows.map(r => r.input_hash));
+        return hashes.filter(hash => cached.has(hash)).length;
+    } finally {
+        client.release();
+    }
+}
+
+/**
+ * Stores freshly computed embeddings. Existing entries are left untouched.
+ */
+export async function storeEmbeddings(model: string, entries: { text: string; embedding: number[] }[]) {
+    if (entries.length === 0) {
+        return;
+    }
+    const unique = new Map(entries.map(e => [hashEmbeddingInput(e.text), e.embedding]));
+
+    const client = await pool.connect();
+    try {
+        await client.query(
+            `INSERT INTO embedding_cache (model, input_hash, embedding)
+             SELECT $1, input_hash, embedding::vector
+             FROM UNNEST($2::text[], $3::text[]) AS t(input_hash, embedding)
+             ON CONFLICT (model, input_hash) DO NOTHING`,
+            [model, [...unique.keys()], [...unique.values()].map(e => pgvector.toSql(e))]
+        );
+    } finally {
+        client.release();
+    }
+}
+
+/**
+ * A cache-aware drop-in for `getEmbedding`, for one-off embeddings such as tasks.
+ */
+export async function getCachedEmbedding(text: string): Promise<number[]> {
+    const model = getProvider().embeddingModel;
+    const [cached] = await lookupEmbeddings(model, [text]);
+    if (cached) {
+        return cached;
+    }
+    const embedding = await getEmbedding(text);
+    await storeEmbeddings(model, [{ text, embedding }]);
+    return embedding;
+}
+
+/**
+ * Reports the cache size and hit rate, per model and for the current process.
+ * Hits and misses are lookup totals, so they survive pruning.
+ */
+export async function getCacheStats() {
+    const client = await pool.connect();
+    try {
+        const { rows } = await client.query(
+            `SELECT COALESCE(c.model, l.model) AS model,
+                    COALESCE(c.entries, 0) AS entries,
+                    COALESCE(l.hits, 0) AS hits,
+                    COALESCE(l.misses, 0) AS misses,
+                    c.oldest_entry,
+                    c.last_used_at
+             FROM (
+                SELECT model, COUNT(*) AS entries, MIN(created_at) AS oldest_entry, MAX(last_used_at) AS last_used_at
+                FROM embedding_cache GROUP BY model
+             ) c
+             FULL OUTER JOIN embedding_cache_lookups l ON l.model = c.model
+             ORDER BY 1`
+        );
+
+        const models = rows.map(r => {
+            const hits = parseInt(r.hits, 10);
+            const misses = parseInt(r.misses, 10);
+            return {
+                model: r.model,
+                entries: parseInt(r.entries, 10),
+                hits,
+                misses,
+                hitRate: hits + misses > 0 ? hits / (hits + misses) : 0,
+                oldestEntry: r.oldest_entry,
+                lastUsedAt: r.last_used_at,
+            };
+        });
+
+        const sessionTotal = sessionStats.hits + sessionStats.misses;
+        return {
+            currentModel: getProvider().embeddingModel,
+            models,
+            session: {
+                ...sessionStats,
+                hitRate: sessionTotal > 0 ? sessionStats.hits / sessionTotal : 0,
+            },
+        };
+    } finally {
+        client.release();
+    }
+}
+
+export interface PruneOptions {
+    olderThanDays?: number;
+    otherModels?: boolean;
+}
+
+/**
+ * Deletes stale cache entries: those unused for `olderThanDays`, and optionally
+ * every entry produced by a model other than the one currently configured.
+ * @returns The number of deleted entries.
+ */
+export async function pruneCache(options: PruneOptions): Promise<number> {
+    const conditions: string[] = [];
+    const params: any[] = [];
+
+    if (options.olderThanDays !== undefined) {
+        params.push(options.olderThanDays);
+        conditions.push(`last_used_at < NOW() - make_interval(days => $${params.length}::int)`);
+    }
+    if (options.otherModels) {
+        params.push(getProvider().embeddingModel);
+        conditions.push(`model != $${params.length}`);
+    }
+    if (conditions.length === 0) {
+        return 0;
+    }
+
+    const client = await pool.connect();
+    try {
+        const result = await client.query(`DELETE FROM embedding_cache WHERE ${conditions.join(' OR ')}`, params);
+        return result.rowCount || 0;
+    } finally {
+        client.release();
+    }
+}
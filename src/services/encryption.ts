@@ -0,0 +1,51 @@
+// src/services/encryption.ts
+import crypto from 'crypto';
+
+// Secrets at rest are sealed with AES-256-GCM under a master key from the environment.
+const ALGORITHM = 'aes-256-gcm';
+const PAYLOAD_VERSION = 'v1';
+
+export class MissingMasterKeyError extends Error {
+    constructor() {
+        super('CREDENTIALS_MASTER_KEY must be set to a 32-byte key (64 hex characters or base64) to store credentials.');
+        this.name = 'MissingMasterKeyError';
+    }
+}
+
+function getMasterKey(): Buffer {
+    const raw = process.env.CREDENTIALS_MASTER_KEY?.trim();
+    if (!raw) {
+        throw new MissingMasterKeyError();
+    }
+    const key = /^[0-9a-fA-F]{64}$/.test(raw) ? Buffer.from(raw, 'hex') : Buffer.from(raw, 'base64');
+    if (key.length !== 32) {
+        throw new MissingMasterKeyError();
+    }
+    return key;
+}
+
+/**
+ * Encrypts a secret. The result is `v1:<iv>:<auth tag>:<ciphertext>`, all base64.
+ * @throws {MissingMasterKeyError} if no valid master key is configured.
+ */
+export function encryptSecret(plaintext: string): string {
+    const iv = crypto.randomBytes(12);
+    const cipher = crypto.createCipheriv(ALGORITHM, getMasterKey(), iv);
+    const ciphertext = Buffer.concat([cipher.update(plaintext, 'utf8'), cipher.final()]);
+    const tag = cipher.getAuthTag();
+    return [PAYLOAD_VERSION, iv.toString('base64'), tag.toString('base64'), ciphertext.toString('base64')].join(':');
+}
+
+/**
+ * Decrypts a payload produced by `encryptSecret`. Fails if the payload was tampered with
+ * or sealed under a different master key.
+ */
+export function decryptSecret(payload: string): string {
+    const [version, iv, tag, ciphertext] = payload.split(':');
+    if (version !== PAYLOAD_VERSION || !iv || !tag || ciphertext === undefined) {
+        throw new Error('Unrecognized encrypted secret format.');
+    }
+    const decipher = crypto.createDecipheriv(ALGORITHM, getMasterKey(), Buffer.from(iv, 'base64'));
+    decipher.setAuthTag(Buffer.from(tag, 'base64'));
+    return Buffer.concat([decipher.update(Buffer.from(ciphertext, 'base64')), decipher.final()]).toString('utf8');
+}
@@ -1,13 +1,25 @@
 // src/services/git.ts
-import simpleGit from 'simple-git';
+import simpleGit, { SimpleGit } from 'simple-git';
 import { promises as fs } from 'fs';
 import path from 'path';
 import os from 'os';
+import crypto from 'crypto';
+import { spawn } from 'child_process';
+import * as tar from 'tar';
+import { matchesTrackedRef } from '../core/indexSettings';
 
-const WORKSPACE_DIR = path.join(os.homedir(), '.ai-brain-workspace');
+export const WORKSPACE_DIR = path.join(os.homedir(), '.ai-brain-workspace');
 // Optional: Define a logger type for clarity
 type GitLogger = (message: string) => void;
 
+/**
+ * Decrypted credentials for a private repository. They are only ever handed to git for a
+ * single command and never written into the repository's config.
+ */
+export type GitCredentials =
+    | { kind: 'https_token'; username: string; token: string }
+    | { kind: 'ssh_key'; privateKey: string; knownHosts: string };
+
 
 export function getWorkspacePathFromUrl(url: string): string {
     try {
@@ -25,19 +37,260 @@ export function getWorkspacePathFromUrl(url: string): string {
     }
 }
 
-export async function cloneOrPullRepo(source: string, logger: GitLogger = console.log): Promise<string> {
+/**
+ * Reduces the many spellings of a repository URL (HTTPS, SSH, scp-like, with or without
+ * credentials and `.git`) to `host/owner/repo`, so they can be compared.
+ */
+export function normalizeRepoUrl(url: string): string {
+    const trimmed = url.trim();
+    let normalized: string;
+    const scpMatch = trimmed.match(/^[^@\/]+@([^:\/]+):(?!\/)(.*)$/);
+    if (scpMatch) {
+        normalized = `${scpMatch[1]}/${scpMatch[2]}`;
+    } else {
+        try {
+            const parsedUrl = new URL(trimmed);
+            normalized = parsedUrl.hostname + parsedUrl.pathname;
+        } catch (e) {
+            normalized = trimmed;
+        }
+    }
+    return normalized.replace(/\/+$/, '').replace(/\.git$/, '').toLowerCase();
+}
+
+function getBasicAuthValue(credentials: { username: string; token: string }): string {
+    return Buffer.from(`${credentials.username}:${credentials.token}`).toString('base64');
+}
+
+/**
+ * Runs git commands with a project's credentials. HTTPS tokens are passed as a one-off
+ * `http.extraHeader`; SSH keys are written to a private temp dir and used with strict
+ * host key checking against the pinned known_hosts. The temp dir is removed afterwards.
+ */
+async function withGitCredentials<T>(
+    baseDir: string | undefined,
+    credentials: GitCredentials | null | undefined,
+    fn: (git: SimpleGit) => Promise<T>
+): Promise<T> {
+    if (!credentials) {
+        return fn(baseDir ? simpleGit(baseDir) : simpleGit());
+    }
+    if (credentials.kind === 'https_token') {
+        const git = simpleGit({
+            baseDir,
+            config: [`http.extraHeader=Authorization: Basic ${getBasicAuthValue(credentials)}`],
+        });
+        return fn(git);
+    }
+
+    const tempDir = await fs.mkdtemp(path.join(os.tmpdir(), 'ai-brain-ssh-'));
+    try {
+        const keyPath = path.join(tempDir, 'id_key');
+        const knownHostsPath = path.join(tempDir, 'known_hosts');
+        await fs.writeFile(keyPath, credentials.privateKey.trim() + '\n', { mode: 0o600 });
+        await fs.writeFile(knownHostsPath, credentials.knownHosts.trim() + '\n', { mode: 0o600 });
+        const sshCommand = [
+            'ssh',
+            `-i "${keyPath}"`,
+            '-o IdentitiesOnly=yes',
+            `-o UserKnownHostsFile="${knownHostsPath}"`,
+            '-o StrictHostKeyChecking=yes',
+            '-o BatchMode=yes',
+        ].join(' ');
+        const git = (baseDir ? simpleGit(baseDir) : simpleGit()).env({ ...process.env, GIT_SSH_COMMAND: sshCommand });
+        return await fn(git);
+    } finally {
+        await fs.rm(tempDir, { recursive: true, force: true });
+    }
+}
+
+/**
+ * Builds a function that masks every secret in `credentials` (and its encodings) from a
+ * message, for log lines and errors that leave the process.
+ */
+export function createCredentialScrubber(credentials: GitCredentials | null | undefined): (message: string) => string {
+    if (!credentials) {
+        return message => message;
+    }
+    const secrets = credentials.kind === 'https_token'
+        ? [credentials.token, getBasicAuthValue(credentials), encodeURIComponent(credentials.token)]
+        : [credentials.privateKey.trim(), ...credentials.privateKey.split('\n').map(line => line.trim()).filter(line => line.length >= 16)];
+    const unique = [...new Set(secrets.filter(Boolean))].sort((a, b) => b.length - a.length);
+    return message => unique.reduce((scrubbed, secret) => scrubbed.split(secret).join('***'), message);
+}
+
+// Clones and pulls of a workspace are serialized. Ingestions already take turns on a workspace
+// (see scheduleIngestion), but a dry run may pull while an ingestion is about to start.
+const workspaceLocks = new Map<string, Promise<unknown>>();
+
+function withWorkspaceLock<T>(projectPath: string, fn: () => Promise<T>): Promise<T> {
+    const previous = workspaceLocks.get(projectPath) || Promise.resolve();
+    const current = previous.catch(() => undefined).then(fn);
+    workspaceLocks.set(projectPath, current);
+    const release = () => {
+        if (workspaceLocks.get(projectPath) === current) {
+            workspaceLocks.delete(projectPath);
+        }
+    };
+    current.then(release, release);
+    return current;
+}
+
+/**
+ * Returns the workspace clone of `source` as it is, without fetching, or null if it was never cloned.
+ */
+export async function findExistingClone(source: string): Promise<string | null> {
+    const projectPath = getWorkspacePathFromUrl(source);
+    try {
+        await fs.access(path.join(projectPath, '.git'));
+        return projectPath;
+    } catch (error) {
+        return null;
+    }
+}
+
+export async function cloneOrPullRepo(source: string, logger: GitLogger = console.log, credentials?: GitCredentials | null): Promise<string> {
     const projectPath = getWorkspacePathFromUrl(source);
     await fs.mkdir(WORKSPACE_DIR, { recursive: true });
+    return withWorkspaceLock(projectPath, () => cloneOrPullUnlocked(source, projectPath, logger, credentials));
+}
 
+async function cloneOrPullUnlocked(source: string, projectPath: string, logger: GitLogger, credentials?: GitCredentials | null): Promise<string> {
     try {
         await fs.access(path.join(projectPath, '.git'));
-        logger(`Found existing repository. Fetching updates from ${source}...`);
-        await simpleGit(projectPath).pull();
-        logger(`-> Updates pulled successfully.`);
     } catch (error) {
         logger(`Cloning repository from ${source}...`);
-        await simpleGit().clone(source, projectPath);
+        await withGitCredentials(undefined, credentials, git => git.clone(source, projectPath));
         logger(`-> Cloned successfully.`);
+        return projectPath;
     }
+
+    logger(`Found existing repository. Fetching updates from ${source}...`);
+    // Tags and other branches are fetched too, so tracked refs stay current.
+    await withGitCredentials(projectPath, credentials, async git => {
+        await git.fetch(['--all', '--tags', '--prune', '--force']);
+        await git.pull();
+    });
+    logger(`-> Updates pulled successfully.`);
     return projectPath;
-}
\ No newline at end of file
+}
+
+/**
+ * Looks up the commit the remote's HEAD points to, without fetching anything.
+ */
+export async function getRemoteHead(source: string, credentials?: GitCredentials | null): Promise<string | null> {
+    const output = await withGitCredentials(undefined, credentials, git => git.listRemote([source, 'HEAD']));
+    return output.split('\t')[0].trim() || null;
+}
+/**
+ * A branch or tag name and the commit it points to.
+ */
+export interface ResolvedRef {
+    name: string;
+    sha: string;
+}
+
+// The default branch is always indexed, under this name.
+export const DEFAULT_REF = 'HEAD';
+
+
+/**
+ * Resolves tracked ref names or patterns (`release/*`) against a repository's local branches,
+ * remote-tracking branches and tags. Annotated tags resolve to the commit they tag.
+ * The currently checked-out branch is left out; it is indexed as DEFAULT_REF.
+ */
+export async function resolveTrackedRefs(repoPath: string, patterns: string[]): Promise<ResolvedRef[]> {
+    if (patterns.length === 0) {
+        return [];
+    }
+    const git = simpleGit(repoPath);
+    const [output, currentBranch] = await Promise.all([
+        git.raw(['for-each-ref', '--format=%(refname)%09%(objectname)%09%(*objectname)', 'refs/heads', 'refs/remotes', 'refs/tags']),
+        git.revparse(['--abbrev-ref', 'HEAD']).catch(() => ''),
+    ]);
+
+    // Local branches win over remote-tracking branches, which win over tags of the same name.
+    const refs = new Map<string, { sha: string; priority: number }>();
+    for (const line of output.split('\n').filter(Boolean)) {
+        const [refName, objectSha, peeledSha] = line.split('\t');
+        let name: string;
+        let priority: number;
+        if (refName.startsWith('refs/heads/')) {
+            name = refName.substring('refs/heads/'.length);
+            priority = 3;
+        } else if (refName.startsWith('refs/remotes/')) {
+            name = refName.substring('refs/remotes/'.length).split('/').slice(1).join('/');
+            priority = 2;
+        } else {
+            name = refName.substring('refs/tags/'.length);
+            priority = 1;
+        }
+        if (!name || name === 'HEAD' || name === currentBranch.trim()) {
+            continue;
+        }
+        const existing = refs.get(name);
+        if (!existing || existing.priority < priority) {
+            refs.set(name, { sha: peeledSha || objectSha, priority });
+        }
+    }
+
+    return [...refs.entries()]
+        .filter(([name]) => matchesTrackedRef(name, patterns))
+        .map(([name, { sha }]) => ({ name, sha }))
+        .sort((a, b) => a.name.localeCompare(b.name));
+}
+
+function getRefSnapshotPath(repoPath: string, ref: ResolvedRef, rootDir: string | null): string {
+    const repoKey = crypto.createHash('sha256').update(`${repoPath}\0${rootDir || ''}`).digest('hex').substring(0, 16);
+    const refSlug = ref.name.replace(/[^a-zA-Z0-9._-]/g, '_');
+    return path.join(WORKSPACE_DIR, 'refs', repoKey, refSlug);
+}
+
+/**
+ * Returns the workspace snapshot of a ref if it is already at the ref's commit, or null.
+ */
+export async function findRefSnapshot(repoPath: string, ref: ResolvedRef, rootDir: string | null): Promise<string | null> {
+    const snapshotPath = getRefSnapshotPath(repoPath, ref, rootDir);
+    const currentSha = await fs.readFile(`${snapshotPath}.sha`, 'utf8').catch(() => null);
+    return currentSha?.trim() === ref.sha ? snapshotPath : null;
+}
+
+/**
+ * Writes a ref's tree (or just `rootDir` within it) into `targetDir` with `git archive`.
+ */
+export async function extractRefTree(repoPath: string, ref: ResolvedRef, rootDir: string | null, targetDir: string): Promise<void> {
+    await new Promise<void>((resolve, reject) => {
+        const archive = spawn('git', ['archive', '--format=tar', ref.sha, ...(rootDir ? ['--', rootDir] : [])], { cwd: repoPath });
+        let stderr = '';
+        archive.stderr.on('data', data => { stderr += data; });
+        const extract = tar.x({ cwd: targetDir });
+        archive.stdout.pipe(extract);
+        archive.on('error', reject);
+        extract.on('error', reject);
+        extract.on('finish', () => resolve());
+        archive.on('close', code => {
+            if (code !== 0) {
+                reject(new Error(`git archive ${ref.name} failed: ${stderr.trim()}`));
+            }
+        });
+    });
+}
+
+/**
+ * Materializes a ref's tree (or just `rootDir` within it) in the workspace with `git archive`,
+ * so the repository's own checkout is never touched. Snapshots are keyed by commit and
+ * reused until the ref moves.
+ * @returns The snapshot directory. Paths inside it match paths in the repository.
+ */
+export async function exportRefSnapshot(repoPath: string, ref: ResolvedRef, rootDir: string | null): Promise<string> {
+    const existing = await findRefSnapshot(repoPath, ref, rootDir);
+    if (existing) {
+        return existing;
+    }
+    const snapshotPath = getRefSnapshotPath(repoPath, ref, rootDir);
+    await fs.rm(snapshotPath, { recursive: true, force: true });
+    await fs.mkdir(snapshotPath, { recursive: true });
+    await extractRefTree(repoPath, ref, rootDir, snapshotPath);
+    await fs.writeFile(`${snapshotPath}.sha`, ref.sha);
+    return snapshotPath;
+}
@@ -0,0 +1,98 @@
+// --- FILE: services/llm.ts ---
+import { ChatMessage, ChatOptions, LLMProvider } from './providers/provider';
+import { OpenAIProvider } from './providers/openai.provider';
+import { FakeProvider } from './providers/fake.provider';
+
+export type { ChatMessage, ChatOptions, LLMProvider };
+
+// The vector columns in schema.sql are VECTOR(1536); the provider must produce the same size.
+const EMBEDDING_DIMENSIONS = parseInt(process.env.EMBEDDING_DIMENSIONS || '1536', 10);
+
+let provider: LLMProvider | null = null;
+
+/**
+ * The chat and embedding models the active provider uses. Reading them does not
+ * create a provider, so it works without credentials (e.g. for cost estimates).
+ */
+export function getConfiguredModels(): { chatModel: string; embeddingModel: string } {
+    if (process.env.LLM_PROVIDER === 'fake') {
+        const { chatModel, embeddingModel } = new FakeProvider(EMBEDDING_DIMENSIONS);
+        return { chatModel, embeddingModel };
+    }
+    return {
+        chatModel: process.env.LLM_CHAT_MODEL || 'gpt-4o',
+        embeddingModel: process.env.LLM_EMBEDDING_MODEL || 'text-embedding-3-small',
+    };
+}
+
+/**
+ * Builds the provider selected by the LLM_PROVIDER environment variable:
+ * - `openai` (default): the OpenAI API, using OPENAI_API_KEY.
+ * - `openai-compatible`: a local server (Ollama, llama.cpp, vLLM) at LLM_BASE_URL.
+ * - `fake`: a deterministic, hash-based provider that never touches the network.
+ * LLM_CHAT_MODEL and LLM_EMBEDDING_MODEL override the default models.
+ */
+function createProvider(): LLMProvider {
+    const providerName = process.env.LLM_PROVIDER || 'openai';
+    const { chatModel, embeddingModel } = getConfiguredModels();
+
+    switch (providerName) {
+        case 'openai': {
+            const apiKey = process.env.OPENAI_API_KEY;
+            if (!apiKey) {
+                throw new Error("FATAL: Missing environment variable OPENAI_API_KEY");
+            }
+            return new OpenAIProvider({ apiKey, chatModel, embeddingModel });
+        }
+        case 'openai-compatible': {
+            const baseURL = process.env.LLM_BASE_URL;
+            if (!baseURL) {
+                throw new Error("FATAL: Missing environment variable LLM_BASE_URL for the openai-compatible provider");
+            }
+            // Local servers usually ignore the key, but the SDK requires one.
+            const apiKey = process.env.OPENAI_API_KEY || 'not-needed';
+            return new OpenAIProvider({ apiKey, baseURL, chatModel, embeddingModel });
+        }
+        case 'fake':
+            return new FakeProvider(EMBEDDING_DIMENSIONS);
+        default:
+            throw new Error(`FATAL: Unknown LLM_PROVIDER "${providerName}". Expected openai, openai-compatible or fake.`);
+    }
+}
+
+/**
+ * Returns the shared provider instance, creating it on first use.
+ */
+export function getProvider(): LLMProvider {
+    if (!provider) {
+        provider = createProvider();
+    }
+    return provider;
+}
+
+/**
+ * Normalizes text exactly the way it is sent to the embedding model.
+ * Anything keyed on embedding inputs (e.g. the embedding cache) must hash this form.
+ */
+export function normalizeEmbeddingInput(text: string): string {
+    return text.replace(/\n/g, ' ');
+}
+
+export async function getEmbedding(text: string): Promise<number[]> {
+    const [embedding] = await getProvider().embed([normalizeEmbeddingInput(text)]);
+    return embedding;
+}
+
+export async function getChatCompletionStream(messages: ChatMessage[], options?: ChatOptions): Promise<AsyncIterable<string>> {
+    return getProvider().chatStream(messages, options);
+}
+
+// A non-streaming version for tasks like summarization.
+export async function getChatCompletion(messages: ChatMessage[], options?: ChatOptions): Promise<string | null> {
+    return getProvider().chat(messages, options);
+}
+
+// A JSON-mode version for structured outputs such as generated tasks.
+export async function getJsonChatCompletion(messages: ChatMessage[], options?: ChatOptions): Promise<string | null> {
+    return getProvider().chatJson(messages, options);
+}
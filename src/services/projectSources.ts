@@ -0,0 +1,203 @@
+// src/services/projectSources.ts
+import { promises as fs, createReadStream } from 'fs';
+import path from 'path';
+import crypto from 'crypto';
+import * as tar from 'tar';
+import extractZip from 'extract-zip';
+import { cloneOrPullRepo, getWorkspacePathFromUrl, GitCredentials, WORKSPACE_DIR } from './git';
+
+type SourceLogger = (message: string) => void;
+
+/**
+ * Where a project's code comes from:
+ * - `git`: a remote repository, cloned into the workspace and pulled on every sync.
+ * - `local`: a directory on the server, indexed in place.
+ * - `archive`: an uploaded .zip/.tar.gz, extracted once into the workspace.
+ */
+export type ProjectSourceType = 'git' | 'local' | 'archive';
+
+export const PROJECT_SOURCE_TYPES: ProjectSourceType[] = ['git', 'local', 'archive'];
+
+export class InvalidProjectSourceError extends Error {
+    constructor(message: string) {
+        super(message);
+        this.name = 'InvalidProjectSourceError';
+    }
+}
+
+const ARCHIVES_DIR = path.join(WORKSPACE_DIR, 'archives');
+const ARCHIVE_EXTENSIONS = ['.tar.gz', '.tgz', '.zip'];
+
+// Comma-separated list of directories that local sources must live under, e.g.
+// ALLOWED_LOCAL_SOURCE_ROOTS=/srv/repos,/home/shared/code. Local sources are refused through
+// the API while it is unset, since anyone who can reach it could otherwise index (and then
+// query) any directory the server can read. The CLI indexes local paths directly and is unaffected.
+const ALLOWED_LOCAL_ROOTS = (process.env.ALLOWED_LOCAL_SOURCE_ROOTS || '')
+    .split(',')
+    .map(root => root.trim())
+    .filter(Boolean)
+    .map(root => path.resolve(root));
+
+/**
+ * Guesses the type of a source string: anything that looks like a git remote is `git`,
+ * everything else is treated as a local path.
+ */
+export function inferSourceType(source: string): ProjectSourceType {
+    return /^(https?|ssh|git):\/\//.test(source) || /^[^@\/]+@[^:\/]+:/.test(source) ? 'git' : 'local';
+}
+
+/**
+ * Resolves a local source to an absolute path and checks that it is a readable directory
+ * inside the allowed roots.
+ * @throws {InvalidProjectSourceError} if the path cannot be used as a project source, or if
+ *   no allowed roots are configured.
+ */
+export async function resolveLocalSource(source: string): Promise<string> {
+    if (ALLOWED_LOCAL_ROOTS.length === 0) {
+        throw new InvalidProjectSourceError('Local directory sources are disabled. Set ALLOWED_LOCAL_SOURCE_ROOTS to the directories they may be read from.');
+    }
+    const resolved = path.resolve(source);
+    if (!ALLOWED_LOCAL_ROOTS.some(root => resolved === root || resolved.startsWith(root + path.sep))) {
+        throw new InvalidProjectSourceError(`Local path ${resolved} is outside the allowed source roots.`);
+    }
+    try {
+        const stats = await fs.stat(resolved);
+        if (!stats.isDirectory()) {
+            throw new InvalidProjectSourceError(`Local path ${resolved} is not a directory.`);
+        }
+    } catch (error) {
+        if (error instanceof InvalidProjectSourceError) throw error;
+        throw new InvalidProjectSourceError(`Local path ${resolved} does not exist or is not readable.`);
+    }
+    return resolved;
+}
+
+function getArchiveExtension(fileName: string): string | undefined {
+    const lower = fileName.toLowerCase();
+    return ARCHIVE_EXTENSIONS.find(ext => lower.endsWith(ext));
+}
+
+function hashFile(filePath: string): Promise<string> {
+    return new Promise((resolve, reject) => {
+        const hash = crypto.createHash('sha256');
+        createReadStream(filePath)
+            .on('data', chunk => hash.update(chunk))
+            .on('end', () => resolve(hash.digest('hex')))
+            .on('error', reject);
+    });
+}
+
+/**
+ * Deletes every symlink under a directory, so an archive cannot point the indexer at
+ * files outside its own tree.
+ */
+async function removeSymlinks(dir: string): Promise<void> {
+    const entries = await fs.readdir(dir, { withFileTypes: true });
+    for (const entry of entries) {
+        const entryPath = path.join(dir, entry.name);
+        if (entry.isSymbolicLink()) {
+            await fs.unlink(entryPath);
+        } else if (entry.isDirectory()) {
+            await removeSymlinks(entryPath);
+        }
+    }
+}
+
+/**
+ * Extracts an uploaded archive into the workspace. Archives are content-addressed, so
+ * uploading the same archive twice maps to the same source. If the archive wraps
+ * everything in a single top-level directory (as GitHub/GitLab downloads do), that
+ * directory becomes the project root.
+ * The uploaded file is removed afterwards.
+ * @returns The source string to store for the project and a suggested project name.
+ * @throws {InvalidProjectSourceError} if the file is not a supported or readable archive.
+ */
+export async function extractArchiveSource(uploadedPath: string, originalName: string): Promise<{ source: string, name: string }> {
+    const tempDir = path.join(ARCHIVES_DIR, `.tmp-${crypto.randomBytes(8).toString('hex')}`);
+    try {
+        const extension = getArchiveExtension(originalName);
+        if (!extension) {
+            throw new InvalidProjectSourceError(`Unsupported archive type for "${originalName}". Use ${ARCHIVE_EXTENSIONS.join(', ')}.`);
+        }
+        const digest = (await hashFile(uploadedPath)).substring(0, 16);
+        const name = path.basename(originalName).slice(0, -extension.length) || digest;
+        const source = `archive:${digest}/${path.basename(originalName)}`;
+        const workspacePath = getArchiveWorkspacePath(source);
+
+        try {
+            await fs.access(workspacePath);
+            return { source, name }; // Same archive already extracted.
+        } catch (error) {
+            // Not extracted yet.
+        }
+
+        await fs.mkdir(tempDir, { recursive: true });
+        try {
+            if (extension === '.zip') {
+                await extractZip(path.resolve(uploadedPath), { dir: path.resolve(tempDir) });
+            } else {
+                await tar.x({ file: uploadedPath, cwd: tempDir });
+            }
+        } catch (error) {
+            throw new InvalidProjectSourceError(`Could not extract "${originalName}": ${error instanceof Error ? error.message : String(error)}`);
+        }
+        await removeSymlinks(tempDir);
+
+        const entries = await fs.readdir(tempDir, { withFileTypes: true });
+        const root = entries.length === 1 && entries[0].isDirectory() ? path.join(tempDir, entries[0].name) : tempDir;
+        await fs.rename(root, workspacePath);
+        return { source, name };
+    } finally {
+        await fs.rm(tempDir, { recursive: true, force: true });
+        await fs.rm(uploadedPath, { force: true });
+    }
+}
+
+function getArchiveWorkspacePath(source: string): string {
+    const digest = source.substring('archive:'.length).split('/')[0];
+    return path.join(ARCHIVES_DIR, digest);
+}
+
+/**
+ * Identifies the directory a project's ingestion reads and updates. Sub-projects of one
+ * repository, archive or directory share it, so their ingestions must not overlap.
+ */
+export function getWorkspaceKey(project: { source: string, source_type: ProjectSourceType }): string {
+    switch (project.source_type) {
+        case 'local':
+            return path.resolve(project.source);
+        case 'archive':
+            return getArchiveWorkspacePath(project.source);
+        default:
+            return getWorkspacePathFromUrl(project.source);
+    }
+}
+
+/**
+ * Makes a project's code available on disk and returns the directory to ingest.
+ */
+export async function prepareProjectWorkspace(
+    project: { source: string, source_type: ProjectSourceType },
+    logger: SourceLogger = console.log,
+    credentials?: GitCredentials | null
+): Promise<string> {
+    switch (project.source_type) {
+        case 'local': {
+            const projectPath = await resolveLocalSource(project.source);
+            logger(`Using local directory ${projectPath}.`);
+            return projectPath;
+        }
+        case 'archive': {
+            const projectPath = getArchiveWorkspacePath(project.source);
+            try {
+                await fs.access(projectPath);
+            } catch (error) {
+                throw new InvalidProjectSourceError(`Extracted archive for ${project.source} is missing from the workspace. Upload it again.`);
+            }
+            logger(`Using extracted archive ${project.source}.`);
+            return projectPath;
+        }
+        default:
+            return cloneOrPullRepo(project.source, logger, credentials);
+    }
+}
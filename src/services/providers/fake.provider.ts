@@ -0,0 +1,110 @@
+// --- FILE: services/providers/fake.provider.ts ---
+import crypto from 'crypto';
+import { ChatMessage, LLMProvider } from './provider';
+
+function sha256(text: string): Buffer {
+    return crypto.createHash('sha256').update(text).digest();
+}
+
+// The first ```json block of a prompt that parses to an object.
+function exampleObject(prompt: string): Record<string, unknown> | null {
+    const blocks = prompt.match(/```json\s*([\s\S]*?)```/g) || [];
+    for (const block of blocks) {
+        try {
+            const parsed = JSON.parse(block.replace(/^```json/, '').replace(/```$/, ''));
+            if (parsed && typeof parsed === 'object' && !Array.isArray(parsed)) {
+                return parsed;
+            }
+        } catch (error) {
+            // Not valid JSON; try the next block.
+        }
+    }
+    return null;
+}
+
+/**
+ * A value of the same shape as the example. Single-word strings look like enum values
+ * (a category, a status) and are kept; other strings are marked as offline replies.
+ */
+function fillLike(example: unknown, digest: string): unknown {
+    if (typeof example === 'string') {
+        return /^[\w-]+$/.test(example) ? example : `${example} (offline ${digest})`;
+    }
+    if (Array.isArray(example)) {
+        return example.map(item => fillLike(item, digest));
+    }
+    if (example && typeof example === 'object') {
+        return Object.fromEntries(Object.entries(example).map(([key, value]) => [key, fillLike(value, digest)]));
+    }
+    return example;
+}
+
+/**
+ * A deterministic, offline provider for tests and air-gapped runs.
+ * Embeddings are bag-of-words feature hashes, so texts sharing words land near each other,
+ * chat replies are derived from a hash of the prompt, and JSON replies follow the example
+ * object in the prompt. No network calls are made.
+ */
+export class FakeProvider implements LLMProvider {
+    readonly name = 'fake';
+    readonly chatModel = 'fake-chat';
+    readonly embeddingModel: string;
+
+    constructor(private dimensions: number) {
+        this.embeddingModel = `fake-embedding-${dimensions}`;
+    }
+
+    async embed(inputs: string[]): Promise<number[][]> {
+        return inputs.map(input => this.embedOne(input));
+    }
+
+    async chat(messages: ChatMessage[]): Promise<string | null> {
+        return this.replyTo(messages);
+    }
+
+    async chatStream(messages: ChatMessage[]): Promise<AsyncIterable<string>> {
+        const words = this.replyTo(messages).split(/(?<= )/);
+        return (async function* () {
+            for (const word of words) {
+                yield word;
+            }
+        })();
+    }
+
+    // JSON-mode prompts show the object they expect in a ```json example; the reply has its shape.
+    async chatJson(messages: ChatMessage[]): Promise<string | null> {
+        const digest = sha256(JSON.stringify(messages)).toString('hex').substring(0, 8);
+        const prompt = [...messages].reverse().find(m => m.role === 'user')?.content || '';
+        const example = exampleObject(prompt);
+        if (!example) {
+            return JSON.stringify({ response: `Deterministic offline response ${digest}.` });
+        }
+        return JSON.stringify(fillLike(example, digest));
+    }
+
+    private embedOne(input: string): number[] {
+        const vector = new Array<number>(this.dimensions).fill(0);
+        const tokens = input.toLowerCase().match(/[a-z0-9_]+/g) || [input];
+
+        for (const token of tokens) {
+            const digest = sha256(token);
+            const index = digest.readUInt32BE(0) % this.dimensions;
+            vector[index] += (digest[4] & 1) ? 1 : -1;
+        }
+
+        const norm = Math.sqrt(vector.reduce((sum, v) => sum + v * v, 0));
+        if (norm === 0) {
+            // Every token cancelled out; fall back to a single hashed dimension.
+            vector[sha256(input).readUInt32BE(0) % this.dimensions] = 1;
+            return vector;
+        }
+        return vector.map(v => v / norm);
+    }
+
+    private replyTo(messages: ChatMessage[]): string {
+        const digest = sha256(JSON.stringify(messages)).toString('hex').substring(0, 8);
+        const lastUserMessage = [...messages].reverse().find(m => m.role === 'user');
+        const firstLine = (lastUserMessage?.content || '').split('\n')[0].substring(0, 120);
+        return `Deterministic offline response ${digest} to: ${firstLine}`;
+    }
+}
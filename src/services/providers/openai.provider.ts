@@ -0,0 +1,77 @@
+// --- FILE: services/providers/openai.provider.ts ---
+import OpenAI from 'openai';
+import { ChatMessage, ChatOptions, LLMProvider } from './provider';
+
+export interface OpenAIProviderConfig {
+    apiKey: string;
+    baseURL?: string;
+    chatModel: string;
+    embeddingModel: string;
+}
+
+/**
+ * Talks to the OpenAI API, or to any server that speaks the same protocol
+ * (Ollama, llama.cpp, vLLM, ...) when a `baseURL` is given.
+ */
+export class OpenAIProvider implements LLMProvider {
+    readonly name: string;
+    readonly chatModel: string;
+    readonly embeddingModel: string;
+    private client: OpenAI;
+
+    constructor(config: OpenAIProviderConfig) {
+        this.name = config.baseURL ? 'openai-compatible' : 'openai';
+        this.chatModel = config.chatModel;
+        this.embeddingModel = config.embeddingModel;
+        this.client = new OpenAI({ apiKey: config.apiKey, baseURL: config.baseURL });
+    }
+
+    async embed(inputs: string[]): Promise<number[][]> {
+        const response = await this.client.embeddings.create({
+            model: this.embeddingModel,
+            input: inputs,
+        });
+        // The API may return the embeddings out of order, so sort them by index.
+        return [...response.data].sort((a, b) => a.index - b.index).map(d => d.embedding);
+    }
+
+    async chat(messages: ChatMessage[], options: ChatOptions = {}): Promise<string | null> {
+        const response = await this.client.chat.completions.create({
+            model: this.chatModel,
+            messages: messages,
+            max_tokens: options.maxTokens,
+            temperature: options.temperature,
+        });
+        return response.choices[0].message.content;
+    }
+
+    async chatStream(messages: ChatMessage[], options: ChatOptions = {}): Promise<AsyncIterable<string>> {
+        const stream = await this.client.chat.completions.create({
+            model: this.chatModel,
+            messages: messages,
+            max_tokens: options.maxTokens,
+            temperature: options.temperature,
+            stream: true,
+        });
+
+        return (async function* () {
+            for await (const chunk of stream) {
+                const content = chunk.choices[0]?.delta?.content;
+                if (content) {
+                    yield content;
+                }
+            }
+        })();
+    }
+
+    async chatJson(messages: ChatMessage[], options: ChatOptions = {}): Promise<string | null> {
+        const response = await this.client.chat.completions.create({
+            model: this.chatModel,
+            messages: messages,
+            response_format: { type: 'json_object' },
+            max_tokens: options.maxTokens,
+            temperature: options.temperature,
+        });
+        return response.choices[0].message.content;
+    }
+}
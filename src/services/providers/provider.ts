@@ -0,0 +1,34 @@
+// --- FILE: services/providers/provider.ts ---
+
+// A reusable type for chat messages, shared by every provider.
+export interface ChatMessage {
+    role: 'system' | 'user' | 'assistant';
+    content: string;
+}
+
+export interface ChatOptions {
+    maxTokens?: number;
+    temperature?: number;
+}
+
+/**
+ * The contract every LLM/embedding backend implements.
+ * Callers never talk to a vendor SDK directly; they go through `services/llm.ts`.
+ */
+export interface LLMProvider {
+    readonly name: string;
+    readonly chatModel: string;
+    readonly embeddingModel: string;
+
+    /** Embeds a batch of inputs. The result has one vector per input, in the same order. */
+    embed(inputs: string[]): Promise<number[][]>;
+
+    /** A non-streaming completion, for tasks like summarization. */
+    chat(messages: ChatMessage[], options?: ChatOptions): Promise<string | null>;
+
+    /** A streaming completion. Yields the text deltas as they arrive. */
+    chatStream(messages: ChatMessage[], options?: ChatOptions): Promise<AsyncIterable<string>>;
+
+    /** A completion constrained to a single JSON object (returned as raw text). */
+    chatJson(messages: ChatMessage[], options?: ChatOptions): Promise<string | null>;
+}
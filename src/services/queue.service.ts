@@ -1,9 +1,52 @@
 // --- FILE: services/queue.service.ts ---
 import PQueue from 'p-queue';
 
-// Create a single, shared queue for the entire application.
-// concurrency: 1 ensures that only one promise runs at a time.
-// This is our lock to prevent multiple ingestions from running simultaneously.
-const ingestionQueue = new PQueue({ concurrency: 1 });
+// How many workspaces may ingest at the same time across the whole server.
+const MAX_CONCURRENT_INGESTIONS = parseInt(process.env.MAX_CONCURRENT_INGESTIONS || '2', 10);
 
-export default ingestionQueue;
\ No newline at end of file
+// The global limit. Ingestions of different workspaces share no files on disk, so they may run
+// in parallel. Sub-projects of one repository share its workspace and must not: one's pull
+// would rewrite the tree while another indexes it.
+const ingestionQueue = new PQueue({ concurrency: MAX_CONCURRENT_INGESTIONS });
+
+// The tail of each workspace's chain of jobs. This is our per-workspace lock: a workspace's next
+// job only enters the global queue once its previous job has finished, so it never holds a global
+// slot while waiting on its own workspace.
+const workspaceTails = new Map<string, Promise<void>>();
+
+/**
+ * Schedules an ingestion job. Jobs on the same workspace run one at a time, in order;
+ * jobs on different workspaces run in parallel up to MAX_CONCURRENT_INGESTIONS.
+ * @param workspace The key of the workspace the job reads and updates (see getWorkspaceKey).
+ * @param job The ingestion work.
+ * @returns A promise that settles with the job's result.
+ */
+export function scheduleIngestion<T>(workspace: string, job: () => Promise<T>): Promise<T> {
+    const previous = workspaceTails.get(workspace) || Promise.resolve();
+    const result = previous.then(() => ingestionQueue.add(job, { throwOnTimeout: true }));
+
+    const tail = result.then(() => {}, () => {});
+    workspaceTails.set(workspace, tail);
+    tail.then(() => {
+        if (workspaceTails.get(workspace) === tail) {
+            workspaceTails.delete(workspace);
+        }
+    });
+    return result;
+}
+
+/**
+ * Whether a job is running or waiting on the workspace.
+ */
+export function isWorkspaceBusy(workspace: string): boolean {
+    return workspaceTails.has(workspace);
+}
+
+export function getSchedulerStats() {
+    return {
+        maxConcurrent: MAX_CONCURRENT_INGESTIONS,
+        running: ingestionQueue.pending,
+        waitingForSlot: ingestionQueue.size,
+        busyWorkspaces: [...workspaceTails.keys()],
+    };
+}
@@ -1 +1,2 @@
-declare module 'tree-sitter-typescript/typescript';
\ No newline at end of file
+declare module 'tree-sitter-typescript/typescript';
+declare module 'tree-sitter-typescript/tsx';
@@ -0,0 +1,9 @@
+import { average } from './math';
+
+export class ReportFormatter {
+    constructor(private precision: number) {}
+
+    formatAverage(values: number[]): string {
+        return `Average: ${average(values).toFixed(this.precision)}`;
+    }
+}
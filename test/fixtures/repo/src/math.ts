@@ -0,0 +1,16 @@
+/**
+ * Adds two numbers.
+ */
+export function add(a: number, b: number): number {
+    return a + b;
+}
+
+/**
+ * The mean of a list of numbers; 0 for an empty list.
+ */
+export function average(values: number[]): number {
+    if (values.length === 0) {
+        return 0;
+    }
+    return values.reduce(add, 0) / values.length;
+}
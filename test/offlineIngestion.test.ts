@@ -0,0 +1,127 @@
+// --- FILE: test/offlineIngestion.test.ts ---
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { promises as fs } from 'fs';
+import os from 'os';
+import path from 'path';
+import simpleGit from 'simple-git';
+
+// Everything below must work without network access.
+process.env.LLM_PROVIDER = 'fake';
+
+const FIXTURE_REPO = path.join(__dirname, 'fixtures', 'repo');
+
+/**
+ * Makes the fixture repository a git repository with two commits, in a temporary directory.
+ */
+async function createFixtureRepo(): Promise<string> {
+    const dir = await fs.mkdtemp(path.join(os.tmpdir(), 'brain-offline-'));
+    const git = simpleGit(dir);
+    await git.init();
+    await git.addConfig('user.name', 'Fixture Author');
+    await git.addConfig('user.email', 'fixture@example.com');
+    await git.addConfig('commit.gpgsign', 'false');
+
+    await fs.mkdir(path.join(dir, 'src'));
+    for (const file of ['README.md', 'src/math.ts']) {
+        await fs.copyFile(path.join(FIXTURE_REPO, file), path.join(dir, file));
+    }
+    await git.add('.');
+    await git.commit('Add math helpers and readme');
+
+    await fs.copyFile(path.join(FIXTURE_REPO, 'src/format.ts'), path.join(dir, 'src/format.ts'));
+    await git.add('.');
+    await git.commit('Add a report formatter for averages');
+    return dir;
+}
+
+// Any attempt to reach a model API fails the test.
+function forbidNetwork(): () => void {
+    const originalFetch = globalThis.fetch;
+    globalThis.fetch = (async (input: unknown) => {
+        throw new Error(`Network access attempted: ${String(input)}`);
+    }) as typeof fetch;
+    return () => { globalThis.fetch = originalFetch; };
+}
+
+test('the fake provider answers each caller in the shape it expects', async () => {
+    const restoreNetwork = forbidNetwork();
+    try {
+        const llm = await import('../src/services/llm');
+        const { generateTaskFromCommitPrompt } = await import('../src/core/prompts/taskGeneration.prompt');
+        const { generateCommitDigestPrompt } = await import('../src/core/prompts/commitDigest.prompt');
+        const diff = 'diff --git a/src/math.ts b/src/math.ts\n--- a/src/math.ts\n+++ b/src/math.ts\n@@ -1,1 +1,2 @@\n+export const two = 2;\n';
+
+        const taskReply = await llm.getJsonChatCompletion([{ role: 'user', content: generateTaskFromCommitPrompt('Add two', { diff }) }]);
+        const task = JSON.parse(taskReply!);
+        assert.deepEqual(Object.keys(task), ['title', 'category', 'description']);
+        assert.equal(task.category, 'feature');
+        assert.equal(typeof task.title, 'string');
+
+        const digest = await llm.getChatCompletion([{ role: 'user', content: generateCommitDigestPrompt('Add two', { diff }) }]);
+        assert.ok(digest && digest.length > 0);
+
+        const unstructured = JSON.parse((await llm.getJsonChatCompletion([{ role: 'user', content: 'No example here.' }]))!);
+        assert.equal(typeof unstructured.response, 'string');
+
+        const [first, again] = await Promise.all([llm.getEmbedding('average of values'), llm.getEmbedding('average of values')]);
+        assert.deepEqual(first, again);
+        assert.equal(first.length, parseInt(process.env.EMBEDDING_DIMENSIONS || '1536', 10));
+        // Cost estimates look up cached embeddings under the model the provider embeds with.
+        assert.equal(llm.getConfiguredModels().embeddingModel, llm.getProvider().embeddingModel);
+    } finally {
+        restoreNetwork();
+    }
+});
+
+test('ingests a fixture repository offline with the fake provider', {
+    skip: process.env.DATABASE_URL ? false : 'set DATABASE_URL to a database with schema.sql applied',
+}, async () => {
+    const { runIngestion } = await import('../src/scripts/ingest');
+    const { default: pool } = await import('../src/services/db');
+    const repoPath = await createFixtureRepo();
+    const restoreNetwork = forbidNetwork();
+    let projectId: number | null = null;
+    try {
+        const { rows: [project] } = await pool.query(
+            `INSERT INTO projects (name, source, source_type) VALUES ('offline-fixture', $1, 'local') RETURNING id`,
+            [repoPath]
+        );
+        projectId = project.id as number;
+        const logs: string[] = [];
+        await runIngestion(projectId, repoPath, message => logs.push(message));
+
+        const { rows: files } = await pool.query('SELECT path FROM indexed_files WHERE project_id = $1', [projectId]);
+        const paths = files.map(f => f.path);
+        assert.ok(paths.includes('src/math.ts') && paths.includes('src/format.ts'), `files: ${paths.join(', ')}`);
+
+        const { rows: chunks } = await pool.query(
+            `SELECT c.chunk_name FROM code_chunks c JOIN indexed_files f ON f.id = c.file_id WHERE f.project_id = $1`,
+            [projectId]
+        );
+        const names = chunks.map(c => c.chunk_name);
+        assert.ok(names.includes('add') && names.includes('average') && names.includes('ReportFormatter'), `chunks: ${names.join(', ')}`);
+
+        const { rows: commits } = await pool.query(
+            `SELECT c.message, c.digest, EXISTS (SELECT 1 FROM commit_refs r WHERE r.commit_id = c.id AND r.ref = 'HEAD') AS on_head
+             FROM commits c WHERE c.project_id = $1 ORDER BY c.commit_date, c.id`,
+            [projectId]
+        );
+        assert.equal(commits.length, 2);
+        assert.ok(commits.every(c => c.on_head && c.digest));
+
+        const { rows: tasks } = await pool.query(
+            `SELECT title, status, is_retrospective FROM tasks WHERE project_id = $1`,
+            [projectId]
+        );
+        assert.ok(tasks.length >= 1, logs.join('\n'));
+        assert.ok(tasks.every(t => t.status === 'done' && t.is_retrospective));
+    } finally {
+        restoreNetwork();
+        if (projectId !== null) {
+            await pool.query('DELETE FROM projects WHERE id = $1', [projectId]);
+        }
+        await pool.end();
+        await fs.rm(repoPath, { recursive: true, force: true });
+    }
+});
@@ -0,0 +1,81 @@
+// --- FILE: test/taskReferences.test.ts ---
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { branchNamesFromMergeSubject, findTaskReferences, TaskReference } from '../src/core/taskReferences';
+
+// References sorted by task number, so assertions don't depend on the order they were found in.
+function references(commit: Parameters<typeof findTaskReferences>[0]): TaskReference[] {
+    return findTaskReferences(commit).sort((a, b) => a.taskNumber - b.taskNumber);
+}
+
+test('closes every task in a list after a closing verb', () => {
+    assert.deepEqual(references({ message: 'Handle empty uploads, fixes #12, closes #14' }), [
+        { taskNumber: 12, relation: 'closes', source: 'message' },
+        { taskNumber: 14, relation: 'closes', source: 'message' },
+    ]);
+    assert.deepEqual(references({ message: 'Resolves: #3 and #4' }).map(r => r.relation), ['closes', 'closes']);
+});
+
+test('references tasks after a referencing verb or on their own', () => {
+    assert.deepEqual(references({ message: 'Extract the upload client, refs #7' }), [
+        { taskNumber: 7, relation: 'references', source: 'message' },
+    ]);
+    assert.deepEqual(references({ message: 'Tidy up', body: 'Groundwork for #9.' }), [
+        { taskNumber: 9, relation: 'references', source: 'message' },
+    ]);
+});
+
+test('reopens tasks, and the later verb wins over an earlier one', () => {
+    assert.deepEqual(references({ message: 'Revert the retry change, reopens #21' }), [
+        { taskNumber: 21, relation: 'reopens', source: 'message' },
+    ]);
+    assert.equal(references({ message: 'Fixes #5', body: 'Not quite: reopens #5' })[0].relation, 'reopens');
+    // A bare mention doesn't weaken a closing one.
+    assert.equal(references({ message: 'Fixes #5', body: 'See the notes on #5 above.' })[0].relation, 'closes');
+});
+
+test('reads trailers', () => {
+    const body = 'Retries uploads up to three times.\n\nFixes: #31\nRefs: 32, #33\nSigned-off-by: Dev <dev@example.com>';
+    assert.deepEqual(references({ message: 'Retry failed uploads', body }), [
+        { taskNumber: 31, relation: 'closes', source: 'trailer' },
+        { taskNumber: 32, relation: 'references', source: 'trailer' },
+        { taskNumber: 33, relation: 'references', source: 'trailer' },
+    ]);
+});
+
+test('ignores pull request numbers in merge subjects', () => {
+    assert.deepEqual(references({ message: 'Merge pull request #88 from octo/feature/40-login' }), []);
+});
+
+test('finds task numbers in branch names', () => {
+    const cases: [string, number][] = [
+        ['feature/12-add-login', 12],
+        ['task-13', 13],
+        ['14_fix-crash', 14],
+        ['bugfix/GH-15', 15],
+    ];
+    for (const [branchName, taskNumber] of cases) {
+        assert.deepEqual(references({ message: 'Work', branchNames: [branchName] }), [
+            { taskNumber, relation: 'references', source: 'branch' },
+        ], branchName);
+    }
+    const merged = branchNamesFromMergeSubject("Merge branch 'feature/42-retry-uploads' into 'main'");
+    assert.deepEqual(merged, ['feature/42-retry-uploads']);
+    assert.equal(references({ message: 'Merge', branchNames: merged })[0].taskNumber, 42);
+});
+
+test('does not read versions or dates in release branches as task numbers', () => {
+    assert.deepEqual(references({ message: 'Cut the release', branchNames: ['release/2024-01'] }), []);
+    assert.deepEqual(references({ message: 'Patch', branchNames: ['hotfix/3-2-1'] }), []);
+    assert.deepEqual(references({ message: 'Patch', branchNames: ['hotfix/task-16-crash'] }), [
+        { taskNumber: 16, relation: 'references', source: 'branch' },
+    ]);
+});
+
+test('ignores colors and code', () => {
+    assert.deepEqual(references({ message: 'Darken the header', body: 'Use color #333 for the title.' }), []);
+    assert.deepEqual(references({ message: 'Darken the header', body: 'Set `background: #fafafa` and `#333`.' }), []);
+    assert.deepEqual(references({ message: 'Style tweak', body: '```\n.title { color: #123; }\n```\nFixes #4' }), [
+        { taskNumber: 4, relation: 'closes', source: 'message' },
+    ]);
+});
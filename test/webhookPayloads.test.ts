@@ -0,0 +1,135 @@
+// --- FILE: test/webhookPayloads.test.ts ---
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import crypto from 'crypto';
+import fs from 'fs';
+import path from 'path';
+import { isRelevantPush, parseWebhook, verifyWebhookSignature, InvalidWebhookError } from '../src/core/webhookPayloads';
+
+const SECRET = 'webhook-test-secret';
+
+function fixture(name: string): Buffer {
+    return fs.readFileSync(path.join(__dirname, 'fixtures', 'webhooks', name));
+}
+
+function sign(algorithm: 'sha256' | 'sha1', body: Buffer, secret = SECRET): string {
+    return crypto.createHmac(algorithm, secret).update(body).digest('hex');
+}
+
+// Headers as each forge sends them with a push, lower-cased as Node provides them.
+function githubHeaders(body: Buffer) {
+    return { 'x-github-event': 'push', 'content-type': 'application/json', 'x-hub-signature-256': `sha256=${sign('sha256', body)}` };
+}
+
+function gitlabHeaders() {
+    return { 'x-gitlab-event': 'Push Hook', 'content-type': 'application/json', 'x-gitlab-token': SECRET };
+}
+
+function giteaHeaders(body: Buffer) {
+    // Gitea also sends GitHub-style headers for compatibility.
+    return { 'x-gitea-event': 'push', 'x-github-event': 'push', 'content-type': 'application/json', 'x-gitea-signature': sign('sha256', body) };
+}
+
+test('parses a GitHub push to the default branch', () => {
+    const body = fixture('github-push.json');
+    const webhook = parseWebhook(githubHeaders(body), body);
+    assert.equal(webhook.provider, 'github');
+    assert.equal(webhook.event, 'push');
+    assert.equal(webhook.ref, 'refs/heads/main');
+    assert.equal(webhook.defaultBranch, 'main');
+    assert.equal(webhook.headCommit, '0d1a26e67d8f5eaf1f6ba5c57fc3c7d91ac0fd1c');
+    assert.ok(webhook.repositoryUrls.includes('https://github.com/octo-org/brain-demo.git'));
+    assert.ok(webhook.repositoryUrls.includes('git@github.com:octo-org/brain-demo.git'));
+    assert.equal(isRelevantPush(webhook), true);
+});
+
+test('parses a form-encoded GitHub delivery', () => {
+    const json = fixture('github-push.json');
+    const body = Buffer.from(new URLSearchParams({ payload: json.toString('utf8') }).toString());
+    const webhook = parseWebhook({ 'x-github-event': 'push', 'content-type': 'application/x-www-form-urlencoded' }, body);
+    assert.equal(webhook.ref, 'refs/heads/main');
+});
+
+test('parses a GitLab push to a feature branch', () => {
+    const body = fixture('gitlab-push.json');
+    const webhook = parseWebhook(gitlabHeaders(), body);
+    assert.equal(webhook.provider, 'gitlab');
+    assert.equal(webhook.event, 'push');
+    assert.equal(webhook.ref, 'refs/heads/feature/42-retry-uploads');
+    assert.equal(webhook.defaultBranch, 'master');
+    assert.equal(webhook.headCommit, 'da1560886d4f094c3e6c9ef40349f7d38b5d27d7');
+    assert.ok(webhook.repositoryUrls.includes('http://example.com/mike/diaspora.git'));
+});
+
+test('parses a Gitea push as Gitea despite its GitHub-style headers', () => {
+    const body = fixture('gitea-push.json');
+    const webhook = parseWebhook(giteaHeaders(body), body);
+    assert.equal(webhook.provider, 'gitea');
+    assert.equal(webhook.event, 'push');
+    assert.equal(webhook.defaultBranch, 'main');
+    assert.ok(webhook.repositoryUrls.includes('https://gitea.example.com/team/brain-demo.git'));
+    assert.equal(isRelevantPush(webhook), true);
+});
+
+test('rejects unknown senders and malformed bodies', () => {
+    const body = fixture('github-push.json');
+    assert.throws(() => parseWebhook({ 'content-type': 'application/json' }, body), InvalidWebhookError);
+    assert.throws(() => parseWebhook({ 'x-github-event': 'push' }, Buffer.from('{not json')), InvalidWebhookError);
+});
+
+test('classifies ping and other events', () => {
+    const body = fixture('github-push.json');
+    assert.equal(parseWebhook({ 'x-github-event': 'ping' }, body).event, 'ping');
+    const issues = parseWebhook({ 'x-github-event': 'issues' }, body);
+    assert.equal(issues.event, 'other');
+    assert.equal(isRelevantPush(issues), false);
+});
+
+test('verifies GitHub signatures, sha256 and legacy sha1', () => {
+    const body = fixture('github-push.json');
+    assert.equal(verifyWebhookSignature('github', githubHeaders(body), body, SECRET), true);
+    assert.equal(verifyWebhookSignature('github', { 'x-hub-signature': `sha1=${sign('sha1', body)}` }, body, SECRET), true);
+    assert.equal(verifyWebhookSignature('github', githubHeaders(body), body, 'another-secret'), false);
+    assert.equal(verifyWebhookSignature('github', githubHeaders(body), Buffer.concat([body, Buffer.from(' ')]), SECRET), false);
+    assert.equal(verifyWebhookSignature('github', {}, body, SECRET), false);
+});
+
+test('verifies Gitea signatures', () => {
+    const body = fixture('gitea-push.json');
+    assert.equal(verifyWebhookSignature('gitea', giteaHeaders(body), body, SECRET), true);
+    assert.equal(verifyWebhookSignature('gitea', { 'x-gitea-signature': sign('sha256', body, 'wrong') }, body, SECRET), false);
+    assert.equal(verifyWebhookSignature('gitea', {}, body, SECRET), false);
+});
+
+test('verifies GitLab secret tokens', () => {
+    const body = fixture('gitlab-push.json');
+    assert.equal(verifyWebhookSignature('gitlab', gitlabHeaders(), body, SECRET), true);
+    assert.equal(verifyWebhookSignature('gitlab', { 'x-gitlab-token': 'wrong' }, body, SECRET), false);
+    assert.equal(verifyWebhookSignature('gitlab', {}, body, SECRET), false);
+});
+
+test('ignores pushes to branches other than the default unless they are tracked', () => {
+    const body = fixture('gitlab-push.json');
+    const webhook = parseWebhook(gitlabHeaders(), body);
+    assert.equal(isRelevantPush(webhook), false);
+    assert.equal(isRelevantPush(webhook, ['release/*']), false);
+    assert.equal(isRelevantPush(webhook, ['feature/*']), true);
+    // Without a default branch in the payload, any branch push counts.
+    assert.equal(isRelevantPush({ ...webhook, defaultBranch: null }), true);
+});
+
+test('ignores tag pushes unless the tag is tracked', () => {
+    const body = fixture('github-push-tag.json');
+    const webhook = parseWebhook(githubHeaders(body), body);
+    assert.equal(webhook.ref, 'refs/tags/v1.4.0');
+    assert.equal(isRelevantPush(webhook), false);
+    assert.equal(isRelevantPush(webhook, ['v1.*']), true);
+});
+
+test('ignores deletions of untracked branches but not of tracked refs', () => {
+    const body = fixture('github-push.json');
+    const webhook = parseWebhook(githubHeaders(body), body);
+    const deletion = { ...webhook, ref: 'refs/heads/old-feature', headCommit: '0'.repeat(40), defaultBranch: null };
+    assert.equal(isRelevantPush(deletion), false);
+    assert.equal(isRelevantPush(deletion, ['old-feature']), true);
+});